@@ -1,14 +1,25 @@
 /**
  * LLM Chat App Frontend (POST + SSE via fetch) + Markdown rendering + Heartbeat + Lenient SSE
+ * 使用 v2 事件流（?format=v2）：正文只来自 text 事件，状态/工具/错误显示在气泡下方的状态行
+ * 附件：拖放/粘贴图片、PDF、文本文件 → 上传到 /api/attachments，消息里按 attachment_id 引用
+ * 预设：Worker 配置了预设时显示选择框，发送时带 ?preset=
+ * 分支：消息组成树（id / parent_id），可编辑用户消息、重新生成回复，并用 ‹ 2/3 › 在同级分支间切换
  */
 
 const chatMessages = document.getElementById("chat-messages");
 const userInput = document.getElementById("user-input");
 const sendButton = document.getElementById("send-button");
+const attachmentTray = document.getElementById("attachment-tray");
+const presetSelect = document.getElementById("preset-select");
+const compareButton = document.getElementById("compare-button");
 const typingIndicator = document.getElementById("typing-indicator");
 
 const SEED = undefined;
 const MAX_TOKENS = 1200;
+// 连接中断后的续传重试次数（需要服务端绑定 STREAMS）
+const RESUME_ATTEMPTS = 3;
+// 知识库集合：页面地址带 ?collection=a,b 时随每次请求传给 Worker
+const KNOWLEDGE_COLLECTIONS = new URLSearchParams(location.search).get("collection");
 
 let markedRef = null;
 let DOMPurifyRef = null;
@@ -45,6 +56,403 @@ let chatHistory = [
 let isProcessing = false;
 let esRef = null;
 
+// ——消息树：同一 parent 下的多条消息即分支（编辑 / 重新生成）；chatHistory 始终是欢迎语 + 根到 currentId 的路径——
+const WELCOME = chatHistory[0];
+const tree = new Map();
+let currentId = null;
+let nodeSeq = 0;
+// 正在编辑的用户消息：发送时作为它的同级分支
+let editTarget = null;
+
+// 服务端会话的消息 ID（m1、m2…）；本地 ID 不能作为 parent_id 发给服务端
+const isServerId = (id) => typeof id === "string" && /^m\d+$/.test(id);
+
+function addNode(m, parentId) {
+  const node = {
+    id: m.id || `local-${nodeSeq + 1}`,
+    parent_id: parentId ?? null,
+    role: m.role,
+    content: m.content,
+    citations: m.citations,
+    seq: ++nodeSeq,
+  };
+  tree.set(node.id, node);
+  return node;
+}
+
+// 换成服务端分配的 ID
+function renameNode(node, id) {
+  if (!id || node.id === id) return;
+  tree.delete(node.id);
+  for (const n of tree.values()) if (n.parent_id === node.id) n.parent_id = id;
+  if (currentId === node.id) currentId = id;
+  node.id = id;
+  tree.set(id, node);
+}
+
+function childrenOf(id) {
+  return [...tree.values()].filter((n) => n.parent_id === id).sort((a, b) => a.seq - b.seq);
+}
+
+function pathTo(id) {
+  const path = [];
+  for (let n = tree.get(id); n; n = tree.get(n.parent_id)) path.unshift(n);
+  return path;
+}
+
+// 沿最新的子消息走到末端
+function latestLeaf(node) {
+  for (let kids = childrenOf(node.id); kids.length; kids = childrenOf(node.id)) node = kids[kids.length - 1];
+  return node;
+}
+
+function setCurrent(id) {
+  currentId = id;
+  chatHistory = [WELCOME, ...pathTo(id)];
+}
+
+// 服务端会话（带 id / parent_id）或导入的线性历史；system 消息留在服务端，不显示
+function loadTree(messages, current) {
+  tree.clear();
+  let prev = null;
+  for (const m of messages) {
+    if (m.role === "system") continue;
+    prev = addNode(m, m.id ? m.parent_id : prev).id;
+  }
+  setCurrent(current && tree.has(current) ? current : prev);
+}
+
+// ——API key：Worker 开启鉴权时需要；存在 localStorage，401 时提示输入——
+const API_KEY_STORAGE = "llm-chat-api-key";
+
+async function apiFetch(url, init = {}) {
+  const withKey = () => {
+    const key = localStorage.getItem(API_KEY_STORAGE);
+    const headers = new Headers(init.headers || {});
+    if (key) headers.set("Authorization", `Bearer ${key}`);
+    return fetch(url, { ...init, headers });
+  };
+  let resp = await withKey();
+  if (resp.status === 401) {
+    const key = window.prompt("This chat requires an API key:");
+    if (key && key.trim()) {
+      localStorage.setItem(API_KEY_STORAGE, key.trim());
+      resp = await withKey();
+    }
+  }
+  return resp;
+}
+
+// ——服务端会话：?c=<id> 可跨设备恢复/分享；未配置时退回纯前端历史——
+let conversationId = new URLSearchParams(location.search).get("c");
+let conversationsEnabled = true;
+
+async function ensureConversation(userNode) {
+  if (!conversationsEnabled) return null;
+  if (conversationId) return conversationId;
+  // 带上已有历史（本条消息之前的路径；本条由 /messages 追加）
+  const seed = pathTo(userNode.parent_id);
+  try {
+    const resp = await apiFetch("/api/conversations", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ messages: buildMessages(seed) }),
+    });
+    if (!resp.ok) {
+      // 501：Worker 未绑定会话存储；其他错误本次退回 /api/chat
+      if (resp.status === 501) conversationsEnabled = false;
+      return null;
+    }
+    const conv = await resp.json();
+    seed.forEach((n, i) => renameNode(n, conv.messages?.[i]?.id));
+    setConversationId(conv.id);
+    return conversationId;
+  } catch {
+    conversationsEnabled = false;
+    return null;
+  }
+}
+
+function setConversationId(id) {
+  conversationId = id;
+  const u = new URL(location.href);
+  if (id) u.searchParams.set("c", id);
+  else u.searchParams.delete("c");
+  history.replaceState(null, "", u.toString());
+}
+
+async function restoreConversation() {
+  if (!conversationId) return;
+  try {
+    const resp = await apiFetch(`/api/conversations/${encodeURIComponent(conversationId)}`);
+    if (resp.status === 501) {
+      conversationsEnabled = false;
+      return;
+    }
+    if (!resp.ok) {
+      setConversationId(null);
+      return;
+    }
+    const conv = await resp.json();
+    loadTree(conv.messages || [], conv.current_id);
+    await renderConversation();
+  } catch {
+    // 恢复失败：保持空白会话
+  }
+}
+
+// 按当前分支重画消息（保留欢迎语）；恢复 / 导入 / 切换分支共用
+async function renderConversation() {
+  while (chatMessages.children.length > 1) chatMessages.lastElementChild.remove();
+  const { marked, DOMPurify } = await loadMarkdownDeps().catch(() => ({}));
+  for (const node of chatHistory.slice(1)) {
+    let el;
+    if (node.role === "assistant" && marked && DOMPurify) {
+      const html = marked.parse(withFootnotes(node.content, node.citations)) + sourcesHTML(node.citations);
+      el = addMessageToChat(node.role, DOMPurify.sanitize(html), { renderMarkdown: true });
+    } else {
+      el = addMessageToChat(node.role, node.content, { renderMarkdown: false });
+    }
+    addMessageActions(el, node);
+  }
+}
+
+// 气泡下方的操作：‹ 2/3 › 切换同级分支，✎ 编辑用户消息，↻ 重新生成回复 / 重试
+function addMessageActions(el, node) {
+  el.querySelector(".message-actions")?.remove();
+  const bar = document.createElement("div");
+  bar.className = "message-actions";
+  const button = (label, title, onClick, disabled = false) => {
+    const b = document.createElement("button");
+    b.type = "button";
+    b.textContent = label;
+    b.title = title;
+    b.disabled = disabled;
+    b.addEventListener("click", onClick);
+    bar.appendChild(b);
+  };
+  const siblings = childrenOf(node.parent_id);
+  const i = siblings.indexOf(node);
+  if (siblings.length > 1) {
+    button("‹", "Previous version", () => switchBranch(siblings[i - 1]), i === 0);
+    bar.insertAdjacentHTML("beforeend", `<span>${i + 1}/${siblings.length}</span>`);
+    button("›", "Next version", () => switchBranch(siblings[i + 1]), i === siblings.length - 1);
+  }
+  if (node.role === "user") {
+    button("✎", "Edit", () => startEdit(node, el));
+    // 没拿到回复（出错 / 中断）的消息可以直接重试
+    if (!childrenOf(node.id).length) button("↻", "Retry", () => regenerate(node));
+  } else {
+    button("↻", "Regenerate", () => regenerate(tree.get(node.parent_id)));
+  }
+  el.appendChild(bar);
+}
+
+async function switchBranch(node) {
+  if (isProcessing || !node) return;
+  cancelEdit();
+  setCurrent(latestLeaf(node).id);
+  await renderConversation();
+  // 记住所选分支，刷新 / 换设备后仍显示它
+  if (conversationId && isServerId(node.id)) {
+    apiFetch(`/api/conversations/${encodeURIComponent(conversationId)}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ current_id: node.id }),
+    }).catch(() => {});
+  }
+}
+
+// 编辑：原文放回输入框，发送时作为同级分支（附件保留）
+function startEdit(node, el) {
+  if (isProcessing) return;
+  cancelEdit();
+  editTarget = node;
+  el.classList.add("editing");
+  const content = node.content;
+  userInput.value = Array.isArray(content)
+    ? content.filter((p) => p.type === "input_text").map((p) => p.text).join("\n")
+    : content;
+  userInput.dispatchEvent(new Event("input"));
+  userInput.focus();
+}
+
+function cancelEdit() {
+  editTarget = null;
+  chatMessages.querySelector(".message.editing")?.classList.remove("editing");
+}
+
+restoreConversation();
+
+// ——导出 / 导入：有服务端会话时走 /api/conversations，否则把前端历史交给无状态的 /api/export、/api/import——
+const exportSelect = document.getElementById("export-select");
+const importButton = document.getElementById("import-button");
+const importFile = document.getElementById("import-file");
+
+exportSelect.addEventListener("change", async () => {
+  const format = exportSelect.value;
+  exportSelect.value = "";
+  if (!format) return;
+  try {
+    const resp = conversationId
+      ? await apiFetch(`/api/conversations/${encodeURIComponent(conversationId)}/export?format=${format}`)
+      : await apiFetch(`/api/export?format=${format}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          // 去掉欢迎语
+          body: JSON.stringify({ messages: chatHistory.slice(1) }),
+        });
+    if (!resp.ok) throw new Error((await resp.json().catch(() => ({}))).error || `HTTP ${resp.status}`);
+    const name = /filename="([^"]+)"/.exec(resp.headers.get("content-disposition") || "")?.[1] || `conversation.${format}`;
+    const a = document.createElement("a");
+    a.href = URL.createObjectURL(await resp.blob());
+    a.download = name;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(a.href), 1000);
+  } catch (err) {
+    alert(`Export failed: ${err.message}`);
+  }
+});
+
+importButton.addEventListener("click", () => importFile.click());
+importFile.addEventListener("change", async () => {
+  const file = importFile.files[0];
+  importFile.value = "";
+  if (!file || isProcessing) return;
+  const format = /\.jsonl$/i.test(file.name) ? "jsonl" : /\.json$/i.test(file.name) ? "json" : "markdown";
+  const init = { method: "POST", headers: { "Content-Type": "text/plain" }, body: await file.text() };
+  try {
+    let resp = conversationsEnabled ? await apiFetch(`/api/conversations/import?format=${format}`, init) : null;
+    if (resp?.status === 501) conversationsEnabled = false;
+    if (!conversationsEnabled) resp = await apiFetch(`/api/import?format=${format}`, init);
+    const data = await resp.json().catch(() => ({}));
+    if (!resp.ok) throw new Error(data.error || `HTTP ${resp.status}`);
+    // 导入的会话替换当前界面（保留欢迎语）
+    setConversationId(data.id && conversationsEnabled ? data.id : null);
+    cancelEdit();
+    loadTree(data.messages || [], data.current_id);
+    await renderConversation();
+  } catch (err) {
+    alert(`Import failed: ${err.message}`);
+  }
+});
+
+// ——预设：未配置（501）或为空时不显示选择框；选择记在 localStorage——
+const PRESET_STORAGE = "llm-chat-preset";
+
+async function loadPresets() {
+  try {
+    const resp = await apiFetch("/api/presets");
+    if (!resp.ok) return;
+    const { data } = await resp.json();
+    if (!Array.isArray(data) || !data.length) return;
+    presetSelect.innerHTML =
+      `<option value="">Default</option>` +
+      data
+        .map((p) => `<option value="${escapeHTML(p.name)}" title="${escapeHTML(p.description || "")}">${escapeHTML(p.name)}</option>`)
+        .join("");
+    const saved = localStorage.getItem(PRESET_STORAGE);
+    if (saved && data.some((p) => p.name === saved)) presetSelect.value = saved;
+    presetSelect.hidden = false;
+  } catch {
+    // 加载失败：保持默认
+  }
+}
+
+presetSelect.addEventListener("change", () => localStorage.setItem(PRESET_STORAGE, presetSelect.value));
+loadPresets();
+
+// ——附件：拖放 / 粘贴，先上传拿到 ID，发送时作为内容片段引用——
+const ATTACHMENT_TYPES = [
+  "image/png", "image/jpeg", "image/gif", "image/webp",
+  "application/pdf", "text/plain", "text/markdown", "text/csv",
+];
+const ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024;
+let pendingAttachments = [];
+
+async function addAttachment(file) {
+  const type = file.type || (/\.md$/i.test(file.name) ? "text/markdown" : "");
+  const att = {
+    name: file.name || "upload",
+    type,
+    previewUrl: type.startsWith("image/") ? URL.createObjectURL(file) : null,
+    status: "uploading",
+    id: null,
+    error: "",
+  };
+  pendingAttachments.push(att);
+  if (!ATTACHMENT_TYPES.includes(type)) {
+    att.status = "error";
+    att.error = "Unsupported file type";
+  } else if (file.size > ATTACHMENT_MAX_BYTES) {
+    att.status = "error";
+    att.error = "File too large";
+  }
+  renderAttachmentTray();
+  if (att.status === "error") return;
+
+  try {
+    const form = new FormData();
+    form.append("file", new File([file], att.name, { type }));
+    const resp = await apiFetch("/api/attachments", { method: "POST", body: form });
+    const data = await resp.json().catch(() => ({}));
+    if (!resp.ok) throw new Error(data.error || `HTTP ${resp.status}`);
+    att.id = data.id;
+    att.status = "ready";
+  } catch (e) {
+    att.status = "error";
+    att.error = e.message || "Upload failed";
+  }
+  renderAttachmentTray();
+}
+
+function removeAttachment(att) {
+  pendingAttachments = pendingAttachments.filter((a) => a !== att);
+  if (att.id) apiFetch(`/api/attachments/${att.id}`, { method: "DELETE" }).catch(() => {});
+  renderAttachmentTray();
+}
+
+function renderAttachmentTray() {
+  attachmentTray.innerHTML = "";
+  for (const att of pendingAttachments) {
+    const chip = document.createElement("div");
+    chip.className = `attachment-chip ${att.status}`;
+    chip.title = att.error || att.name;
+    chip.innerHTML = att.previewUrl
+      ? `<img src="${att.previewUrl}" alt="">`
+      : `<span class="file-icon">📄</span>`;
+    chip.insertAdjacentHTML("beforeend", `<span class="name">${escapeHTML(att.name)}</span>`);
+    const remove = document.createElement("button");
+    remove.type = "button";
+    remove.textContent = "×";
+    remove.addEventListener("click", () => removeAttachment(att));
+    chip.appendChild(remove);
+    attachmentTray.appendChild(chip);
+  }
+  attachmentTray.classList.toggle("visible", pendingAttachments.length > 0);
+}
+
+document.addEventListener("dragover", (e) => {
+  if (!e.dataTransfer?.types?.includes("Files")) return;
+  e.preventDefault();
+  document.body.classList.add("dragging");
+});
+document.addEventListener("dragleave", (e) => {
+  if (e.relatedTarget === null) document.body.classList.remove("dragging");
+});
+document.addEventListener("drop", (e) => {
+  if (!e.dataTransfer?.files?.length) return;
+  e.preventDefault();
+  document.body.classList.remove("dragging");
+  for (const f of e.dataTransfer.files) addAttachment(f);
+});
+userInput.addEventListener("paste", (e) => {
+  const files = [...(e.clipboardData?.files || [])];
+  if (!files.length) return;
+  e.preventDefault();
+  for (const f of files) addAttachment(f);
+});
+
 userInput.addEventListener("input", function () {
   this.style.height = "auto";
   this.style.height = this.scrollHeight + "px";
@@ -53,26 +461,83 @@ userInput.addEventListener("keydown", function (e) {
   if (e.key === "Enter" && !e.shiftKey) {
     e.preventDefault();
     sendMessage();
+  } else if (e.key === "Escape" && editTarget) {
+    cancelEdit();
+    this.value = "";
+    this.style.height = "auto";
   }
 });
 sendButton.addEventListener("click", sendMessage);
 
 async function sendMessage() {
   const message = userInput.value.trim();
-  if (message === "" || isProcessing) return;
+  const ready = pendingAttachments.filter((a) => a.status === "ready");
+  // 编辑时保留原消息的附件
+  const editing = editTarget;
+  const kept = editing && Array.isArray(editing.content) ? editing.content.filter((p) => p.type !== "input_text") : [];
+  if ((message === "" && !ready.length && !kept.length) || isProcessing) return;
+  if (pendingAttachments.some((a) => a.status === "uploading")) return;
 
-  isProcessing = true;
-  userInput.disabled = true;
-  sendButton.disabled = true;
+  // 有附件时 content 为片段数组（附件按 ID 引用）
+  const parts = [
+    ...kept,
+    ...ready.map((a) =>
+      a.type.startsWith("image/")
+        ? { type: "input_image", attachment_id: a.id }
+        : { type: "input_file", attachment_id: a.id, filename: a.name }
+    ),
+  ];
+  const content = parts.length ? [...(message ? [{ type: "input_text", text: message }] : []), ...parts] : message;
+  pendingAttachments = [];
+  renderAttachmentTray();
 
-  addMessageToChat("user", message, { renderMarkdown: false });
+  // 编辑：新消息接在原消息的 parent 下，界面先切到那里
+  if (editing) {
+    cancelEdit();
+    setCurrent(editing.parent_id);
+    await renderConversation();
+  }
+  lockInput();
+
+  const userNode = addNode({ role: "user", content }, currentId);
+  setCurrent(userNode.id);
+  const userEl = addMessageToChat("user", content, { renderMarkdown: false, previews: ready });
 
   userInput.value = "";
   userInput.style.height = "auto";
+
+  if (compareTargets().length >= 2) return sendComparison(userNode, userEl);
+  return streamReply(userNode, { userEl });
+}
+
+// 重新生成某条用户消息的回复：新回复与已有回复同级
+async function regenerate(userNode) {
+  if (isProcessing || !userNode) return;
+  cancelEdit();
+  setCurrent(userNode.id);
+  await renderConversation();
+  lockInput();
+  // 重画后最后一个气泡就是这条用户消息
+  return streamReply(userNode, { userEl: chatMessages.lastElementChild, regenerate: true });
+}
+
+function lockInput() {
+  isProcessing = true;
+  userInput.disabled = true;
+  sendButton.disabled = true;
   typingIndicator.classList.add("visible");
+}
 
-  chatHistory.push({ role: "user", content: message });
+function unlockInput() {
+  typingIndicator.classList.remove("visible");
+  isProcessing = false;
+  userInput.disabled = false;
+  sendButton.disabled = false;
+  userInput.focus();
+}
 
+// 流式生成 userNode 的回复；结束后刷新 userEl（该用户消息的气泡）上的操作按钮
+async function streamReply(userNode, { userEl, regenerate = false }) {
   if (esRef && typeof esRef.close === "function") {
     try { esRef.close(); } catch {}
   }
@@ -82,19 +547,36 @@ async function sendMessage() {
   assistantMessageEl.innerHTML = `<div class="message-body"></div>`;
   const bodyEl = assistantMessageEl.querySelector(".message-body");
   chatMessages.appendChild(assistantMessageEl);
+
+  // ——状态行：心跳/工具/错误，不进入正文与历史——
+  const statusEl = document.createElement("div");
+  statusEl.className = "message-status";
+  chatMessages.appendChild(statusEl);
   chatMessages.scrollTop = chatMessages.scrollHeight;
+  const setStatus = (text, kind = "") => {
+    statusEl.textContent = text || "";
+    statusEl.className = `message-status${kind ? " " + kind : ""}`;
+    chatMessages.scrollTop = chatMessages.scrollHeight;
+  };
 
   // ——给个起始占位，避免空白——
   bodyEl.textContent = "… 正在处理你的请求";
 
   const messages = buildMessages(chatHistory);
 
-  const qs = new URLSearchParams();
+  // resumable=1：服务端绑定了 STREAMS 时缓冲本次回复，断线后可重连
+  const qs = new URLSearchParams({ format: "v2", resumable: "1" });
   if (typeof MAX_TOKENS === "number") qs.set("max_tokens", String(MAX_TOKENS));
   if (typeof SEED === "number") qs.set("seed", String(SEED));
+  if (presetSelect.value) qs.set("preset", presetSelect.value);
+  if (KNOWLEDGE_COLLECTIONS) qs.set("collection", KNOWLEDGE_COLLECTIONS);
 
   let acc = "";
   let closed = false;
+  let streamError = null;
+  let usageNote = "";
+  const citations = [];
+  let knowledgeDocs = [];
 
   const controller = new AbortController();
   esRef = { close: () => controller.abort() };
@@ -111,7 +593,7 @@ async function sendMessage() {
   let rafPending = false;
   const renderNow = () => {
     if (marked && DOMPurify) {
-      const html = marked.parse(acc);
+      const html = marked.parse(withFootnotes(acc, citations)) + sourcesHTML(citations) + knowledgeHTML(knowledgeDocs);
       bodyEl.innerHTML = DOMPurify.sanitize(html, { ALLOWED_TAGS: false, ALLOWED_ATTR: false });
     } else {
       bodyEl.textContent = acc;
@@ -130,18 +612,80 @@ async function sendMessage() {
   const HEARTBEAT_MS = 7000;
   const heartbeat = setInterval(() => {
     if (!closed && Date.now() - lastChunkTs > HEARTBEAT_MS) {
-      acc += (acc ? "\n\n" : "") + "（仍在检索与整合，请稍候…）";
-      scheduleRender();
+      setStatus("（仍在检索与整合，请稍候…）");
       lastChunkTs = Date.now();
     }
   }, HEARTBEAT_MS);
 
+  const appendText = (t) => {
+    acc = acc ? acc + t : t;
+    lastChunkTs = Date.now();
+    scheduleRender();
+  };
+
+  // ——v2 事件——
+  const handleEvent = (event, obj) => {
+    lastChunkTs = Date.now();
+    switch (event) {
+      case "text":
+        if (typeof obj.delta === "string") appendText(obj.delta);
+        // 错误与守卫提示保留，其余状态在正文到来时清掉
+        if (statusEl.textContent && !/\b(error|guard)\b/.test(statusEl.className)) setStatus("");
+        break;
+      case "status":
+        setStatus(obj.message);
+        break;
+      case "tool":
+        if (obj.type === "call") setStatus(`🛠 ${obj.name}…`);
+        else setStatus(`${obj.ok ? "✓" : "✗"} ${obj.name} (${obj.duration_ms} ms)`, obj.ok ? "" : "error");
+        break;
+      case "citation":
+        if (typeof obj.url === "string") {
+          citations.push(obj);
+          scheduleRender();
+        }
+        break;
+      case "knowledge":
+        knowledgeDocs = Array.isArray(obj.documents) ? obj.documents : [];
+        break;
+      case "usage":
+        usageNote = `${obj.input_tokens} → ${obj.output_tokens} tokens` +
+          (typeof obj.cost_usd === "number" ? ` · $${obj.cost_usd.toFixed(4)}` : "");
+        break;
+      case "guard": {
+        const verb = { block: "已拦截", redact: "已脱敏", warn: "检测到" }[obj.action] || obj.action;
+        const what = obj.category === "moderation" ? (obj.detail || []).join(", ") || "moderation" : `${obj.count} × ${obj.category}`;
+        setStatus(`🛡 ${obj.stage === "input" ? "输入" : "输出"}${verb}：${what}`, obj.action === "block" ? "error" : "guard");
+        break;
+      }
+      case "error":
+        streamError = obj;
+        // 带上 trace ID，反馈问题时可按它查日志
+        setStatus(`⚠️ ${obj.message}${obj.retryable ? "（可重试）" : ""}${obj.trace_id ? ` · trace ${obj.trace_id}` : ""}`, "error");
+        break;
+      // debug 事件（DEBUG_DUMP / DEBUG_EVENTS）只给 curl 等调试客户端看，UI 忽略
+    }
+  };
+
+  let replyId;
   try {
-    const resp = await fetch(`/api/chat${qs.toString() ? "?" + qs.toString() : ""}`, {
+    // 有服务端会话时只发本条消息（或要重新生成的消息 ID），历史由服务端按 parent_id 拼出路径并写回；
+    // 服务端没有的本地消息（对比模式选出的回答等）：重新生成走 /api/chat，追加时接在服务端的当前分支末端
+    const convId = regenerate
+      ? isServerId(userNode.id) ? conversationId : null
+      : await ensureConversation(userNode);
+    const parentId = userNode.parent_id;
+    const convBody = regenerate
+      ? { parent_id: userNode.id }
+      : { content: userNode.content, ...(parentId === null || isServerId(parentId) ? { parent_id: parentId } : {}) };
+    const endpoint = convId
+      ? `/api/conversations/${encodeURIComponent(convId)}/messages`
+      : "/api/chat";
+    const resp = await apiFetch(`${endpoint}${qs.toString() ? "?" + qs.toString() : ""}`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       signal: controller.signal,
-      body: JSON.stringify({ messages }),
+      body: JSON.stringify(convId ? convBody : { messages }),
     });
 
     // 如果不是 SSE，直接把文本显示出来（错误/说明）
@@ -151,63 +695,88 @@ async function sendMessage() {
       safeClose(errText || "Sorry, upstream error.");
       return;
     }
+    if (convId) {
+      renameNode(userNode, resp.headers.get("x-message-id"));
+      replyId = resp.headers.get("x-reply-id");
+    }
 
-    // SSE 解析
-    const reader = resp.body.getReader();
-    const decoder = new TextDecoder("utf-8");
-    let buffer = "";
-
-    while (true) {
-      const { value, done } = await reader.read();
-      if (done) break;
-      buffer += decoder.decode(value, { stream: true });
+    // 断线续传：服务端给了 x-response-id 时，连接中断后带 Last-Event-ID 重连
+    const responseId = resp.headers.get("x-response-id");
+    let lastEventId = "0";
+    let finished = false;
 
-      const lines = buffer.split("\n");
-      buffer = lines.pop() || "";
+    // SSE 解析；读到结束事件返回 true
+    const readStream = async (body) => {
+      const reader = body.getReader();
+      const decoder = new TextDecoder("utf-8");
+      let buffer = "";
+      let eventName = "";
 
-      for (const raw of lines) {
-        const line = raw.trim();
-        if (!line) continue;
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) return false;
+        buffer += decoder.decode(value, { stream: true });
 
-        if (!line.startsWith("data:")) continue;
-        const data = line.slice(5).trim();
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
 
-        if (data === "[DONE]") {
-          safeClose();
-          break;
-        }
+        for (const raw of lines) {
+          const line = raw.trim();
+          if (!line) {
+            eventName = "";
+            continue;
+          }
 
-        // ——宽松解析：先尝试 JSON；失败则当作纯文本提示——
-        let handled = false;
-        try {
-          const obj = JSON.parse(data);
-          const delta = obj?.choices?.[0]?.delta || {};
-
-          // 正常文本增量
-          if (typeof delta.content === "string") {
-            acc = acc ? acc + delta.content : delta.content;
-            lastChunkTs = Date.now();
-            scheduleRender();
-            handled = true;
+          if (line.startsWith("id:")) {
+            lastEventId = line.slice(3).trim();
+            continue;
           }
-        } catch {
-          // 非 JSON data：有些后端会直接推提示文本，这里也显示
-          if (data && data !== "[DONE]") {
-            acc = acc ? acc + "\n" + data : data;
-            lastChunkTs = Date.now();
-            scheduleRender();
-            handled = true;
+          if (line.startsWith("event:")) {
+            eventName = line.slice(6).trim();
+            continue;
           }
-        }
+          if (!line.startsWith("data:")) continue;
+          const data = line.slice(5).trim();
+
+          if (data === "[DONE]" || eventName === "done") return true;
 
-        // 如果既不是 JSON 文本增量，也不是纯文本，就忽略（可能是心跳等）
-        if (!handled) {
-          // no-op
+          // ——宽松解析：先尝试 JSON；失败则当作纯文本提示——
+          try {
+            const obj = JSON.parse(data);
+            if (eventName) {
+              handleEvent(eventName, obj);
+              continue;
+            }
+            // 旧格式：chat.completion.chunk
+            const delta = obj?.choices?.[0]?.delta || {};
+            if (typeof delta.content === "string") appendText(delta.content);
+          } catch {
+            // 非 JSON data：有些后端会直接推提示文本，这里显示在状态行
+            if (data) setStatus(data);
+          }
         }
       }
+    };
+
+    let body = resp.body;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        finished = await readStream(body);
+        break;
+      } catch (err) {
+        if (!responseId || controller.signal.aborted || attempt >= RESUME_ATTEMPTS) throw err;
+      }
+      setStatus("（连接中断，正在恢复…）");
+      await new Promise((r) => setTimeout(r, 1000 * (attempt + 1)));
+      const r = await apiFetch(`/api/chat/${encodeURIComponent(responseId)}/stream`, {
+        headers: { "Last-Event-ID": lastEventId },
+        signal: controller.signal,
+      }).catch(() => null);
+      if (!r || !r.ok || !r.body) break;
+      body = r.body;
     }
 
-    safeClose();
+    safeClose(finished || acc ? undefined : "Sorry, the connection was interrupted.");
   } catch (err) {
     safeClose("Sorry, there was a connection error.");
   }
@@ -219,27 +788,229 @@ async function sendMessage() {
     clearInterval(heartbeat);
     try { controller.abort(); } catch {}
     typingIndicator.classList.remove("visible");
+    if (!streamError) setStatus(usageNote);
 
     if (acc && acc.trim().length > 0) {
-      chatHistory.push({ role: "assistant", content: acc });
+      const reply = addNode({ id: replyId, role: "assistant", content: acc, citations }, userNode.id);
+      setCurrent(reply.id);
       // 最后一帧补渲染一次
       if (marked && DOMPurify) {
-        const html = marked.parse(acc);
+        const html = marked.parse(withFootnotes(acc, citations)) + sourcesHTML(citations) + knowledgeHTML(knowledgeDocs);
         bodyEl.innerHTML = DOMPurify.sanitize(html, { ALLOWED_TAGS: false, ALLOWED_ATTR: false });
       } else {
         bodyEl.textContent = acc;
       }
-    } else if (errorText) {
-      bodyEl.textContent = errorText;
+      addMessageActions(assistantMessageEl, reply);
+    } else if (errorText || streamError) {
+      bodyEl.textContent = errorText || "Sorry, upstream error.";
+    }
+    addMessageActions(userEl, userNode);
+
+    unlockInput();
+  }
+}
+
+// ——多模型对比：同一问题并行发给多个模型 / 预设（preset:<name>），分列显示，投票选出的回答进入历史——
+const COMPARE_STORAGE = "llm-chat-compare";
+
+function compareTargets() {
+  return (localStorage.getItem(COMPARE_STORAGE) || "").split(",").map((s) => s.trim()).filter(Boolean);
+}
+
+function renderCompareButton() {
+  const targets = compareTargets();
+  compareButton.classList.toggle("active", targets.length >= 2);
+  compareButton.title = targets.length >= 2 ? `Comparing: ${targets.join(", ")}` : "Compare models side by side";
+}
+
+compareButton.addEventListener("click", () => {
+  const value = window.prompt(
+    "Compare 2–4 models or presets, comma-separated (e.g. gpt-4o, gpt-5, preset:concise). Leave empty to turn off:",
+    compareTargets().join(", ")
+  );
+  if (value === null) return;
+  localStorage.setItem(COMPARE_STORAGE, value);
+  renderCompareButton();
+});
+renderCompareButton();
+
+// SSE 读取（具名事件）；对比流不续传
+async function readEvents(body, onEvent) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder("utf-8");
+  let buffer = "";
+  let eventName = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+    for (const raw of lines) {
+      const line = raw.trim();
+      if (!line) eventName = "";
+      else if (line.startsWith("event:")) eventName = line.slice(6).trim();
+      else if (line.startsWith("data:") && eventName) {
+        try {
+          onEvent(eventName, JSON.parse(line.slice(5).trim()));
+        } catch {}
+      }
+    }
+  }
+}
+
+async function sendComparison(userNode, userEl) {
+  const row = document.createElement("div");
+  row.className = "compare-row";
+  chatMessages.appendChild(row);
+  const cols = [];
+  let compareId = null;
+  let compareToken = null;
+  let voted = false;
+
+  const { marked, DOMPurify } = await loadMarkdownDeps().catch(() => ({}));
+  const render = (col) => {
+    col.body.innerHTML = marked && DOMPurify ? DOMPurify.sanitize(marked.parse(col.acc)) : escapeHTML(col.acc);
+    chatMessages.scrollTop = chatMessages.scrollHeight;
+  };
+
+  const vote = async (col) => {
+    if (voted) return;
+    voted = true;
+    for (const c of cols) c.button.disabled = true;
+    col.el.classList.add("winner");
+    // 选中的回答作为本轮 assistant 消息（只在本地，不写入服务端会话）
+    setCurrent(addNode({ role: "assistant", content: col.acc }, userNode.id).id);
+    try {
+      const resp = await apiFetch(`/api/compare/${encodeURIComponent(compareId)}/vote`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...(compareToken ? { "x-compare-token": compareToken } : {}) },
+        body: JSON.stringify({ index: col.index }),
+      });
+      col.button.textContent = resp.ok ? "✓ Voted" : resp.status === 501 ? "✓ Picked (votes not stored)" : "✓ Picked (vote failed)";
+    } catch {
+      col.button.textContent = "✓ Picked (vote failed)";
+    }
+  };
+
+  const onEvent = (event, obj) => {
+    const col = Number.isInteger(obj.index) ? cols[obj.index] : null;
+    switch (event) {
+      case "compare":
+        for (const c of obj.choices || []) {
+          const el = document.createElement("div");
+          el.className = "compare-col";
+          el.innerHTML =
+            `<div class="compare-head">${escapeHTML(c.label)} <small>${escapeHTML(c.model || "")}</small></div>` +
+            `<div class="message-body">…</div><div class="compare-metrics"></div>` +
+            `<button class="vote" type="button" disabled>👍 Best</button>`;
+          row.appendChild(el);
+          const entry = {
+            index: c.index,
+            el,
+            acc: "",
+            body: el.querySelector(".message-body"),
+            metrics: el.querySelector(".compare-metrics"),
+            button: el.querySelector("button.vote"),
+          };
+          entry.button.addEventListener("click", () => vote(entry));
+          cols[c.index] = entry;
+        }
+        break;
+      case "text":
+        if (!col) break;
+        col.acc += obj.delta || "";
+        render(col);
+        break;
+      case "status":
+        if (col) col.metrics.textContent = obj.message;
+        break;
+      case "error":
+        if (col) col.metrics.textContent = `⚠️ ${obj.message}`;
+        break;
+      case "result": {
+        if (!col) break;
+        const tokens = `${obj.input_tokens} → ${obj.output_tokens}${obj.usage_estimated ? "~" : ""} tokens`;
+        const parts = [
+          obj.ttft_ms !== null ? `first token ${obj.ttft_ms} ms` : null,
+          `total ${obj.total_ms} ms`,
+          tokens,
+          typeof obj.cost_usd === "number" ? `$${obj.cost_usd.toFixed(4)}` : null,
+        ];
+        col.metrics.textContent = (obj.error ? `⚠️ ${obj.error.message} · ` : "") + parts.filter(Boolean).join(" · ");
+        col.button.disabled = voted || !col.acc;
+        break;
+      }
     }
+  };
 
-    isProcessing = false;
-    userInput.disabled = false;
-    sendButton.disabled = false;
-    userInput.focus();
+  try {
+    const resp = await apiFetch("/api/compare", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        messages: buildMessages(chatHistory),
+        candidates: compareTargets().map((t) => (t.startsWith("preset:") ? { preset: t.slice(7) } : { model: t })),
+      }),
+    });
+    compareId = resp.headers.get("x-compare-id");
+    compareToken = resp.headers.get("x-compare-token");
+    if (!resp.ok || !resp.body) {
+      const err = await resp.json().catch(() => ({}));
+      row.textContent = `⚠️ ${err.error || `HTTP ${resp.status}`}${err.candidate ? ` (${err.candidate})` : ""}`;
+    } else {
+      await readEvents(resp.body, onEvent);
+    }
+  } catch {
+    row.appendChild(document.createTextNode("Sorry, there was a connection error."));
+  } finally {
+    addMessageActions(userEl, userNode);
+    unlockInput();
   }
 }
 
+// ——引用：在被引用片段后插入脚注编号；片段本身就是指向同一来源的 markdown 链接时直接替换——
+function withFootnotes(text, cites) {
+  if (!cites || !cites.length) return text;
+  const spans = cites
+    .filter((c) => Number.isInteger(c.end_index) && c.end_index <= text.length)
+    .sort((a, b) => b.end_index - a.end_index);
+  let out = text;
+  let lastEnd = Infinity;
+  for (const c of spans) {
+    if (c.end_index > lastEnd) continue; // 重叠片段只标一次
+    const start = Number.isInteger(c.start_index) ? c.start_index : c.end_index;
+    const mark = `<sup class="cite">[[${c.number}]](${c.url})</sup>`;
+    const span = out.slice(start, c.end_index);
+    const isLink = /^\(?\[[^\]]*\]\([^)]*\)\)?$/.test(span.trim()) && span.includes(c.url);
+    out = isLink
+      ? out.slice(0, start) + mark + out.slice(c.end_index)
+      : out.slice(0, c.end_index) + mark + out.slice(c.end_index);
+    lastEnd = start;
+  }
+  return out;
+}
+
+function sourcesHTML(cites) {
+  if (!cites || !cites.length) return "";
+  const seen = new Map();
+  for (const c of cites) if (!seen.has(c.number)) seen.set(c.number, c);
+  const items = [...seen.values()]
+    .sort((a, b) => a.number - b.number)
+    .map((c) => `<li value="${c.number}"><a href="${escapeHTML(c.url)}" rel="noopener">${escapeHTML(c.title || c.url)}</a></li>`)
+    .join("");
+  return `<ol class="sources">${items}</ol>`;
+}
+
+// 知识库：本次回答检索到的文档
+function knowledgeHTML(docs) {
+  if (!docs || !docs.length) return "";
+  const items = docs
+    .map((d) => `<span title="${escapeHTML(`${d.collection}/${d.id} · ${d.score.toFixed(2)}`)}">${escapeHTML(d.title)}</span>`)
+    .join(" · ");
+  return `<div class="knowledge">📚 ${items}</div>`;
+}
+
 function buildMessages(history) {
   const msgs = [];
   for (const m of history) {
@@ -251,13 +1022,45 @@ function buildMessages(history) {
 function addMessageToChat(role, content, opts = { renderMarkdown: false }) {
   const messageEl = document.createElement("div");
   messageEl.className = `message ${role}-message`;
-  if (!opts.renderMarkdown) {
+  if (Array.isArray(content)) {
+    // 多模态：文本 + 附件缩略图 / 文件名
+    const text = content.filter((p) => p.type === "input_text").map((p) => p.text).join("\n");
+    messageEl.innerHTML = `<div class="message-body">${escapeHTML(text)}<div class="attachments"></div></div>`;
+    renderAttachmentPreviews(messageEl.querySelector(".attachments"), content, opts.previews || []);
+  } else if (!opts.renderMarkdown) {
     messageEl.innerHTML = `<div class="message-body">${escapeHTML(content)}</div>`;
   } else {
     messageEl.innerHTML = `<div class="message-body">${content}</div>`;
   }
   chatMessages.appendChild(messageEl);
   chatMessages.scrollTop = chatMessages.scrollHeight;
+  return messageEl;
+}
+
+// 本地刚上传的用 object URL；恢复的会话从 /api/attachments 拉取（需带 API key，不能直接用 img src）
+function renderAttachmentPreviews(container, parts, previews) {
+  for (const p of parts) {
+    if (p.type === "input_text") continue;
+    const local = previews.find((a) => a.id === p.attachment_id);
+    if (p.type === "input_image") {
+      const img = document.createElement("img");
+      img.alt = "";
+      container.appendChild(img);
+      if (local?.previewUrl) img.src = local.previewUrl;
+      else if (p.image_url) img.src = p.image_url;
+      else if (p.attachment_id) {
+        apiFetch(`/api/attachments/${p.attachment_id}`)
+          .then((r) => (r.ok ? r.blob() : null))
+          .then((b) => { if (b) img.src = URL.createObjectURL(b); })
+          .catch(() => {});
+      }
+    } else {
+      const chip = document.createElement("span");
+      chip.className = "file-chip";
+      chip.textContent = `📄 ${p.filename || local?.name || "file"}`;
+      container.appendChild(chip);
+    }
+  }
 }
 
 function escapeHTML(str) {
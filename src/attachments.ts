@@ -0,0 +1,282 @@
+/**
+ * 附件（多模态输入）：上传到 R2，消息里按 ID 引用
+ * - POST   /api/attachments        multipart 表单字段 file，或原始 body + Content-Type（?filename=）
+ * - GET    /api/attachments/:id    下载（仅上传者 / admin）
+ * - DELETE /api/attachments/:id
+ * - 类型白名单 + 魔数校验；单个大小上限 ATTACHMENT_MAX_BYTES（默认 10 MiB）
+ * - 发给上游前 resolveAttachments 把 attachment_id 换成 data URL；文本文件直接内联为 input_text
+ */
+
+import type { Principal } from "./auth";
+import { type GuardEvent, type GuardPolicy, blockedResponse, guardInput } from "./guard";
+import { json } from "./sse";
+import type { ChatMessage, ContentPart, Env } from "./types";
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const MAX_ATTACHMENTS_PER_REQUEST = 10;
+const MAX_TEXT_FILE_CHARS = 100_000;
+const ANONYMOUS = "anonymous";
+
+// MIME → 魔数校验（文本类型不校验魔数，但不允许 NUL 字节）
+const ALLOWED_TYPES: Record<string, ((b: Uint8Array) => boolean) | null> = {
+  "image/png": (b) => b[0] === 0x89 && b[1] === 0x50 && b[2] === 0x4e && b[3] === 0x47,
+  "image/jpeg": (b) => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff,
+  "image/gif": (b) => ascii(b, 0, 4) === "GIF8",
+  "image/webp": (b) => ascii(b, 0, 4) === "RIFF" && ascii(b, 8, 12) === "WEBP",
+  "application/pdf": (b) => ascii(b, 0, 5) === "%PDF-",
+  "text/plain": null,
+  "text/markdown": null,
+  "text/csv": null,
+};
+
+const ascii = (b: Uint8Array, from: number, to: number) => String.fromCharCode(...b.subarray(from, to));
+
+/** 上传结果 / 附件元数据 */
+export interface AttachmentInfo {
+  id: string;
+  filename: string;
+  mime_type: string;
+  size: number;
+  created_at: number;
+}
+
+export function maxAttachmentBytes(env: Env): number {
+  const n = Number(env.ATTACHMENT_MAX_BYTES);
+  return n > 0 ? n : DEFAULT_MAX_BYTES;
+}
+
+const objectKey = (id: string) => `att/${id}`;
+const isAttachmentId = (id: unknown): id is string => typeof id === "string" && /^att_[0-9a-f]{32}$/.test(id);
+
+/* ---------------- 消息内容 ---------------- */
+
+/** 内容的纯文本视图（估算 token / 标题 / 摘要 / 不支持多模态的上游用） */
+export function contentText(content: ChatMessage["content"]): string {
+  if (typeof content === "string") return content;
+  return content
+    .map((p) =>
+      p.type === "input_text" ? p.text : p.type === "input_image" ? "[image]" : `[file: ${p.filename || "attachment"}]`
+    )
+    .join("\n");
+}
+
+function isContentPart(p: any): p is ContentPart {
+  switch (p?.type) {
+    case "input_text":
+      return typeof p.text === "string";
+    case "input_image":
+      return (
+        (isAttachmentId(p.attachment_id) || (typeof p.image_url === "string" && /^https:\/\//.test(p.image_url))) &&
+        (p.detail === undefined || ["low", "high", "auto"].includes(p.detail))
+      );
+    case "input_file":
+      return isAttachmentId(p.attachment_id);
+    default:
+      return false;
+  }
+}
+
+/** 校验并规范化一条消息；不合法时返回 null */
+export function parseMessage(m: any, maxChars = Infinity): ChatMessage | null {
+  if (!m || (m.role !== "system" && m.role !== "user" && m.role !== "assistant")) return null;
+  if (typeof m.content === "string") {
+    return m.content.length <= maxChars ? { role: m.role, content: m.content } : null;
+  }
+  if (m.role !== "user" || !Array.isArray(m.content) || !m.content.length) return null;
+  if (!m.content.every(isContentPart)) return null;
+  if (contentText(m.content).length > maxChars) return null;
+  // 只保留已知字段（file_data 等由服务端填充）
+  const parts: ContentPart[] = m.content.map((p: any) =>
+    p.type === "input_text"
+      ? { type: "input_text", text: p.text }
+      : p.type === "input_image"
+      ? {
+          type: "input_image",
+          ...(p.attachment_id ? { attachment_id: p.attachment_id } : { image_url: p.image_url }),
+          ...(p.detail ? { detail: p.detail } : {}),
+        }
+      : {
+          type: "input_file",
+          attachment_id: p.attachment_id,
+          ...(typeof p.filename === "string" ? { filename: p.filename.slice(0, 200) } : {}),
+        }
+  );
+  return { role: "user", content: parts };
+}
+
+function base64(bytes: Uint8Array): string {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(bin);
+}
+
+function canRead(obj: R2Object, principal: Principal | null) {
+  const owner = obj.customMetadata?.owner ?? ANONYMOUS;
+  return !principal || principal.admin || owner === principal.id;
+}
+
+/**
+ * 把 attachment_id 解析为上游可用的内容：图片 → data URL，PDF → file_data，文本 → input_text。
+ * 附件不存在/无权访问时返回 400 Response。
+ * 带 guard 时内联的文本文件也过输入守卫（脱敏 / moderation）：事件追加到 guard.events，block 时返回 400
+ */
+export async function resolveAttachments(
+  env: Env,
+  messages: ChatMessage[],
+  principal: Principal | null,
+  guard?: { policy: GuardPolicy | null; events: GuardEvent[] }
+): Promise<ChatMessage[] | Response> {
+  const refs = messages.flatMap((m) =>
+    typeof m.content === "string" ? [] : m.content.filter((p) => "attachment_id" in p && p.attachment_id)
+  );
+  if (!refs.length) return messages;
+  if (!env.ATTACHMENTS) return json({ error: "Attachments are not configured" }, 501);
+  if (refs.length > MAX_ATTACHMENTS_PER_REQUEST) {
+    return json({ error: `At most ${MAX_ATTACHMENTS_PER_REQUEST} attachments per request` }, 400);
+  }
+
+  const resolved = new Map<string, ContentPart>();
+  for (const part of refs) {
+    const id = (part as { attachment_id: string }).attachment_id;
+    if (resolved.has(id)) continue;
+    const obj = await env.ATTACHMENTS.get(objectKey(id));
+    if (!obj || !canRead(obj, principal)) return json({ error: "Attachment not found", id }, 400);
+
+    const mime = obj.httpMetadata?.contentType || "application/octet-stream";
+    const filename = obj.customMetadata?.filename || id;
+    const bytes = new Uint8Array(await obj.arrayBuffer());
+    if (mime.startsWith("text/")) {
+      const text = new TextDecoder().decode(bytes).slice(0, MAX_TEXT_FILE_CHARS);
+      let part: ContentPart = { type: "input_text", text: `File: ${filename}\n\`\`\`\n${text}\n\`\`\`` };
+      if (guard?.policy) {
+        const g = await guardInput(env, guard.policy, [{ role: "user", content: [part] }]);
+        guard.events.push(...g.events);
+        if (g.blocked) return blockedResponse(guard.events);
+        part = (g.messages[0].content as ContentPart[])[0];
+      }
+      resolved.set(id, part);
+    } else if (mime.startsWith("image/")) {
+      resolved.set(id, { type: "input_image", image_url: `data:${mime};base64,${base64(bytes)}` });
+    } else {
+      resolved.set(id, { type: "input_file", filename, file_data: `data:${mime};base64,${base64(bytes)}` });
+    }
+  }
+
+  return messages.map((m) =>
+    typeof m.content === "string"
+      ? m
+      : {
+          ...m,
+          content: m.content.map((p) => {
+            if (!("attachment_id" in p) || !p.attachment_id) return p;
+            const r = resolved.get(p.attachment_id)!;
+            return p.type === "input_image" && r.type === "input_image" && p.detail ? { ...r, detail: p.detail } : r;
+          }),
+        }
+  );
+}
+
+/* ---------------- /api/attachments ---------------- */
+
+async function readUpload(request: Request, url: URL): Promise<{ bytes: Uint8Array; mime: string; filename: string }> {
+  const type = request.headers.get("content-type") || "";
+  if (/^multipart\/form-data/i.test(type)) {
+    const form = await request.formData();
+    const file = form.get("file");
+    if (!file || typeof file === "string") throw new Error("Missing 'file' field");
+    return {
+      bytes: new Uint8Array(await file.arrayBuffer()),
+      mime: file.type,
+      filename: file.name || "upload",
+    };
+  }
+  return {
+    bytes: new Uint8Array(await request.arrayBuffer()),
+    mime: type,
+    filename: url.searchParams.get("filename") || "upload",
+  };
+}
+
+function info(id: string, obj: R2Object): AttachmentInfo {
+  return {
+    id,
+    filename: obj.customMetadata?.filename || id,
+    mime_type: obj.httpMetadata?.contentType || "application/octet-stream",
+    size: obj.size,
+    created_at: obj.uploaded.getTime(),
+  };
+}
+
+/** 处理 /api/attachments/*；路径不匹配时返回 null */
+export async function handleAttachments(
+  request: Request,
+  env: Env,
+  url: URL,
+  principal: Principal | null
+): Promise<Response | null> {
+  const m = url.pathname.match(/^\/api\/attachments(?:\/([^/]+))?\/?$/);
+  if (!m) return null;
+  if (!env.ATTACHMENTS) return json({ error: "Attachments are not configured" }, 501);
+  const [, id] = m;
+  const max = maxAttachmentBytes(env);
+
+  // 上传
+  if (!id) {
+    if (request.method !== "POST") return json({ error: "Method not allowed" }, 405);
+    // 先按 Content-Length 粗拒（multipart 有少量额外开销）
+    if (Number(request.headers.get("content-length")) > max + 64 * 1024) {
+      return json({ error: "File too large", max_bytes: max }, 413);
+    }
+
+    let upload;
+    try {
+      upload = await readUpload(request, url);
+    } catch (e) {
+      return json({ error: "Invalid upload", detail: String(e) }, 400);
+    }
+    const mime = upload.mime.split(";")[0].trim().toLowerCase();
+    if (!(mime in ALLOWED_TYPES)) {
+      return json({ error: "Unsupported file type", mime_type: mime || null, supported: Object.keys(ALLOWED_TYPES) }, 415);
+    }
+    if (!upload.bytes.length) return json({ error: "Empty file" }, 400);
+    if (upload.bytes.length > max) return json({ error: "File too large", max_bytes: max }, 413);
+    const sniff = ALLOWED_TYPES[mime];
+    if (sniff ? !sniff(upload.bytes) : upload.bytes.includes(0)) {
+      return json({ error: "File content does not match its type", mime_type: mime }, 415);
+    }
+
+    const newId = `att_${crypto.randomUUID().replace(/-/g, "")}`;
+    const filename = upload.filename.replace(/[\r\n"]/g, "").slice(0, 200);
+    const obj = await env.ATTACHMENTS.put(objectKey(newId), upload.bytes, {
+      httpMetadata: { contentType: mime },
+      customMetadata: { filename, owner: principal?.id ?? ANONYMOUS },
+    });
+    return json(info(newId, obj), 201);
+  }
+
+  if (!isAttachmentId(id)) return json({ error: "Attachment not found" }, 404);
+
+  if (request.method === "GET") {
+    const obj = await env.ATTACHMENTS.get(objectKey(id));
+    if (!obj || !canRead(obj, principal)) return json({ error: "Attachment not found" }, 404);
+    const meta = info(id, obj);
+    return new Response(obj.body, {
+      headers: {
+        "content-type": meta.mime_type,
+        "content-length": String(meta.size),
+        "content-disposition": `inline; filename*=UTF-8''${encodeURIComponent(meta.filename)}`,
+        "cache-control": "private, max-age=3600",
+        "x-content-type-options": "nosniff",
+      },
+    });
+  }
+  if (request.method === "DELETE") {
+    const obj = await env.ATTACHMENTS.head(objectKey(id));
+    if (!obj || !canRead(obj, principal)) return json({ error: "Attachment not found" }, 404);
+    await env.ATTACHMENTS.delete(objectKey(id));
+    return json({ deleted: true, id });
+  }
+  return json({ error: "Method not allowed" }, 405);
+}
@@ -0,0 +1,193 @@
+/**
+ * 访问控制：API key 鉴权 + 配额/限流 + CORS
+ * - 绑定了 API_KEYS（KV）时 /api/* 与 /v1/* 都要求 Authorization: Bearer <key>
+ * - KV 中按 key 的 SHA-256 存记录：key:<hex> → ApiKeyRecord（不存明文 key）
+ * - 绑定了 RATE_LIMITER（DO）时按 key 做滑动窗口限流；tokens 在请求结束后累加
+ * - CORS_ORIGINS：逗号分隔的允许来源；不设时保持 "*"
+ */
+
+import type { TokenUsage } from "./providers";
+import type { KeyLimits } from "./ratelimit";
+import type { Env } from "./types";
+
+const KEY_CACHE_MS = 60_000;
+
+/** KV 中的 key 记录 */
+export interface ApiKeyRecord extends KeyLimits {
+  name: string;
+  disabled?: boolean;
+  /** 可访问 /api/admin/* */
+  admin?: boolean;
+}
+
+/** 已通过鉴权的调用方 */
+export interface Principal extends ApiKeyRecord {
+  /** key 哈希的前 16 位，用作限流/统计的标识 */
+  id: string;
+}
+
+// isolate 内缓存，减少 KV 读取；null 表示 key 不存在
+const keyCache = new Map<string, { record: ApiKeyRecord | null; expires: number }>();
+
+export function authEnabled(env: Env): boolean {
+  return !!env.API_KEYS;
+}
+
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function bearer(request: Request): string | null {
+  const h = request.headers.get("authorization") || "";
+  const m = h.match(/^Bearer\s+(.+)$/i);
+  return m ? m[1].trim() : null;
+}
+
+async function lookupKey(env: Env, hash: string): Promise<ApiKeyRecord | null> {
+  const now = Date.now();
+  const hit = keyCache.get(hash);
+  if (hit && hit.expires > now) return hit.record;
+  const record = await env.API_KEYS!.get<ApiKeyRecord>(`key:${hash}`, "json");
+  keyCache.set(hash, { record, expires: now + KEY_CACHE_MS });
+  return record;
+}
+
+/** /v1/* 用 OpenAI 风格错误体，其余沿用 { error } */
+function authError(
+  url: URL,
+  status: number,
+  code: string,
+  message: string,
+  headers: Record<string, string> = {}
+) {
+  const body = url.pathname.startsWith("/v1/")
+    ? { error: { message, type: code, param: null, code } }
+    : { error: message, code };
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json", ...headers },
+  });
+}
+
+/**
+ * 鉴权 + 限流。
+ * 返回 Principal（通过）、null（未启用鉴权）或 401/403/429 Response。
+ */
+export async function authorize(request: Request, env: Env, url: URL): Promise<Principal | null | Response> {
+  if (!authEnabled(env)) return null;
+
+  const token = bearer(request);
+  if (!token) {
+    return authError(url, 401, "unauthorized", "Missing API key", { "WWW-Authenticate": "Bearer" });
+  }
+  return admit(env, url, await sha256Hex(token));
+}
+
+/**
+ * 后台任务（批量任务的每一行）按提交时的 key 重新鉴权：key 删除 / 停用后返回 401/403，
+ * 每次调用计一次请求，超限时 429。未启用鉴权时返回 null
+ */
+export async function reauthorize(env: Env, hash: string | null, url: URL): Promise<Principal | null | Response> {
+  if (!authEnabled(env)) return null;
+  if (!hash) return authError(url, 401, "unauthorized", "Missing API key");
+  return admit(env, url, hash);
+}
+
+/** 请求所带 key 的哈希（KV 记录名），供 reauthorize 使用；没有 Bearer 时为 null */
+export async function keyHash(request: Request): Promise<string | null> {
+  const token = bearer(request);
+  return token ? sha256Hex(token) : null;
+}
+
+/** 按 key 哈希查记录、检查停用并限流 */
+async function admit(env: Env, url: URL, hash: string): Promise<Principal | Response> {
+  const record = await lookupKey(env, hash);
+  if (!record) {
+    return authError(url, 401, "unauthorized", "Invalid API key", { "WWW-Authenticate": "Bearer" });
+  }
+  if (record.disabled) return authError(url, 403, "forbidden", "API key is disabled");
+
+  const principal: Principal = { ...record, id: hash.slice(0, 16) };
+
+  if (env.RATE_LIMITER && hasLimits(principal, env)) {
+    const limiter = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(principal.id));
+    const res = await limiter.hit(limitsFor(principal, env));
+    if (!res.ok) {
+      return authError(url, 429, "rate_limited", `Rate limit exceeded: ${res.limit} (${res.max})`, {
+        "Retry-After": String(res.retry_after),
+      });
+    }
+  }
+  return principal;
+}
+
+/**
+ * /api/admin/* 与 /api/metrics 的权限：启用鉴权时要求 admin key；
+ * 未绑定 API_KEYS 时要求 Bearer ADMIN_TOKEN。两者都没配置则一律拒绝，管理接口不随默认配置开放
+ */
+export async function isAdmin(request: Request, env: Env, principal: Principal | null): Promise<boolean> {
+  if (authEnabled(env)) return !!principal?.admin;
+  const token = bearer(request);
+  if (!env.ADMIN_TOKEN || !token) return false;
+  // 比较哈希而不是原文，避免按前缀长度泄露时序
+  return (await sha256Hex(token)) === (await sha256Hex(env.ADMIN_TOKEN));
+}
+
+/** key 记录优先，其次 env 默认值 */
+function limitsFor(p: Principal, env: Env): KeyLimits {
+  const num = (v?: string) => (Number(v) > 0 ? Number(v) : undefined);
+  return {
+    requests_per_minute: p.requests_per_minute ?? num(env.RATE_LIMIT_RPM),
+    requests_per_day: p.requests_per_day ?? num(env.RATE_LIMIT_RPD),
+    tokens_per_day: p.tokens_per_day ?? num(env.RATE_LIMIT_TPD),
+  };
+}
+
+function hasLimits(p: Principal, env: Env) {
+  return Object.values(limitsFor(p, env)).some((v) => v !== undefined);
+}
+
+/** 请求结束后累加 token 用量（tokens_per_day） */
+export async function recordTokens(env: Env, principal: Principal | null, usage: TokenUsage) {
+  if (!principal || !env.RATE_LIMITER || !limitsFor(principal, env).tokens_per_day) return;
+  const limiter = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(principal.id));
+  await limiter.addTokens(usage.input_tokens + usage.output_tokens);
+}
+
+/* ---------------- CORS ---------------- */
+
+function allowedOrigin(request: Request, env: Env): string | null {
+  const conf = (env.CORS_ORIGINS || "*").trim();
+  if (conf === "*") return "*";
+  const origin = request.headers.get("origin");
+  if (!origin) return null;
+  const list = conf.split(",").map((s) => s.trim()).filter(Boolean);
+  return list.includes(origin) ? origin : null;
+}
+
+/** 预检：来源不在白名单时 403 */
+export function preflight(request: Request, env: Env): Response {
+  const origin = allowedOrigin(request, env);
+  if (!origin) return new Response(null, { status: 403 });
+  return new Response(null, {
+    headers: {
+      "Access-Control-Allow-Origin": origin,
+      "Access-Control-Allow-Headers": "content-type, authorization, last-event-id, x-trace-id, x-compare-token",
+      "Access-Control-Allow-Methods": "GET, POST, PATCH, DELETE, OPTIONS",
+      "Access-Control-Max-Age": "86400",
+      Vary: "Origin",
+    },
+  });
+}
+
+/** 按配置改写响应的 Access-Control-Allow-Origin */
+export function withCors(res: Response, request: Request, env: Env): Response {
+  const origin = allowedOrigin(request, env);
+  const out = new Response(res.body, res);
+  if (origin) out.headers.set("Access-Control-Allow-Origin", origin);
+  else out.headers.delete("Access-Control-Allow-Origin");
+  if (origin !== "*") out.headers.append("Vary", "Origin");
+  out.headers.set("Access-Control-Expose-Headers", "Retry-After, x-conversation-id, x-cache, x-cache-key, x-response-id, x-compare-id, x-compare-token, x-message-id, x-reply-id, x-trace-id");
+  return out;
+}
@@ -0,0 +1,535 @@
+/**
+ * 批量任务：提交一批请求（JSONL），由 Queue 消费者在后台逐条生成；每个任务一个 Durable Object（BatchJob）记录状态与结果
+ * - POST /api/batches                 body 为 JSONL，每行一个 /api/chat 请求体（messages 必填）+ 可选 custom_id；
+ *   query 参数（?model= / ?preset= / ?collection= 等）作用于每一行，行内字段优先。返回 202 与任务状态
+ * - GET  /api/batches/:id             状态（queued / running / completed / cancelled）、各状态计数、累计用量
+ * - GET  /api/batches/:id/results     结果 JSONL（按行号；已完成的行，含每行的错误与用量）
+ * - POST /api/batches/:id/cancel      取消：尚未开始的行不再生成
+ * 消费者：一次投递内最多 BATCH_CONCURRENCY 条并发；限流 / 5xx / 超时延迟重投，最多 BATCH_MAX_ATTEMPTS 次后记为失败。
+ * 单条不受 REQUEST_TIMEOUT_MS 限制，超时为 BATCH_ITEM_TIMEOUT_MS。领取一行时记租约，重复 / 重投的消息在租约内不会再生成。
+ * 结束（完成 / 取消）后保留 7 天
+ */
+
+import { DurableObject } from "cloudflare:workers";
+import { parseMessage, resolveAttachments } from "./attachments";
+import { type Principal, keyHash, reauthorize, recordTokens } from "./auth";
+import { complete, describeError, prepareChat, systemPrompt } from "./chat";
+import { blockedResponse, guardInput, loadGuard } from "./guard";
+import { knowledgeQuery } from "./knowledge";
+import { resolvePreset } from "./presets";
+import { json, te } from "./sse";
+import { type StructuredResult, parseStructured } from "./structured";
+import { Trace } from "./trace";
+import type { ChatMessage, Env } from "./types";
+import { type UsageRecord, recordUsage } from "./usage";
+
+const DEFAULT_MAX_ITEMS = 1000;
+const MAX_BODY_CHARS = 20_000_000;
+const MAX_LINE_CHARS = 500_000;
+const MAX_CUSTOM_ID = 128;
+const DEFAULT_CONCURRENCY = 4;
+const MAX_CONCURRENCY = 16;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_ITEM_TIMEOUT_MS = 120_000;
+// sendBatch 单次最多 100 条；storage.put 单次最多 128 个 key
+const ENQUEUE_CHUNK = 100;
+const PUT_CHUNK = 128;
+const RESULTS_PAGE = 200;
+const RETENTION_MS = 7 * 24 * 3600 * 1000;
+// 领取租约 = 单条超时 + 余量（预设、附件、知识库等准备工作）；消费者中途退出时租约过期后才能由重投接手
+const CLAIM_MARGIN_MS = 60_000;
+
+export type BatchState = "queued" | "running" | "completed" | "cancelled";
+
+/** 队列消息：一行一条 */
+export interface BatchMessage {
+  batch_id: string;
+  line: number;
+}
+
+/** 提交的一行；line 为在 JSONL 中的行号（从 1 开始），body 为去掉 custom_id 的请求体（JSON 文本） */
+interface BatchItem {
+  line: number;
+  custom_id: string | null;
+  body: string;
+}
+
+export interface BatchError {
+  code: string;
+  message: string;
+  /** 上游或校验失败时的 HTTP 状态 */
+  status?: number;
+}
+
+/** 结果 JSONL 的一行 */
+export interface BatchResult {
+  line: number;
+  custom_id: string | null;
+  status: "succeeded" | "failed";
+  response?: {
+    text: string;
+    finish_reason: string;
+    model: string | null;
+    structured?: StructuredResult;
+  };
+  error?: BatchError;
+  usage?: UsageRecord;
+  attempts: number;
+  completed_at: number;
+  /** 最后一次尝试的 trace ID（对应日志见 trace.ts） */
+  trace_id?: string;
+}
+
+interface BatchMeta {
+  id: string;
+  status: BatchState;
+  created_at: number;
+  started_at: number | null;
+  finished_at: number | null;
+  /** 提交时的 query（含 ?），每行按它组装请求 */
+  query: string;
+  owner: string | null;
+  /** 提交所用 key 的哈希；每行生成前按它重新鉴权与限流，结果用于附件权限与用量记账 */
+  key_hash: string | null;
+  total: number;
+  succeeded: number;
+  failed: number;
+  usage: { input_tokens: number; output_tokens: number; cost_usd: number };
+}
+
+/** GET /api/batches/:id 的返回 */
+export interface BatchStatus {
+  id: string;
+  status: BatchState;
+  created_at: number;
+  started_at: number | null;
+  finished_at: number | null;
+  counts: { total: number; succeeded: number; failed: number; pending: number };
+  usage: BatchMeta["usage"];
+}
+
+const itemKey = (line: number) => `item:${String(line).padStart(7, "0")}`;
+const resultKey = (line: number) => `result:${String(line).padStart(7, "0")}`;
+const claimKey = (line: number) => `claim:${String(line).padStart(7, "0")}`;
+
+/** 正在生成某行的那次尝试；token 为该次尝试的 trace ID */
+interface Claim {
+  token: string;
+  until: number;
+}
+
+function view(meta: BatchMeta): BatchStatus {
+  const { id, status, created_at, started_at, finished_at, total, succeeded, failed, usage } = meta;
+  return {
+    id,
+    status,
+    created_at,
+    started_at,
+    finished_at,
+    counts: { total, succeeded, failed, pending: total - succeeded - failed },
+    usage,
+  };
+}
+
+export class BatchJob extends DurableObject<Env> {
+  async create(init: {
+    id: string;
+    query: string;
+    owner: string | null;
+    key_hash: string | null;
+    items: BatchItem[];
+  }): Promise<BatchStatus> {
+    const meta: BatchMeta = {
+      id: init.id,
+      status: "queued",
+      created_at: Date.now(),
+      started_at: null,
+      finished_at: null,
+      query: init.query,
+      owner: init.owner,
+      key_hash: init.key_hash,
+      total: init.items.length,
+      succeeded: 0,
+      failed: 0,
+      usage: { input_tokens: 0, output_tokens: 0, cost_usd: 0 },
+    };
+    for (let i = 0; i < init.items.length; i += PUT_CHUNK) {
+      const entries: Record<string, BatchItem> = {};
+      for (const item of init.items.slice(i, i + PUT_CHUNK)) entries[itemKey(item.line)] = item;
+      await this.ctx.storage.put(entries);
+    }
+    await this.ctx.storage.put("meta", meta);
+    return view(meta);
+  }
+
+  /** owner 供 Worker 做权限检查 */
+  async status(): Promise<(BatchStatus & { owner: string | null }) | null> {
+    const meta = await this.ctx.storage.get<BatchMeta>("meta");
+    return meta ? { ...view(meta), owner: meta.owner } : null;
+  }
+
+  /**
+   * 领取一行并记下租约；已取消或该行已有结果时返回 null。
+   * 另一次投递（重复消息或重投）持有未过期的租约时返回 { busy: 剩余秒数 }，避免同一行生成并计费两次
+   */
+  async claim(
+    line: number,
+    token: string,
+    leaseMs: number
+  ): Promise<{ item: BatchItem; query: string; key_hash: string | null } | { busy: number } | null> {
+    const meta = await this.ctx.storage.get<BatchMeta>("meta");
+    if (!meta || meta.status === "cancelled" || meta.status === "completed") return null;
+    if ((await this.ctx.storage.get(resultKey(line))) !== undefined) return null;
+    const item = await this.ctx.storage.get<BatchItem>(itemKey(line));
+    if (!item) return null;
+    const now = Date.now();
+    const held = await this.ctx.storage.get<Claim>(claimKey(line));
+    if (held && held.token !== token && held.until > now) return { busy: Math.ceil((held.until - now) / 1000) };
+    if (meta.status === "queued") {
+      meta.status = "running";
+      meta.started_at = now;
+    }
+    await this.ctx.storage.put({ [claimKey(line)]: { token, until: now + leaseMs } satisfies Claim, meta });
+    return { item, query: meta.query, key_hash: meta.key_hash };
+  }
+
+  /** 放弃领取（本次尝试延迟重投）；只释放自己持有的租约 */
+  async release(line: number, token: string): Promise<void> {
+    const held = await this.ctx.storage.get<Claim>(claimKey(line));
+    if (held?.token === token) await this.ctx.storage.delete(claimKey(line));
+  }
+
+  /** 写入一行的结果并更新计数；最后一行完成时任务结束 */
+  async finish(result: BatchResult): Promise<void> {
+    const meta = await this.ctx.storage.get<BatchMeta>("meta");
+    if (!meta || (await this.ctx.storage.get(resultKey(result.line))) !== undefined) return;
+    if (result.status === "succeeded") meta.succeeded++;
+    else meta.failed++;
+    if (result.usage) {
+      meta.usage.input_tokens += result.usage.input_tokens;
+      meta.usage.output_tokens += result.usage.output_tokens;
+      meta.usage.cost_usd += result.usage.cost_usd ?? 0;
+    }
+    if (meta.succeeded + meta.failed === meta.total && meta.status !== "cancelled") {
+      meta.status = "completed";
+      meta.finished_at = Date.now();
+      await this.ctx.storage.setAlarm(meta.finished_at + RETENTION_MS);
+    }
+    await this.ctx.storage.put({ [resultKey(result.line)]: result, meta });
+    await this.ctx.storage.delete(claimKey(result.line));
+  }
+
+  async cancel(): Promise<BatchStatus | null> {
+    const meta = await this.ctx.storage.get<BatchMeta>("meta");
+    if (!meta) return null;
+    if (meta.status === "queued" || meta.status === "running") {
+      meta.status = "cancelled";
+      meta.finished_at = Date.now();
+      await this.ctx.storage.put("meta", meta);
+      await this.ctx.storage.setAlarm(meta.finished_at + RETENTION_MS);
+    }
+    return view(meta);
+  }
+
+  /** 行号大于 after 的结果（JSONL 文本），按行号升序；last 为本页最后一行的行号 */
+  async results(after: number, limit: number): Promise<{ jsonl: string; last: number } | null> {
+    const page = [...(await this.ctx.storage.list<BatchResult>({ prefix: "result:", startAfter: resultKey(after), limit })).values()];
+    if (!page.length) return null;
+    return { jsonl: page.map((r) => JSON.stringify(r) + "\n").join(""), last: page[page.length - 1].line };
+  }
+
+  // 保留期满后清空
+  async alarm() {
+    await this.ctx.storage.deleteAll();
+  }
+}
+
+function stubFor(env: Env, id: string) {
+  try {
+    return env.BATCHES!.get(env.BATCHES!.idFromString(id));
+  } catch {
+    // 非法 id（不是 newUniqueId 生成的）
+    return null;
+  }
+}
+
+function positiveInt(v: string | undefined, fallback: number, max = Infinity) {
+  const n = Number(v);
+  return Number.isInteger(n) && n > 0 ? Math.min(n, max) : fallback;
+}
+
+const maxAttempts = (env: Env) => positiveInt(env.BATCH_MAX_ATTEMPTS, DEFAULT_MAX_ATTEMPTS, 10);
+// 指数退避（10s、20s、40s…，最长 5 分钟）
+const backoff = (attempt: number) => Math.min(300, 10 * 2 ** (attempt - 1));
+const itemTimeout = (env: Env) => positiveInt(env.BATCH_ITEM_TIMEOUT_MS, DEFAULT_ITEM_TIMEOUT_MS);
+
+/** 校验一行，返回 BatchItem 或错误信息；生成相关的检查（预设、上游等）留到消费时，失败记在该行结果里 */
+function parseItem(raw: string, line: number): BatchItem | string {
+  if (raw.length > MAX_LINE_CHARS) return `Line is longer than ${MAX_LINE_CHARS} characters`;
+  let body: any;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    return "Invalid JSON";
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) return "Each line must be a JSON object";
+  const customId = body.custom_id ?? null;
+  if (customId !== null && (typeof customId !== "string" || !customId || customId.length > MAX_CUSTOM_ID)) {
+    return `'custom_id' must be a string of at most ${MAX_CUSTOM_ID} characters`;
+  }
+  if (!Array.isArray(body.messages) || !body.messages.length) return "'messages' must be a non-empty array";
+  if (body.messages.some((m: any) => !parseMessage(m))) return "Invalid messages";
+  const structured = parseStructured(body);
+  if (structured instanceof Response) return "Invalid JSON schema";
+  const { custom_id: _, stream: __, ...rest } = body;
+  return { line, custom_id: customId, body: JSON.stringify(rest) };
+}
+
+/** 处理 /api/batches/*；路径不匹配时返回 null */
+export async function handleBatches(
+  request: Request,
+  env: Env,
+  url: URL,
+  principal: Principal | null
+): Promise<Response | null> {
+  const m = url.pathname.match(/^\/api\/batches(?:\/([^/]+)(\/results|\/cancel)?)?\/?$/);
+  if (!m) return null;
+  if (!env.BATCHES || !env.BATCH_QUEUE) return json({ error: "Batches are not configured" }, 501);
+
+  const [, id, subPath] = m;
+
+  // 提交
+  if (!id) {
+    if (request.method !== "POST") return json({ error: "Method not allowed" }, 405);
+    const text = await request.text();
+    if (text.length > MAX_BODY_CHARS) return json({ error: "Batch is too large" }, 413);
+    const items: BatchItem[] = [];
+    const seen = new Set<string>();
+    const lines = text.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+      if (!lines[i].trim()) continue;
+      const item = parseItem(lines[i], i + 1);
+      if (typeof item === "string") return json({ error: item, line: i + 1 }, 400);
+      if (item.custom_id !== null) {
+        if (seen.has(item.custom_id)) return json({ error: "Duplicate 'custom_id'", line: i + 1 }, 400);
+        seen.add(item.custom_id);
+      }
+      items.push(item);
+    }
+    if (!items.length) return json({ error: "Batch is empty; send one JSON request per line" }, 400);
+    const maxItems = positiveInt(env.BATCH_MAX_ITEMS, DEFAULT_MAX_ITEMS);
+    if (items.length > maxItems) return json({ error: `A batch holds at most ${maxItems} requests` }, 400);
+
+    const doId = env.BATCHES.newUniqueId();
+    const batchId = doId.toString();
+    const stub = env.BATCHES.get(doId);
+    const status = await stub.create({
+      id: batchId,
+      query: url.search,
+      owner: principal?.id ?? null,
+      key_hash: principal ? await keyHash(request) : null,
+      items,
+    });
+    try {
+      for (let i = 0; i < items.length; i += ENQUEUE_CHUNK) {
+        await env.BATCH_QUEUE.sendBatch(
+          items.slice(i, i + ENQUEUE_CHUNK).map((item) => ({ body: { batch_id: batchId, line: item.line } }))
+        );
+      }
+    } catch (e) {
+      // 已入队的行在领取时会因取消而跳过
+      await stub.cancel();
+      return json({ error: "Failed to enqueue batch", detail: String(e) }, 502);
+    }
+    return json(status, 202);
+  }
+
+  const stub = stubFor(env, id);
+  const status = stub ? await stub.status() : null;
+  if (!stub || !status) return json({ error: "Batch not found" }, 404);
+  const { owner, ...job } = status;
+  if (owner !== null && owner !== (principal?.id ?? null) && !principal?.admin) {
+    return json({ error: "Batch not found" }, 404);
+  }
+
+  if (subPath === "/cancel") {
+    if (request.method !== "POST") return json({ error: "Method not allowed" }, 405);
+    return json(await stub.cancel());
+  }
+
+  if (subPath === "/results") {
+    if (request.method !== "GET") return json({ error: "Method not allowed" }, 405);
+    let after = 0;
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const page = await stub.results(after, RESULTS_PAGE);
+        if (!page) return controller.close();
+        after = page.last;
+        controller.enqueue(te.encode(page.jsonl));
+      },
+    });
+    return new Response(body, {
+      headers: {
+        "content-type": "application/jsonl; charset=utf-8",
+        "content-disposition": `attachment; filename="batch-${id.slice(0, 12)}.jsonl"`,
+      },
+    });
+  }
+
+  if (request.method !== "GET") return json({ error: "Method not allowed" }, 405);
+  return json(job);
+}
+
+/* ---------------- Queue 消费者 ---------------- */
+
+/** Worker 的 queue 入口：一次投递内按 BATCH_CONCURRENCY 并发处理 */
+export async function handleBatchQueue(batch: MessageBatch<BatchMessage>, env: Env, ctx: ExecutionContext): Promise<void> {
+  const pending = [...batch.messages];
+  const concurrency = positiveInt(env.BATCH_CONCURRENCY, DEFAULT_CONCURRENCY, MAX_CONCURRENCY);
+  const worker = async () => {
+    for (let msg = pending.shift(); msg; msg = pending.shift()) await processMessage(env, ctx, msg);
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, pending.length) }, worker));
+}
+
+async function processMessage(env: Env, ctx: ExecutionContext, msg: Message<BatchMessage>) {
+  const stub = env.BATCHES ? stubFor(env, msg.body.batch_id) : null;
+  if (!stub) return msg.ack();
+  // 每次尝试一个 trace；日志带上任务与行号
+  const trace = new Trace(env, crypto.randomUUID(), "batch", {
+    waitUntil: (p) => ctx.waitUntil(p),
+    fields: { batch_id: msg.body.batch_id, line: msg.body.line, attempt: msg.attempts },
+  });
+  try {
+    const claimed = await stub.claim(msg.body.line, trace.id, itemTimeout(env) + CLAIM_MARGIN_MS);
+    if (!claimed) return msg.ack();
+    // 另一次投递正在生成这一行：租约到期后再看，届时已有结果则直接 ack，否则接手
+    if ("busy" in claimed) return msg.retry({ delaySeconds: claimed.busy });
+    const outcome = await runItem(env, claimed.item, claimed.query, claimed.key_hash, msg.attempts, trace);
+    if ("retry" in outcome) {
+      await stub.release(msg.body.line, trace.id);
+      return msg.retry({ delaySeconds: outcome.retry });
+    }
+    await stub.finish(outcome);
+    msg.ack();
+  } catch (e) {
+    // 意外异常（Durable Object 不可用等）：未到次数上限时整条重投，否则记为失败
+    trace.log("error", { message: String(e).slice(0, 800) }, "error");
+    if (msg.attempts < maxAttempts(env)) {
+      await stub.release(msg.body.line, trace.id).catch(() => {});
+      return msg.retry();
+    }
+    const error: BatchError = { code: "internal_error", message: String(e).slice(0, 800) };
+    await stub
+      .finish({ line: msg.body.line, custom_id: null, status: "failed", error, attempts: msg.attempts, completed_at: Date.now() })
+      .catch(() => {});
+    msg.ack();
+  }
+}
+
+/** Response 形式的校验失败（prepareChat / 守卫 / 附件等）转成该行的错误 */
+async function rejected(res: Response): Promise<BatchError> {
+  const body: any = await res.json().catch(() => ({}));
+  return {
+    code: typeof body?.code === "string" ? body.code : "invalid_request",
+    message: typeof body?.error === "string" ? body.error : `HTTP ${res.status}`,
+    status: res.status,
+  };
+}
+
+/** 按 /api/chat 的流程生成一行；可重试的失败且未到次数上限时返回 { retry: 秒数 } */
+async function runItem(
+  env: Env,
+  item: BatchItem,
+  query: string,
+  hash: string | null,
+  attempt: number,
+  trace: Trace
+): Promise<BatchResult | { retry: number }> {
+  let usage: UsageRecord | undefined;
+  const done = (r: Pick<BatchResult, "status" | "response" | "error">): BatchResult => ({
+    line: item.line,
+    custom_id: item.custom_id,
+    ...r,
+    ...(usage ? { usage } : {}),
+    attempts: attempt,
+    completed_at: Date.now(),
+    trace_id: trace.id,
+  });
+  const fail = async (res: Response) => done({ status: "failed", error: await rejected(res) });
+
+  const url = new URL(`https://batch.invalid/api/chat${query}`);
+  // 每行都按提交的 key 重新鉴权并计一次请求：提交后停用的 key 不再生成，整批也受 RPM / RPD 配额约束
+  const principal = await reauthorize(env, hash, url);
+  if (principal instanceof Response) {
+    if (principal.status === 429 && attempt < maxAttempts(env)) {
+      return { retry: Math.max(Number(principal.headers.get("retry-after")) || 0, backoff(attempt)) };
+    }
+    return fail(principal);
+  }
+  const body = JSON.parse(item.body);
+  const preset = await resolvePreset(env, url, body);
+  if (preset instanceof Response) return fail(preset);
+
+  let messages = body.messages.map((m: any) => parseMessage(m)) as ChatMessage[];
+  if (!messages.some((m) => m.role === "system")) {
+    messages.unshift({ role: "system", content: systemPrompt(env, preset) });
+  }
+  const policy = loadGuard(env);
+  const guarded = await guardInput(env, policy, messages);
+  if (guarded.blocked) return fail(blockedResponse(guarded.events));
+  const resolved = await resolveAttachments(env, guarded.messages, principal, { policy, events: guarded.events });
+  if (resolved instanceof Response) return fail(resolved);
+  messages = resolved;
+
+  const prepared = prepareChat(url, env, body, messages, preset);
+  if (prepared instanceof Response) return fail(prepared);
+  const knowledge = knowledgeQuery(env, url, body);
+  if (knowledge instanceof Response) return fail(knowledge);
+  const structured = parseStructured(body);
+  if (structured instanceof Response) return fail(structured);
+  if (structured) prepared.req.response_format = structured;
+
+  const ctl = new AbortController();
+  const timeoutHandle = setTimeout(() => ctl.abort("request-timeout"), itemTimeout(env));
+  try {
+    const out = await complete(env, prepared.upstreams, prepared.req, {
+      knowledge,
+      structured,
+      guard: policy,
+      signal: ctl.signal,
+      trace,
+      onUsage: async (u) => {
+        usage = u;
+        await Promise.all([recordTokens(env, principal, u), recordUsage(env, principal, u)]);
+      },
+    });
+    if (out.blocked) return fail(blockedResponse(out.guard));
+    const response = {
+      text: out.text,
+      finish_reason: out.finish_reason,
+      model: out.model,
+      ...(out.structured ? { structured: out.structured } : {}),
+    };
+    if (out.structured && !out.structured.valid) {
+      return done({
+        status: "failed",
+        response,
+        error: { code: "schema_mismatch", message: "Reply does not match the schema", status: 422 },
+      });
+    }
+    return done({ status: "succeeded", response });
+  } catch (e) {
+    const err = describeError(e, ctl.signal.aborted);
+    if (err.retryable && attempt < maxAttempts(env)) {
+      // 上游给了 Retry-After 时取两者较大值
+      return { retry: Math.max(err.retry_after ?? 0, backoff(attempt)) };
+    }
+    return done({
+      status: "failed",
+      error: { code: err.code, message: err.message.slice(0, 800), ...(err.status ? { status: err.status } : {}) },
+    });
+  } finally {
+    clearTimeout(timeoutHandle);
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * 响应缓存（可选，绑定 RESPONSE_CACHE KV 后启用）
+ * - 只缓存确定性请求：指定了 seed 或 temperature=0，且未启用函数工具
+ * - key = 规范化请求（上游 provider+model、messages、采样参数…）的 SHA-256
+ * - 命中时按接近真实的粒度切块重放；响应头 x-cache: hit / miss / bypass
+ * - 请求头 Cache-Control: no-cache / no-store 跳过缓存（no-cache 仍会写入新结果）
+ * - DELETE /api/admin/cache[/<key>]：清空全部 / 单条
+ */
+
+import { sha256Hex } from "./auth";
+import type { ChatRequest, Citation } from "./providers";
+import { json } from "./sse";
+import type { Env } from "./types";
+import type { Upstream } from "./upstreams";
+
+const PREFIX = "resp:";
+const DEFAULT_TTL_SECONDS = 3600;
+// KV 的 expirationTtl 最小 60s
+const MIN_TTL_SECONDS = 60;
+const REPLAY_CHUNK_CHARS = 12;
+
+/** 缓存的一次完整回复 */
+export interface CachedCompletion {
+  text: string;
+  finish_reason: string;
+  model: string | null;
+  citations?: Citation[];
+  created_at: number;
+}
+
+/** 一次请求的缓存状态；hit 为 null 表示未命中 */
+export interface CacheLookup {
+  key: string;
+  hit: CachedCompletion | null;
+  /** false 时只读不写（Cache-Control: no-store） */
+  store: boolean;
+}
+
+export type CacheStatus = "hit" | "miss" | "bypass";
+
+function ttlSeconds(env: Env): number {
+  const n = Number(env.RESPONSE_CACHE_TTL);
+  return n > 0 ? Math.max(MIN_TTL_SECONDS, Math.floor(n)) : DEFAULT_TTL_SECONDS;
+}
+
+export function isDeterministic(req: Omit<ChatRequest, "model">): boolean {
+  const seeded = req.seed !== undefined && !Number.isNaN(req.seed);
+  // 函数工具可能读到随时间变化的数据（fetch_url / kv_lookup），不缓存
+  return (seeded || req.temperature === 0) && !req.toolbox?.tools.length;
+}
+
+/**
+ * 查缓存。未启用或请求不可缓存时返回 null（x-cache: bypass）。
+ * extra 用于区分调用入口的额外参数（如 stop 序列）。
+ */
+export async function lookupCache(
+  env: Env,
+  request: Request,
+  upstreams: Upstream[],
+  req: Omit<ChatRequest, "model">,
+  extra: Record<string, unknown> = {}
+): Promise<CacheLookup | null> {
+  if (!env.RESPONSE_CACHE || !isDeterministic(req)) return null;
+  const cc = (request.headers.get("cache-control") || "").toLowerCase();
+  const noStore = cc.includes("no-store");
+
+  const normalized = {
+    upstreams: upstreams.map((up) => [up.provider.id, up.model]),
+    messages: req.messages,
+    max_output_tokens: req.max_output_tokens,
+    temperature: req.temperature,
+    top_p: req.top_p,
+    seed: req.seed ?? null,
+    tools: req.tools,
+    ...(req.response_format ? { response_format: req.response_format } : {}),
+    ...extra,
+  };
+  const key = await sha256Hex(JSON.stringify(normalized));
+  if (noStore) return { key, hit: null, store: false };
+  if (cc.includes("no-cache")) return { key, hit: null, store: true };
+
+  const hit = await env.RESPONSE_CACHE.get<CachedCompletion>(PREFIX + key, "json").catch(() => null);
+  return { key, hit, store: true };
+}
+
+/** 只缓存完整、无错误的回复 */
+export async function storeCache(env: Env, lookup: CacheLookup | null, value: Omit<CachedCompletion, "created_at">) {
+  if (!env.RESPONSE_CACHE || !lookup || lookup.hit || !lookup.store || !value.text) return;
+  const entry: CachedCompletion = { ...value, created_at: Date.now() };
+  await env.RESPONSE_CACHE.put(PREFIX + lookup.key, JSON.stringify(entry), { expirationTtl: ttlSeconds(env) });
+}
+
+export function cacheStatus(lookup: CacheLookup | null): CacheStatus {
+  return !lookup ? "bypass" : lookup.hit ? "hit" : "miss";
+}
+
+/** 响应头：未启用缓存时不加 */
+export function cacheHeaders(env: Env, lookup: CacheLookup | null): Record<string, string> {
+  if (!env.RESPONSE_CACHE) return {};
+  return { "x-cache": cacheStatus(lookup), ...(lookup ? { "x-cache-key": lookup.key } : {}) };
+}
+
+/**
+ * 重放用的切块：按词边界凑到约 12 个字符一块；
+ * 过长的串（中文等没有空格的文本）按码点切开
+ */
+export function replayChunks(text: string, size = REPLAY_CHUNK_CHARS): string[] {
+  const out: string[] = [];
+  let cur = "";
+  for (const token of text.match(/\S+\s*|\s+/g) ?? []) {
+    const chars = Array.from(token);
+    const step = chars.length > size * 2 ? size : chars.length;
+    for (let i = 0; i < chars.length; i += step) {
+      cur += chars.slice(i, i + step).join("");
+      if (cur.length >= size) {
+        out.push(cur);
+        cur = "";
+      }
+    }
+  }
+  if (cur) out.push(cur);
+  return out;
+}
+
+/** DELETE /api/admin/cache[/<key>] */
+export async function handleCachePurge(request: Request, env: Env, url: URL): Promise<Response> {
+  if (request.method !== "DELETE") return json({ error: "Method not allowed" }, 405);
+  if (!env.RESPONSE_CACHE) return json({ error: "Response cache is not configured" }, 501);
+
+  const key = url.pathname.match(/^\/api\/admin\/cache\/([0-9a-f]{64})$/)?.[1];
+  if (key) {
+    await env.RESPONSE_CACHE.delete(PREFIX + key);
+    return json({ purged: 1, key });
+  }
+  if (!/^\/api\/admin\/cache\/?$/.test(url.pathname)) return json({ error: "Not found" }, 404);
+
+  let purged = 0;
+  let cursor: string | undefined;
+  do {
+    const page = await env.RESPONSE_CACHE.list({ prefix: PREFIX, cursor });
+    await Promise.all(page.keys.map((k) => env.RESPONSE_CACHE!.delete(k.name)));
+    purged += page.keys.length;
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return json({ purged });
+}
@@ -0,0 +1,852 @@
+/**
+ * 对话流：先返回 SSE 头，随后在流内异步拉上游 provider
+ * - 8s 心跳、45s 总超时
+ * - 上游错误按 errors.ts 分类：限流/5xx/超时先在同一上游退避重试（遵守 Retry-After），
+ *   仍失败再按序 failover；熔断中的上游直接跳过
+ * - 首包看门狗：12s 内没有正文 → 换下一个上游；最后一个上游回退为非流式
+ * - 可选上下文预算管理（见 context.ts），裁剪情况以 context chunk 报告
+ * - 选了知识库集合时先检索并注入片段（见 knowledge.ts），用到的文档以 knowledge chunk 报告
+ * - 带 JSON Schema 时（见 structured.ts）结束前校验回复、不通过时修复重试一次，结果以 structured chunk 输出
+ * - 默认输出 chat-completions 风格 choices[0].delta.content；结束 chunk 带 upstream 说明
+ * - ?format=v2：具名 SSE 事件（text/status/tool/usage/error/debug/context/knowledge/structured/done），正文与提示分开
+ * - 函数工具（AGENT_TOOLS，见 tools.ts）的调用与结果以 tool chunk 输出
+ * - 联网检索的引用按 URL 编号后以 citation chunk 输出
+ * - 上游报告了用量时，结束前输出一个 usage chunk（含按价格表算出的 cost_usd）
+ * - 内容守卫（guard.ts）：输入检查的结果与输出过滤的命中以 guard chunk 输出；输出 block 时 finish_reason 为 content_filter
+ * - 响应缓存命中时不请求上游，按块重放缓存的回复（见 cache.ts）
+ * - 可续传（见 resume.ts）时帧带 id 并写入缓冲，客户端断开后继续生成；否则客户端断开即中止上游
+ */
+
+import { type CacheLookup, replayChunks, storeCache } from "./cache";
+import { type ContextReport, fitContext } from "./context";
+import { DEFAULT_MAX_RETRIES, NetworkError, type UpstreamErrorKind, UpstreamError, retryDecision, sleep } from "./errors";
+import { type GuardEvent, type GuardPolicy, OutputGuard, blockedResponse } from "./guard";
+import { type KnowledgeQuery, type KnowledgeReport, augmentWithKnowledge } from "./knowledge";
+import type { Preset } from "./presets";
+import {
+  type ChatRequest,
+  type Citation,
+  PROVIDER_IDS,
+  type StreamSink,
+  type TokenUsage,
+  addUsage,
+  resolveProviderId,
+} from "./providers";
+import type { ResumableStream } from "./resume";
+import { type StreamEventName, chunk, json, sseData, sseDone, sseEvent, te } from "./sse";
+import { type StructuredFormat, type StructuredResult, resolveStructured } from "./structured";
+import { type ToolEvent, loadToolbox } from "./tools";
+import type { Trace } from "./trace";
+import type { ChatMessage, Env } from "./types";
+import { type UsageRecord, priceUsage } from "./usage";
+import {
+  type Upstream,
+  isCircuitOpen,
+  isFailoverError,
+  loadUpstreams,
+  recordFailure,
+  recordSuccess,
+} from "./upstreams";
+
+export const REQUEST_TIMEOUT_MS = 45000;
+const td = new TextDecoder();
+const HEARTBEAT_MS = 8000;
+const FIRST_PACKET_MS = 12000;
+
+function retryLimit(env: Env): number {
+  const n = Number(env.UPSTREAM_MAX_RETRIES);
+  return Number.isInteger(n) && n >= 0 ? Math.min(n, 5) : DEFAULT_MAX_RETRIES;
+}
+
+const DEFAULT_SYSTEM_PROMPT =
+  "You are a senior bilingual (中英双语) analyst and writer. When the user asks for explanations, think step-by-step but keep the final answer concise, structured, and actionable. Prefer clear headings and short lists. Add quick checks or caveats when needed. If you are unsure, say so and state your assumptions. Use simple, precise wording; avoid purple prose. 默认用用户的语言回答；如果用户用中文，你用中文并保留必要的英文术语。";
+
+/** 客户端没给 system 消息时注入：预设 > SYSTEM_PROMPT > 内置默认 */
+export function systemPrompt(env: Env, preset?: Preset | null): string {
+  return preset?.system_prompt || env.SYSTEM_PROMPT || DEFAULT_SYSTEM_PROMPT;
+}
+
+/** 流格式：legacy（默认，chat-completions chunk）/ v2（具名 SSE 事件） */
+export type StreamFormat = "legacy" | "v2";
+const STREAM_FORMATS: StreamFormat[] = ["legacy", "v2"];
+
+/**
+ * /api/chat 与会话接口共用：provider 选择（?provider= > body.provider > 预设 > env.LLM_PROVIDER）
+ * + query 参数 / 预设 → 上游列表、请求与流格式；参数错误直接返回 Response
+ */
+export function prepareChat(
+  url: URL,
+  env: Env,
+  body: any,
+  messages: ChatMessage[],
+  preset: Preset | null = null
+): { upstreams: Upstream[]; req: Omit<ChatRequest, "model">; format: StreamFormat } | Response {
+  const format =
+    url.searchParams.get("format") ?? (typeof body?.format === "string" ? body.format : "legacy");
+  if (!STREAM_FORMATS.includes(format)) {
+    return json({ error: "Unknown stream format", format, supported: STREAM_FORMATS }, 400);
+  }
+
+  const requested =
+    url.searchParams.get("provider") ??
+    (typeof body?.provider === "string" ? body.provider : null) ??
+    preset?.provider ??
+    (preset?.model?.startsWith("@cf/") ? "workers-ai" : null);
+  const providerId = resolveProviderId(env, requested);
+  if (!providerId) {
+    return json({ error: "Unknown provider", provider: requested, supported: PROVIDER_IDS }, 400);
+  }
+
+  const qMax = url.searchParams.get("max_tokens") ?? url.searchParams.get("max_output_tokens");
+  const qSeed = url.searchParams.get("seed");
+  const qT = url.searchParams.get("temperature");
+  const qTP = url.searchParams.get("top_p");
+
+  // query > 预设 > env > 默认值
+  const max_output_tokens =
+    qMax !== null
+      ? Number(qMax)
+      : preset?.max_tokens ?? (env.OPENAI_MAX_TOKENS ? Number(env.OPENAI_MAX_TOKENS) : 1024);
+
+  const seed =
+    qSeed !== null ? Number(qSeed) : preset?.seed ?? (env.OPENAI_SEED ? Number(env.OPENAI_SEED) : undefined);
+
+  const temperature =
+    qT !== null
+      ? Number(qT)
+      : preset?.temperature ?? (env.OPENAI_TEMPERATURE ? Number(env.OPENAI_TEMPERATURE) : 0.7);
+
+  const top_p = qTP !== null ? Number(qTP) : preset?.top_p ?? (env.OPENAI_TOP_P ? Number(env.OPENAI_TOP_P) : 1.0);
+
+  const nativeTools = preset?.tools ?? String(env.OPENAI_NATIVE_TOOLS || "").toLowerCase() === "on";
+
+  // 上游列表（UPSTREAMS 未配置时只有一个）
+  let upstreams: Upstream[];
+  try {
+    upstreams = loadUpstreams(env, providerId, requested !== null);
+  } catch (e) {
+    return json({ error: "Invalid UPSTREAMS", detail: String(e) }, 500);
+  }
+  // 预设指定了 model：只保留能跑这个模型的上游（@cf/ 前缀 ↔ workers-ai），并覆盖其 model
+  if (preset?.model) {
+    const cf = preset.model.startsWith("@cf/");
+    upstreams = upstreams
+      .filter((up) => (up.provider.id === "workers-ai") === cf)
+      .map((up) => ({ ...up, model: preset.model! }));
+    if (!upstreams.length) {
+      return json({ error: "Preset model does not match the selected provider", preset: preset.name }, 400);
+    }
+  }
+
+  return {
+    upstreams,
+    format,
+    req: {
+      messages,
+      max_output_tokens,
+      temperature,
+      top_p,
+      seed,
+      tools: nativeTools,
+      toolbox: preset?.tools === false ? undefined : loadToolbox(env),
+    },
+  };
+}
+
+/** 结束 chunk 上的 upstream 字段 */
+export interface UpstreamReport {
+  name: string | null;
+  provider: string | null;
+  model: string | null;
+  attempts: { name: string; outcome: "ok" | "skipped" | "retried" | "failed"; error?: string }[];
+}
+
+/** 首包看门狗回退为非流式后仍失败 */
+export class FallbackError extends Error {
+  constructor(readonly detail: string) {
+    super(`Non-streaming fallback failed: ${detail.slice(0, 200)}`);
+    this.name = "FallbackError";
+  }
+}
+
+/**
+ * 按序尝试上游直到有一个完成；正文经 sink 输出。
+ * 返回 upstream 报告；全部失败时抛出最后一个错误（report 已记录每次尝试）。
+ * signal 中止（总超时/客户端取消）时直接抛出，不再换上游。
+ * 有 trace 时每次尝试、failover、首包、工具调用写日志，结束时记一条指标样本（见 trace.ts）
+ */
+export async function generate(
+  env: Env,
+  upstreams: Upstream[],
+  req: Omit<ChatRequest, "model">,
+  sink: StreamSink,
+  signal: AbortSignal,
+  report: UpstreamReport = { name: null, provider: null, model: null, attempts: [] },
+  trace?: Trace
+): Promise<UpstreamReport> {
+  const started = Date.now();
+  let current: Upstream | null = null;
+  let gotFirstText = false;
+  let firstTokenAt: number | null = null;
+  let fallback = false;
+  let totalRetries = 0;
+  const tracked: StreamSink = {
+    ...sink,
+    text: (t) => {
+      gotFirstText = true;
+      if (firstTokenAt === null && t) {
+        firstTokenAt = Date.now();
+        trace?.log("first_token", { upstream: current?.name, model: current?.model, ttft_ms: firstTokenAt - started });
+      }
+      sink.text(t);
+    },
+    status: (note) => {
+      gotFirstText = true;
+      sink.status(note);
+    },
+    tool: (event) => {
+      gotFirstText = true;
+      trace?.log(
+        "tool",
+        event.type === "call"
+          ? { type: "call", step: event.step, name: event.name, call_id: event.call_id }
+          : { type: "result", step: event.step, name: event.name, call_id: event.call_id, ok: event.ok, duration_ms: event.duration_ms }
+      );
+      sink.tool?.(event);
+    },
+    // 调试行进日志，不再只能从回复里看
+    debug: (line) => {
+      trace?.log("debug", { upstream: current?.name, line });
+      sink.debug(line);
+    },
+  };
+
+  // 单个上游：流式 + 首包看门狗；isLast 时看门狗回退为非流式
+  const attempt = async (up: Upstream, isLast: boolean) => {
+    const upReq: ChatRequest = { ...req, model: up.model };
+
+    // 流式尝试单独一个 controller：看门狗只中止它，不影响非流式回退
+    const streamCtl = new AbortController();
+    const onAbort = () => streamCtl.abort(signal.reason);
+    signal.addEventListener("abort", onAbort);
+    const firstPacketTimer = setTimeout(() => {
+      if (!gotFirstText) streamCtl.abort("first-packet");
+    }, FIRST_PACKET_MS);
+
+    try {
+      await up.provider.stream(upReq, tracked, streamCtl.signal);
+    } catch (e) {
+      if (streamCtl.signal.reason !== "first-packet" || signal.aborted) throw e;
+      if (!isLast) throw new DOMException("first packet timeout", "TimeoutError");
+
+      // 首包看门狗触发：回退为非流式
+      fallback = true;
+      trace?.log("fallback", { upstream: up.name, model: up.model, reason: "first_packet_timeout" }, "warn");
+      let out;
+      try {
+        out = await up.provider.complete(upReq, signal);
+      } catch (err) {
+        if (signal.aborted) throw err;
+        throw new FallbackError(err instanceof UpstreamError ? err.detail : String(err));
+      }
+      tracked.text(out.text);
+      for (const c of out.citations ?? []) sink.citation?.(c);
+      if (out.usage) sink.usage?.(out.usage);
+      if (out.finish_reason) sink.finish?.(out.finish_reason);
+    } finally {
+      clearTimeout(firstPacketTimer);
+      signal.removeEventListener("abort", onAbort);
+    }
+  };
+
+  const live = upstreams.filter((up) => {
+    if (!isCircuitOpen(up.name)) return true;
+    report.attempts.push({ name: up.name, outcome: "skipped" });
+    trace?.log("upstream_attempt", { upstream: up.name, model: up.model, outcome: "skipped", reason: "circuit_open" });
+    return false;
+  });
+  // 全部熔断时仍尝试最后一个，避免直接无响应
+  if (!live.length) live.push(upstreams[upstreams.length - 1]);
+
+  const finish = (error?: unknown) => {
+    const err = error === undefined ? null : describeError(error, signal.reason === "request-timeout");
+    trace?.generation({
+      model: current?.model ?? "unknown",
+      provider: current?.provider.id ?? null,
+      upstream: current?.name ?? null,
+      ok: !err,
+      ...(err ? { error: err.code } : {}),
+      // 自身超时算错误，客户端断开 / 取消不算
+      aborted: !!err && signal.aborted && signal.reason !== "request-timeout",
+      ttft_ms: firstTokenAt === null ? null : firstTokenAt - started,
+      total_ms: Date.now() - started,
+      fallback: fallback || report.attempts.some((a) => a.outcome === "failed"),
+      retries: totalRetries,
+    });
+  };
+
+  const maxRetries = retryLimit(env);
+  for (let i = 0, retries = 0; i < live.length; ) {
+    const up = live[i];
+    current = up;
+    const attemptStarted = Date.now();
+    const logAttempt = (outcome: string, fields: Record<string, unknown> = {}, level: "info" | "warn" = "info") =>
+      trace?.log(
+        "upstream_attempt",
+        { upstream: up.name, provider: up.provider.id, model: up.model, outcome, duration_ms: Date.now() - attemptStarted, ...fields },
+        level
+      );
+    try {
+      await attempt(up, i === live.length - 1);
+      recordSuccess(up.name);
+      report.attempts.push({ name: up.name, outcome: "ok" });
+      logAttempt("ok");
+      report.name = up.name;
+      report.provider = up.provider.id;
+      report.model = up.model;
+      finish();
+      return report;
+    } catch (e) {
+      if (signal.aborted) {
+        trace?.log("abort", { upstream: up.name, reason: String(signal.reason ?? "aborted") }, "warn");
+        finish(e);
+        throw e;
+      }
+      // 同一上游退避重试（只针对上游返回的错误；首包超时直接换上游）
+      const decision = e instanceof UpstreamError && !gotFirstText ? retryDecision(e, retries, maxRetries) : null;
+      if (decision?.action === "retry") {
+        report.attempts.push({ name: up.name, outcome: "retried", error: String(e).slice(0, 200) });
+        logAttempt("retried", { error: String(e).slice(0, 200), retry_in_ms: decision.delayMs }, "warn");
+        retries++;
+        totalRetries++;
+        try {
+          await sleep(decision.delayMs, signal);
+        } catch (err) {
+          trace?.log("abort", { upstream: up.name, reason: String(signal.reason ?? "aborted") }, "warn");
+          finish(err);
+          throw err;
+        }
+        continue;
+      }
+      if (!isFailoverError(e)) {
+        logAttempt("failed", { error: String(e).slice(0, 200) }, "warn");
+        finish(e);
+        throw e;
+      }
+      recordFailure(env, up.name);
+      report.attempts.push({ name: up.name, outcome: "failed", error: String(e).slice(0, 200) });
+      logAttempt("failed", { error: String(e).slice(0, 200) }, "warn");
+      // 已经输出过正文就不能再换上游
+      if (gotFirstText || i === live.length - 1) {
+        finish(e);
+        throw e;
+      }
+      trace?.log("failover", { from: up.name, to: live[i + 1].name, error: String(e).slice(0, 200) }, "warn");
+      i++;
+      retries = 0;
+    }
+  }
+  return report;
+}
+
+/** 不流式输出，收集一次完整回复（结构化输出的修复重试 / stream: false 用） */
+export async function collect(
+  env: Env,
+  upstreams: Upstream[],
+  req: Omit<ChatRequest, "model">,
+  signal: AbortSignal,
+  trace?: Trace
+): Promise<{ text: string; usage?: TokenUsage; finish_reason: string; report: UpstreamReport }> {
+  const out: { text: string; usage?: TokenUsage; finish_reason: string } = { text: "", finish_reason: "stop" };
+  const report = await generate(
+    env,
+    upstreams,
+    req,
+    {
+      text: (t) => {
+        out.text += t;
+      },
+      status: () => {},
+      debug: () => {},
+      usage: (u) => {
+        out.usage = addUsage(out.usage, u);
+      },
+      finish: (reason) => {
+        out.finish_reason = reason;
+      },
+    },
+    signal,
+    undefined,
+    trace
+  );
+  return { ...out, report };
+}
+
+/** v2 流中的 error 事件 */
+export interface StreamError {
+  /** 稳定错误码：上游错误为 errors.ts 的分类，其余为 fallback_failed / timeout / internal_error */
+  code: UpstreamErrorKind | "fallback_failed" | "internal_error";
+  message: string;
+  /** 原样重试是否可能成功 */
+  retryable: boolean;
+  /** 上游 HTTP 状态（上游错误时） */
+  status?: number;
+  /** invalid_param 时出错的参数 */
+  param?: string;
+  /** 上游要求的等待时间（秒） */
+  retry_after?: number;
+}
+
+export function describeError(e: any, timedOut = false): StreamError {
+  if (e instanceof FallbackError) {
+    return { code: "fallback_failed", message: e.detail, retryable: true };
+  }
+  if (e instanceof UpstreamError) {
+    return {
+      code: e.kind,
+      message: e.upstreamMessage,
+      retryable: e.kind === "rate_limit" || e.kind === "server" || e.kind === "timeout",
+      status: e.status,
+      ...(e.param ? { param: e.param } : {}),
+      ...(e.retryAfterMs !== undefined ? { retry_after: Math.ceil(e.retryAfterMs / 1000) } : {}),
+    };
+  }
+  if (e instanceof NetworkError) {
+    return { code: "server", message: e.message, retryable: true };
+  }
+  if (e?.name === "AbortError" || timedOut || String(e).includes("request-timeout")) {
+    return { code: "timeout", message: "Upstream request timed out", retryable: true };
+  }
+  return { code: "internal_error", message: String(e), retryable: false };
+}
+
+/** 流中的引用：同一 URL 共用一个脚注编号（从 1 开始） */
+export interface NumberedCitation extends Citation {
+  number: number;
+}
+
+/** 按格式输出流内各类事件 */
+interface StreamWriter {
+  start(): void;
+  text(delta: string): void;
+  /** kind：heartbeat（心跳）/ progress（上游进度提示） */
+  status(message: string, kind: "heartbeat" | "progress"): void;
+  tool(event: ToolEvent): void;
+  citation(citation: NumberedCitation): void;
+  debug(line: string): void;
+  context(report: ContextReport): void;
+  knowledge(report: KnowledgeReport): void;
+  guard(event: GuardEvent): void;
+  structured(result: StructuredResult): void;
+  usage(usage: UsageRecord): void;
+  error(err: StreamError): void;
+  /** 结束事件；之后不再输出 */
+  done(finishReason: string, report: UpstreamReport): void;
+}
+
+/** 默认格式：全部以 chat.completion.chunk 输出，提示与错误混在 delta.content 里；首尾两个 chunk 带 trace_id */
+function legacyWriter(send: (o: unknown) => void, end: () => void, traceId?: string): StreamWriter {
+  const delta = (content: string, id = "cmpl-chunk") => content && send(chunk(id, { content }));
+  const traced = traceId ? { trace_id: traceId } : {};
+  return {
+    start: () => send({ ...chunk("cmpl-start", { role: "assistant" }), ...traced }),
+    text: (t) => delta(t),
+    status: (message) => delta(message),
+    tool: (event) => send({ ...chunk("cmpl-tool", {}), tool: event }),
+    citation: (citation) => send({ ...chunk("cmpl-citation", {}), citation }),
+    // 调试行只进日志（见 trace.ts），不再混进回复
+    debug: () => {},
+    context: (report) => send({ ...chunk("cmpl-context", {}), context: report }),
+    knowledge: (report) => send({ ...chunk("cmpl-knowledge", {}), knowledge: report }),
+    guard: (event) => send({ ...chunk("cmpl-guard", {}), guard: event }),
+    structured: (result) => send({ ...chunk("cmpl-structured", {}), structured: result }),
+    usage: (usage) => send({ ...chunk("cmpl-usage", {}), usage }),
+    error: (err) => {
+      switch (err.code) {
+        case "fallback_failed":
+          return delta(`（非流式回退失败）${err.message.slice(0, 600)}`, "cmpl-error");
+        case "internal_error":
+          return delta(`⚠️ Worker error: ${err.message.slice(0, 800)}`, "cmpl-error");
+        default:
+          // 自身的超时没有 status
+          if (err.status === undefined) return delta("⌛ 后端连接超时（可能在调起联网检索或网络受限）。", "cmpl-error");
+          return delta(`⚠️ Upstream ${err.status}: ${err.message.slice(0, 800)}`, "cmpl-error");
+      }
+    },
+    done: (finishReason, report) => {
+      send({ ...chunk("cmpl-stop", {}, finishReason), upstream: report, ...traced });
+      end();
+    },
+  };
+}
+
+/** v2：具名 SSE 事件，正文只在 text 事件里 */
+function v2Writer(emit: (event: StreamEventName, data: unknown) => void, end: () => void, traceId?: string): StreamWriter {
+  const traced = traceId ? { trace_id: traceId } : {};
+  return {
+    start: () => {},
+    text: (t) => t && emit("text", { delta: t }),
+    status: (message, kind) => emit("status", { kind, message }),
+    tool: (event) => emit("tool", event),
+    citation: (citation) => emit("citation", citation),
+    debug: (line) => emit("debug", { line }),
+    context: (report) => emit("context", report),
+    knowledge: (report) => emit("knowledge", report),
+    guard: (event) => emit("guard", event),
+    structured: (result) => emit("structured", result),
+    usage: (usage) => emit("usage", usage),
+    error: (err) => emit("error", { ...err, message: err.message.slice(0, 800), ...traced }),
+    done: (finishReason, report) => {
+      emit("done", { finish_reason: finishReason, upstream: report, ...traced });
+      end();
+    },
+  };
+}
+
+/** streamChat 的可选项 */
+export interface StreamOptions {
+  /** 输出格式，默认 legacy */
+  format?: StreamFormat;
+  /** 超出上下文预算时裁剪/摘要历史，并在流开头输出 context 报告 */
+  manageContext?: boolean;
+  /** 内容守卫：输入检查的事件在流开头输出；policy.output 时过滤正文 */
+  guard?: { policy: GuardPolicy | null; events: GuardEvent[] };
+  /** 知识库检索（见 knowledge.ts）：在上下文裁剪之前注入片段 */
+  knowledge?: KnowledgeQuery | null;
+  /** 结构化输出：正文结束后校验（不通过时修复重试一次），结果以 structured 事件输出 */
+  structured?: StructuredFormat | null;
+  /** lookupCache 的结果：命中时重放，未命中时在成功结束后写入 */
+  cache?: CacheLookup | null;
+  /** 可续传（见 resume.ts）：帧带 id 并写入缓冲，客户端断开后继续生成；不设时断开即中止上游 */
+  resume?: ResumableStream | null;
+  /** 请求追踪：日志与指标，trace_id 写进流（见 trace.ts） */
+  trace?: Trace;
+  /** 上游报告了用量时调用（在 onDone 之前 await） */
+  onUsage?(usage: UsageRecord): Promise<void> | void;
+  /** 在流结束前 await；text 只含正文（不含心跳/工具提示/错误提示） */
+  onDone?(result: {
+    text: string;
+    citations: NumberedCitation[];
+    report: UpstreamReport;
+    error?: unknown;
+  }): Promise<void> | void;
+}
+
+export function streamChat(
+  env: Env,
+  upstreams: Upstream[],
+  req: Omit<ChatRequest, "model">,
+  opts: StreamOptions = {}
+): ReadableStream<Uint8Array> {
+  const resume = opts.resume;
+  // 总超时 / 取消 / 输出 block 时中止上游
+  const upstreamCtl = new AbortController();
+  // 客户端已断开：不再写入连接，可续传时继续生成
+  let detached = false;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      let seq = 0;
+      const emit = (frame: Uint8Array) => {
+        if (closed) return;
+        if (resume) {
+          const id = ++seq;
+          const text = `id: ${id}\n${td.decode(frame)}`;
+          resume.push({ id, text });
+          frame = te.encode(text);
+        }
+        if (!detached) controller.enqueue(frame);
+      };
+      const end = (legacy: boolean) => () => {
+        if (closed) return;
+        if (legacy) emit(sseDone());
+        closed = true;
+        if (!detached) controller.close();
+      };
+      const out =
+        opts.format === "v2"
+          ? v2Writer((event, data) => emit(sseEvent(event, data)), end(false), opts.trace?.id)
+          : legacyWriter((o) => emit(sseData(o)), end(true), opts.trace?.id);
+
+      // 起始：legacy 仅发送 role
+      out.start();
+      for (const e of opts.guard?.events ?? []) out.guard(e);
+
+      const task = (async () => {
+        const timeoutHandle = setTimeout(() => upstreamCtl.abort("request-timeout"), REQUEST_TIMEOUT_MS);
+
+        // 心跳：8s 无增量 → 友好提示
+        let lastTextTs = Date.now();
+        const heartbeat = setInterval(() => {
+          if (Date.now() - lastTextTs > HEARTBEAT_MS) {
+            out.status("（仍在检索与整合，请稍候…）", "heartbeat");
+            lastTextTs = Date.now();
+          }
+        }, HEARTBEAT_MS);
+
+        const report: UpstreamReport = { name: null, provider: null, model: null, attempts: [] };
+        let finishReason = "stop";
+        let answer = "";
+        const citations: NumberedCitation[] = [];
+        const sourceNumbers = new Map<string, number>();
+        let usage: TokenUsage | undefined;
+        // 上下文摘要的用量：sink.usage 会覆盖 usage，单独记，计费时合并
+        let contextUsage: TokenUsage | undefined;
+        let failure: unknown;
+
+        const touch = () => {
+          lastTextTs = Date.now();
+        };
+        const policy = opts.guard?.policy;
+        const outGuard = policy?.output ? new OutputGuard(policy, (e) => out.guard(e)) : null;
+        const emitText = (t: string) => {
+          if (!t) return;
+          answer += t;
+          out.text(t);
+        };
+        const finish = () => {
+          clearInterval(heartbeat);
+          clearTimeout(timeoutHandle);
+          out.done(finishReason, report);
+        };
+        const onCancel = () => upstreamCtl.abort("cancelled");
+        resume?.signal.addEventListener("abort", onCancel);
+
+        const sink: StreamSink = {
+          text: (t) => {
+            if (!t) return;
+            touch();
+            if (!outGuard) return emitText(t);
+            emitText(outGuard.push(t));
+            // 输出命中 block：停止上游，按 content_filter 正常结束
+            if (outGuard.blocked && !upstreamCtl.signal.aborted) {
+              finishReason = "content_filter";
+              upstreamCtl.abort("content-blocked");
+            }
+          },
+          status: (note) => {
+            touch();
+            out.status(note, "progress");
+          },
+          debug: (line) => out.debug(line),
+          usage: (u) => {
+            usage = u;
+          },
+          finish: (reason) => {
+            finishReason = reason;
+          },
+          tool: (event) => {
+            touch();
+            out.tool(event);
+          },
+          citation: (c) => {
+            if (!sourceNumbers.has(c.url)) sourceNumbers.set(c.url, sourceNumbers.size + 1);
+            const numbered = { number: sourceNumbers.get(c.url)!, ...c };
+            citations.push(numbered);
+            out.citation(numbered);
+          },
+        };
+
+        const hit = opts.cache?.hit;
+        try {
+          if (hit) {
+            // 缓存命中：不请求上游，也不计用量
+            for (const t of replayChunks(hit.text)) sink.text(t);
+            for (const c of hit.citations ?? []) sink.citation!(c);
+            finishReason = hit.finish_reason;
+            report.name = "cache";
+            report.model = hit.model;
+            report.attempts.push({ name: "cache", outcome: "ok" });
+          } else {
+            // 知识库：检索失败时提示一下，照常回答
+            if (opts.knowledge) {
+              try {
+                const found = await augmentWithKnowledge(env, opts.knowledge, req.messages, upstreamCtl.signal);
+                req = { ...req, messages: found.messages };
+                out.knowledge(found.report);
+              } catch (e) {
+                if (upstreamCtl.signal.aborted) throw e;
+                out.status("（知识库检索失败，本次回答未使用文档）", "progress");
+              }
+            }
+            // 上下文预算：裁剪后单独报告（不影响正文）
+            if (opts.manageContext) {
+              const fitted = await fitContext(env, upstreams, req, upstreamCtl.signal);
+              contextUsage = fitted.report.usage;
+              if (fitted.report.trimmed_messages) {
+                req = { ...req, messages: fitted.messages };
+                out.context(fitted.report);
+              }
+            }
+            await generate(env, upstreams, req, sink, upstreamCtl.signal, report, opts.trace);
+          }
+        } catch (e) {
+          if (upstreamCtl.signal.reason === "cancelled") {
+            // 主动取消：已输出的正文照常收尾，不报错误
+            failure = e;
+            finishReason = "cancelled";
+          } else if (!outGuard?.blocked) {
+            failure = e;
+            touch();
+            out.error(describeError(e, upstreamCtl.signal.aborted));
+          }
+        }
+        if (outGuard) {
+          emitText(outGuard.flush());
+          if (outGuard.blocked) finishReason = "content_filter";
+        }
+        // 结构化输出：修复重试的文本不流式输出，只体现在 structured 事件里
+        let finalText = answer;
+        let structuredOk = !opts.structured;
+        if (opts.structured && !failure && !outGuard?.blocked) {
+          try {
+            const resolved = await resolveStructured(opts.structured, req.messages, answer, async (messages) => {
+              touch();
+              out.status("（回复不符合 JSON Schema，正在修复…）", "progress");
+              const fixed = await collect(env, upstreams, { ...req, messages }, upstreamCtl.signal, opts.trace);
+              if (fixed.usage) usage = addUsage(usage, fixed.usage);
+              if (!policy?.output) return fixed.text;
+              const g = new OutputGuard(policy, (e) => out.guard(e));
+              return g.push(fixed.text) + g.flush();
+            });
+            finalText = resolved.text;
+            structuredOk = resolved.result.valid;
+            out.structured(resolved.result);
+          } catch (e) {
+            failure = e;
+            if (upstreamCtl.signal.reason === "cancelled") finishReason = "cancelled";
+            else out.error(describeError(e, upstreamCtl.signal.aborted));
+          }
+        }
+        try {
+          if (contextUsage) usage = addUsage(usage, contextUsage);
+          if (usage) {
+            const priced = priceUsage(env, report.model, usage);
+            out.usage(priced);
+            await opts.onUsage?.(priced);
+          }
+          if (!failure && !hit && !outGuard?.blocked && structuredOk) {
+            await storeCache(env, opts.cache ?? null, {
+              text: finalText,
+              finish_reason: finishReason,
+              model: report.model,
+              ...(citations.length ? { citations: citations.map(({ number, ...c }) => c) } : {}),
+            });
+          }
+          await opts.onDone?.({ text: answer, citations, report, error: failure });
+        } catch (e) {
+          out.error(describeError(e));
+        }
+        finish();
+        resume?.signal.removeEventListener("abort", onCancel);
+        // 缓冲写失败只影响重连，不能让任务以未处理的 rejection 结束
+        await resume?.close().catch((e) => opts.trace?.log("error", { stage: "resume_close", message: String(e) }, "warn"));
+      })();
+      resume?.keepAlive(task);
+    },
+    cancel() {
+      detached = true;
+      if (!resume) upstreamCtl.abort("client-disconnected");
+    },
+  });
+}
+
+/** 非流式生成的结果 */
+export interface Completion {
+  text: string;
+  finish_reason: string;
+  model: string | null;
+  usage?: TokenUsage;
+  /** 带 schema 时的校验结果 */
+  structured?: StructuredResult;
+  /** 输出守卫拦截（此时 text 不可用） */
+  blocked: boolean;
+  guard: GuardEvent[];
+}
+
+/**
+ * 非流式生成一次：知识库检索 + 上下文裁剪 + 生成，带 schema 时校验 / 修复重试。
+ * 上游错误直接抛出（describeError 分类）；用量在结束时照常上报。
+ */
+export async function complete(
+  env: Env,
+  upstreams: Upstream[],
+  req: Omit<ChatRequest, "model">,
+  opts: Pick<StreamOptions, "knowledge" | "structured" | "onUsage" | "trace"> & { guard?: GuardPolicy | null; signal: AbortSignal }
+): Promise<Completion> {
+  const out: Completion = { text: "", finish_reason: "stop", model: null, blocked: false, guard: [] };
+
+  const run = async (r: Omit<ChatRequest, "model">) => {
+    const res = await collect(env, upstreams, r, opts.signal, opts.trace);
+    if (res.usage) out.usage = addUsage(out.usage, res.usage);
+    out.model = res.report.model;
+    out.finish_reason = res.finish_reason;
+    const policy = opts.guard;
+    if (!policy?.output) return res.text;
+    const g = new OutputGuard(policy, (e) => out.guard.push(e));
+    const text = g.push(res.text) + g.flush();
+    out.blocked ||= g.blocked;
+    return text;
+  };
+
+  try {
+    if (opts.knowledge) {
+      try {
+        const found = await augmentWithKnowledge(env, opts.knowledge, req.messages, opts.signal);
+        req = { ...req, messages: found.messages };
+      } catch (e) {
+        if (opts.signal.aborted) throw e;
+      }
+    }
+    const fitted = await fitContext(env, upstreams, req, opts.signal);
+    if (fitted.report.usage) out.usage = addUsage(out.usage, fitted.report.usage);
+    req = { ...req, messages: fitted.messages };
+
+    out.text = await run(req);
+    if (opts.structured && !out.blocked) {
+      const format = opts.structured;
+      const resolved = await resolveStructured(format, req.messages, out.text, (messages) => run({ ...req, messages }));
+      out.text = resolved.text;
+      out.structured = resolved.result;
+    }
+    return out;
+  } finally {
+    if (out.usage) await opts.onUsage?.(priceUsage(env, out.model, out.usage));
+  }
+}
+
+/**
+ * stream: false 的结构化输出：生成 + 校验 / 修复后直接返回 JSON 对象。
+ * 仍不符合 schema 时 422（带 errors 与原文）；上游失败 502，超时 504。
+ */
+export async function completeStructured(
+  env: Env,
+  upstreams: Upstream[],
+  req: Omit<ChatRequest, "model">,
+  format: StructuredFormat,
+  opts: Pick<StreamOptions, "knowledge" | "onUsage" | "trace"> & { guard?: GuardPolicy | null } = {}
+): Promise<Response> {
+  const ctl = new AbortController();
+  const timeoutHandle = setTimeout(() => ctl.abort("request-timeout"), REQUEST_TIMEOUT_MS);
+  try {
+    const out = await complete(env, upstreams, req, { ...opts, structured: format, signal: ctl.signal });
+    const result = out.structured;
+    if (out.blocked || !result) return blockedResponse(out.guard);
+    if (result.valid) return json(result.data);
+    return json(
+      {
+        error: "Reply does not match the schema",
+        code: "schema_mismatch",
+        errors: result.errors,
+        text: out.text.slice(0, 4000),
+      },
+      422
+    );
+  } catch (e) {
+    const err = describeError(e, ctl.signal.aborted);
+    return json({ error: err.message.slice(0, 800), code: err.code, retryable: err.retryable }, err.code === "timeout" ? 504 : 502);
+  } finally {
+    clearTimeout(timeoutHandle);
+  }
+}
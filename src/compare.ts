@@ -0,0 +1,411 @@
+/**
+ * 多模型对比：同一个 prompt 并行发给 N 个模型 / 预设，在一个 SSE 连接里按 index 复用
+ * - POST /api/compare                 {messages, candidates: [{model? | preset?, provider?, label?}]}（或简写 models / presets）
+ *   事件：compare（开头，各 choice 的 label / 上游）、text / status / tool / citation / guard / error（带 index）、
+ *   result（每个 choice 结束：首字延迟、总耗时、tokens、费用）、done（全部结束）
+ * - POST /api/compare/:id/vote        {index, note?}：选出最好的回答（需要 VOTES）；
+ *   匿名发起的对比要带 x-compare-token（对比响应头里给的），否则只有发起的 key 或 admin 能投
+ * - GET  /api/admin/compare/votes     已投票的对比记录 + 按 label 汇总的胜场
+ * 对比记录（prompt、各回答与指标）在 VOTES（KV）里保留 7 天，投票后长期保留
+ */
+
+import { contentText, parseMessage, resolveAttachments } from "./attachments";
+import { type Principal, isAdmin, sha256Hex } from "./auth";
+import {
+  type StreamError,
+  type UpstreamReport,
+  REQUEST_TIMEOUT_MS,
+  describeError,
+  generate,
+  prepareChat,
+  systemPrompt,
+} from "./chat";
+import { estimateTokens, messageTokens } from "./context";
+import { type GuardPolicy, OutputGuard, blockedResponse, guardInput, loadGuard } from "./guard";
+import { type Preset, getPreset } from "./presets";
+import { type ChatRequest, type StreamSink, type TokenUsage, PROVIDER_IDS, isProviderId } from "./providers";
+import { type StreamEventName, SSE_HEADERS, json, sseEvent } from "./sse";
+import type { Trace } from "./trace";
+import type { ChatMessage, Env } from "./types";
+import type { Upstream } from "./upstreams";
+import { type UsageRecord, priceUsage } from "./usage";
+
+const MIN_CANDIDATES = 2;
+const MAX_CANDIDATES = 4;
+const HEARTBEAT_MS = 8000;
+const PREFIX = "cmp:";
+// 未投票的记录保留 7 天
+const UNVOTED_TTL_S = 7 * 24 * 3600;
+const MAX_STORED_ANSWER = 20_000;
+const MAX_REVIEW_RECORDS = 200;
+
+/** 一个参赛者：模型或预设（模型按临时预设处理，复用 prepareChat 的上游筛选） */
+interface Candidate {
+  label: string;
+  upstreams: Upstream[];
+  req: Omit<ChatRequest, "model">;
+}
+
+/** 每个 choice 结束时的指标 */
+export interface CompareResult {
+  index: number;
+  label: string;
+  provider: string | null;
+  model: string | null;
+  finish_reason: string;
+  /** 首个正文增量的延迟；没有正文时为 null */
+  ttft_ms: number | null;
+  total_ms: number;
+  input_tokens: number;
+  output_tokens: number;
+  /** 上游没报告用量时按字符估算 */
+  usage_estimated: boolean;
+  cost_usd: number | null;
+  error?: StreamError;
+}
+
+/** VOTES 里的对比记录 */
+interface ComparisonRecord {
+  id: string;
+  owner: string | null;
+  /** 投票 token 的 SHA-256；owner 为 null 时凭它投票 */
+  vote_token?: string;
+  created_at: number;
+  prompt: string;
+  choices: (CompareResult & { text: string })[];
+  winner?: number;
+  note?: string;
+  voted_at?: number;
+}
+
+const recordKey = (id: string) => PREFIX + id;
+
+/** body.candidates，或 models / presets 简写（?models=a,b 亦可） */
+async function parseCandidates(env: Env, url: URL, body: any): Promise<{ label: string; preset: Preset }[] | string> {
+  const list = (v: unknown) => (typeof v === "string" ? v.split(",").map((s) => s.trim()).filter(Boolean) : v);
+  const models = list(url.searchParams.get("models") ?? body?.models) ?? [];
+  const presets = list(url.searchParams.get("presets") ?? body?.presets) ?? [];
+  if (!Array.isArray(models) || !Array.isArray(presets)) return "'models' and 'presets' must be arrays of strings";
+  const raw: unknown = body?.candidates ?? [
+    ...models.map((model: unknown) => ({ model })),
+    ...presets.map((preset: unknown) => ({ preset })),
+  ];
+  if (!Array.isArray(raw) || raw.length < MIN_CANDIDATES || raw.length > MAX_CANDIDATES) {
+    return `Between ${MIN_CANDIDATES} and ${MAX_CANDIDATES} candidates are required`;
+  }
+
+  const out: { label: string; preset: Preset }[] = [];
+  for (const [i, c] of raw.entries()) {
+    if (!c || typeof c !== "object") return `candidates[${i}] must be an object`;
+    for (const f of ["model", "preset", "provider", "label"]) {
+      if (c[f] !== undefined && (typeof c[f] !== "string" || !c[f].trim())) return `candidates[${i}].${f} must be a non-empty string`;
+    }
+    if (!c.model && !c.preset && !c.provider) return `candidates[${i}] needs a model, preset or provider`;
+    if (c.provider && !isProviderId(c.provider)) return `candidates[${i}].provider must be one of ${PROVIDER_IDS.join(", ")}`;
+    let preset: Preset = { name: "", updated_at: 0 };
+    if (c.preset) {
+      if (!env.PRESETS) return "Presets are not configured";
+      const found = await getPreset(env, c.preset);
+      if (!found) return `Unknown preset: ${c.preset}`;
+      preset = found;
+    }
+    if (c.model) preset = { ...preset, model: c.model.trim() };
+    if (c.provider) preset = { ...preset, provider: c.provider };
+    let label = (c.label || c.preset || c.model || c.provider).trim().slice(0, 100);
+    // 同名时加序号，方便投票汇总
+    if (out.some((o) => o.label === label)) label = `${label} #${i + 1}`;
+    out.push({ label, preset: { ...preset, name: preset.name || label } });
+  }
+  return out;
+}
+
+/** 处理 /api/compare、/api/compare/:id/vote 与 /api/admin/compare/votes；路径不匹配时返回 null */
+export async function handleCompare(
+  request: Request,
+  env: Env,
+  url: URL,
+  principal: Principal | null,
+  onUsage?: (usage: UsageRecord) => Promise<void> | void,
+  trace?: Trace
+): Promise<Response | null> {
+  if (url.pathname === "/api/admin/compare/votes") return listVotes(request, env);
+  const vote = url.pathname.match(/^\/api\/compare\/([^/]+)\/vote$/);
+  if (vote) return castVote(request, env, vote[1], principal);
+  if (url.pathname !== "/api/compare") return null;
+  if (request.method !== "POST") return json({ error: "Method not allowed" }, 405);
+
+  const body: any = await request.json().catch(() => null);
+  if (!body || typeof body !== "object") return json({ error: "Request body must be a JSON object" }, 400);
+  const parsed = await parseCandidates(env, url, body);
+  if (typeof parsed === "string") return json({ error: parsed }, 400);
+
+  const raw = Array.isArray(body.messages) ? body.messages.map((m: any) => parseMessage(m)) : [];
+  if (!raw.length) return json({ error: "'messages' must be a non-empty array" }, 400);
+  if (raw.some((m: ChatMessage | null) => !m)) return json({ error: "Invalid messages" }, 400);
+
+  // 守卫与附件只做一次，各参赛者共用
+  const policy = loadGuard(env);
+  const guarded = await guardInput(env, policy, raw);
+  if (guarded.blocked) return blockedResponse(guarded.events);
+  const resolved = await resolveAttachments(env, guarded.messages, principal, { policy, events: guarded.events });
+  if (resolved instanceof Response) return resolved;
+
+  const candidates: Candidate[] = [];
+  for (const { label, preset } of parsed) {
+    const messages = resolved.some((m) => m.role === "system")
+      ? resolved
+      : [{ role: "system" as const, content: systemPrompt(env, preset) }, ...resolved];
+    const prepared = prepareChat(url, env, {}, messages, preset);
+    if (prepared instanceof Response) {
+      const err: any = await prepared.json().catch(() => ({}));
+      return json({ ...err, candidate: label }, prepared.status);
+    }
+    candidates.push({ label, upstreams: prepared.upstreams, req: prepared.req });
+  }
+
+  const id = crypto.randomUUID();
+  const voteToken = crypto.randomUUID().replace(/-/g, "");
+  const lastUser = [...guarded.messages].reverse().find((m) => m.role === "user");
+  const prompt = lastUser ? contentText(lastUser.content).slice(0, 2000) : "";
+  const stream = compareStream(env, id, candidates, {
+    guard: policy,
+    trace,
+    onUsage,
+    onDone: async (choices) => {
+      if (!env.VOTES) return;
+      const record: ComparisonRecord = {
+        id,
+        owner: principal?.id ?? null,
+        vote_token: await sha256Hex(voteToken),
+        created_at: Date.now(),
+        prompt,
+        choices,
+      };
+      await env.VOTES.put(recordKey(id), JSON.stringify(record), {
+        expirationTtl: UNVOTED_TTL_S,
+        metadata: { voted: false },
+      });
+    },
+  });
+  return new Response(stream, {
+    headers: { ...SSE_HEADERS, "x-compare-id": id, ...(env.VOTES ? { "x-compare-token": voteToken } : {}) },
+  });
+}
+
+function compareStream(
+  env: Env,
+  id: string,
+  candidates: Candidate[],
+  opts: {
+    /** 输出守卫：每个 choice 各自过滤，记录里保存的也是过滤后的文本 */
+    guard?: GuardPolicy | null;
+    trace?: Trace;
+    onUsage?(usage: UsageRecord): Promise<void> | void;
+    onDone(choices: (CompareResult & { text: string })[]): Promise<void>;
+  }
+): ReadableStream<Uint8Array> {
+  const ctl = new AbortController();
+  // 连接已关闭（正常结束或客户端断开）：不再写入
+  let closed = false;
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      let lastEmit = Date.now();
+      const emit = (event: StreamEventName, data: unknown) => {
+        if (closed) return;
+        lastEmit = Date.now();
+        try {
+          controller.enqueue(sseEvent(event, data));
+        } catch {
+          // 客户端已断开：各 choice 照常收尾，记录照常保存
+          closed = true;
+        }
+      };
+
+      emit("compare", {
+        id,
+        choices: candidates.map((c, index) => ({
+          index,
+          label: c.label,
+          provider: c.upstreams[0]?.provider.id ?? null,
+          model: c.upstreams[0]?.model ?? null,
+        })),
+      });
+
+      const timeoutHandle = setTimeout(() => ctl.abort("request-timeout"), REQUEST_TIMEOUT_MS);
+      // 心跳不带 index：所有 choice 都没有新输出时才发
+      const heartbeat = setInterval(() => {
+        if (Date.now() - lastEmit > HEARTBEAT_MS) emit("status", { kind: "heartbeat", message: "（仍在生成，请稍候…）" });
+      }, HEARTBEAT_MS);
+
+      const run = async (c: Candidate, index: number) => {
+        const started = Date.now();
+        const report: UpstreamReport = { name: null, provider: null, model: null, attempts: [] };
+        let ttft: number | null = null;
+        let text = "";
+        let usage: TokenUsage | undefined;
+        let finishReason = "stop";
+        let error: StreamError | undefined;
+        // 每个 choice 单独中止：输出 block 只停这一个
+        const own = new AbortController();
+        const onAbort = () => own.abort(ctl.signal.reason);
+        ctl.signal.addEventListener("abort", onAbort);
+        const policy = opts.guard;
+        const outGuard = policy?.output ? new OutputGuard(policy, (e) => emit("guard", { index, ...e })) : null;
+        const emitText = (t: string) => {
+          if (!t) return;
+          text += t;
+          emit("text", { index, delta: t });
+        };
+
+        const sink: StreamSink = {
+          text: (t) => {
+            if (!t) return;
+            ttft ??= Date.now() - started;
+            if (!outGuard) return emitText(t);
+            emitText(outGuard.push(t));
+            if (outGuard.blocked && !own.signal.aborted) {
+              finishReason = "content_filter";
+              own.abort("content-blocked");
+            }
+          },
+          status: (message) => emit("status", { index, kind: "progress", message }),
+          debug: () => {},
+          usage: (u) => {
+            usage = u;
+          },
+          finish: (reason) => {
+            finishReason = reason;
+          },
+          tool: (event) => emit("tool", { index, ...event }),
+          citation: (citation) => emit("citation", { index, ...citation }),
+        };
+
+        try {
+          await generate(env, c.upstreams, c.req, sink, own.signal, report, opts.trace);
+        } catch (e) {
+          if (!outGuard?.blocked) {
+            error = describeError(e, ctl.signal.aborted);
+            finishReason = "error";
+            emit("error", { index, ...error, message: error.message.slice(0, 800) });
+          }
+        } finally {
+          ctl.signal.removeEventListener("abort", onAbort);
+        }
+        if (outGuard) {
+          emitText(outGuard.flush());
+          if (outGuard.blocked) finishReason = "content_filter";
+        }
+
+        const model = report.model ?? c.upstreams[0]?.model ?? null;
+        const tokens: TokenUsage = usage ?? {
+          input_tokens: c.req.messages.reduce((n, m) => n + messageTokens(m), 0),
+          output_tokens: estimateTokens(text),
+        };
+        const priced = priceUsage(env, model, tokens);
+        if (usage) await opts.onUsage?.(priced);
+
+        const result: CompareResult = {
+          index,
+          label: c.label,
+          provider: report.provider ?? c.upstreams[0]?.provider.id ?? null,
+          model,
+          finish_reason: finishReason,
+          ttft_ms: ttft,
+          total_ms: Date.now() - started,
+          input_tokens: tokens.input_tokens,
+          output_tokens: tokens.output_tokens,
+          usage_estimated: !usage,
+          cost_usd: usage ? priced.cost_usd : null,
+          ...(error ? { error } : {}),
+        };
+        emit("result", result);
+        return { ...result, text: text.slice(0, MAX_STORED_ANSWER) };
+      };
+
+      (async () => {
+        try {
+          const choices = await Promise.all(candidates.map(run));
+          try {
+            await opts.onDone(choices);
+          } catch {
+            // 记录写入失败不影响已输出的回答
+          }
+          emit("done", { id, results: choices.map(({ text, ...r }) => r), ...(opts.trace ? { trace_id: opts.trace.id } : {}) });
+        } finally {
+          clearInterval(heartbeat);
+          clearTimeout(timeoutHandle);
+          if (!closed) {
+            closed = true;
+            controller.close();
+          }
+        }
+      })().catch((e) => opts.trace?.log("error", { stage: "compare", message: String(e) }, "error"));
+    },
+    cancel() {
+      closed = true;
+      ctl.abort("client-disconnected");
+    },
+  });
+}
+
+async function castVote(request: Request, env: Env, id: string, principal: Principal | null): Promise<Response> {
+  if (request.method !== "POST") return json({ error: "Method not allowed" }, 405);
+  if (!env.VOTES) return json({ error: "Voting is not configured" }, 501);
+  const record = await env.VOTES.get<ComparisonRecord>(recordKey(id), "json");
+  if (!record) return json({ error: "Comparison not found" }, 404);
+  // 有 owner 时只认发起的 key；匿名发起的只认 x-compare-token；admin 都可以
+  const token = request.headers.get("x-compare-token");
+  const allowed =
+    record.owner !== null
+      ? record.owner === principal?.id
+      : !!token && !!record.vote_token && (await sha256Hex(token)) === record.vote_token;
+  if (!allowed && !(await isAdmin(request, env, principal))) return json({ error: "Forbidden" }, 403);
+  const body: any = await request.json().catch(() => null);
+  const index = body?.index;
+  if (!Number.isInteger(index) || !record.choices.some((c) => c.index === index)) {
+    return json({ error: `'index' must be one of ${record.choices.map((c) => c.index).join(", ")}` }, 400);
+  }
+  if (body.note !== undefined && typeof body.note !== "string") return json({ error: "'note' must be a string" }, 400);
+
+  // 再次投票覆盖上一次；投过票的记录不再过期
+  const voted: ComparisonRecord = {
+    ...record,
+    winner: index,
+    voted_at: Date.now(),
+    ...(body.note ? { note: body.note.slice(0, 1000) } : {}),
+  };
+  await env.VOTES.put(recordKey(id), JSON.stringify(voted), { metadata: { voted: true, voted_at: voted.voted_at } });
+  return json({ id, winner: index, label: record.choices.find((c) => c.index === index)!.label });
+}
+
+/** 最近的已投票记录（最多 MAX_REVIEW_RECORDS 条）与按 label 汇总的胜场 */
+async function listVotes(request: Request, env: Env): Promise<Response> {
+  if (request.method !== "GET") return json({ error: "Method not allowed" }, 405);
+  if (!env.VOTES) return json({ error: "Voting is not configured" }, 501);
+  // 按 metadata 里的投票时间挑出最近的，再读正文
+  const keys: { name: string; voted_at: number }[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await env.VOTES.list<{ voted: boolean; voted_at?: number }>({ prefix: PREFIX, cursor });
+    for (const k of page.keys) if (k.metadata?.voted) keys.push({ name: k.name, voted_at: k.metadata.voted_at ?? 0 });
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  keys.sort((a, b) => b.voted_at - a.voted_at);
+
+  const records = (
+    await Promise.all(keys.slice(0, MAX_REVIEW_RECORDS).map((k) => env.VOTES!.get<ComparisonRecord>(k.name, "json")))
+  )
+    .filter((r): r is ComparisonRecord => !!r && r.winner !== undefined)
+    .map(({ vote_token, ...r }) => r);
+
+  const tally = new Map<string, { label: string; wins: number; runs: number }>();
+  for (const r of records) {
+    for (const c of r.choices) {
+      const t = tally.get(c.label) ?? { label: c.label, wins: 0, runs: 0 };
+      t.runs++;
+      if (c.index === r.winner) t.wins++;
+      tally.set(c.label, t);
+    }
+  }
+  return json({ data: records, tally: [...tally.values()].sort((a, b) => b.wins - a.wins || a.label.localeCompare(b.label)) });
+}
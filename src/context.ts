@@ -0,0 +1,169 @@
+/**
+ * 上下文窗口管理：按模型估算 token，超预算时丢弃或摘要最早的轮次
+ * - system prompt 与最近 CONTEXT_KEEP_RECENT 条消息始终保留
+ * - CONTEXT_STRATEGY=summarize（默认）：被裁掉的轮次压缩成一条 system 摘要；失败时退化为 drop
+ * - 估算是启发式的（CJK 约 1 字 1 token，其余约 4 字符 1 token），只求不超窗口
+ */
+
+import { contentText } from "./attachments";
+import { modelCapabilities } from "./models";
+import { type ChatRequest, type TokenUsage, addUsage } from "./providers";
+import type { ChatMessage, Env } from "./types";
+import type { Upstream } from "./upstreams";
+
+const DEFAULT_KEEP_RECENT = 4;
+const PER_MESSAGE_OVERHEAD = 4;
+const SAFETY_MARGIN = 0.9;
+const SUMMARY_MAX_TOKENS = 512;
+const SUMMARY_INPUT_CHARS = 24000;
+// 附件按固定值粗估（高分辨率图片约 765，PDF 视页数而定）
+const IMAGE_TOKENS = 765;
+const FILE_TOKENS = 2000;
+
+/** 上下文裁剪报告（流开头的 context chunk） */
+export interface ContextReport {
+  budget: number;
+  tokens_before: number;
+  tokens_after: number;
+  trimmed_messages: number;
+  trimmed_tokens: number;
+  summarized: boolean;
+  /** 必保留部分本身已超预算 */
+  over_budget: boolean;
+  /** 摘要请求的用量（含失败后换上游的尝试），调用方要计入本次请求 */
+  usage?: TokenUsage;
+}
+
+/** 窗口大小见 models.ts 的能力表 */
+export function contextWindow(model: string): number {
+  return modelCapabilities(model).context_window;
+}
+
+const CJK = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uff00-\uffef]/g;
+
+export function estimateTokens(text: string): number {
+  const cjk = text.match(CJK)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+export function messageTokens(m: ChatMessage): number {
+  if (typeof m.content === "string") return estimateTokens(m.content) + PER_MESSAGE_OVERHEAD;
+  let n = PER_MESSAGE_OVERHEAD;
+  for (const p of m.content) {
+    n += p.type === "input_text" ? estimateTokens(p.text) : p.type === "input_image" ? IMAGE_TOKENS : FILE_TOKENS;
+  }
+  return n;
+}
+
+/** 预算 = CONTEXT_BUDGET_TOKENS 或 (窗口 - 输出上限) × 安全系数 */
+export function contextBudget(env: Env, model: string, maxOutput: number): number {
+  const fixed = Number(env.CONTEXT_BUDGET_TOKENS);
+  if (fixed > 0) return fixed;
+  return Math.floor((contextWindow(model) - maxOutput) * SAFETY_MARGIN);
+}
+
+/**
+ * 返回裁剪后的 messages 与报告；未超预算时原样返回（report.trimmed_messages = 0）。
+ */
+export async function fitContext(
+  env: Env,
+  upstreams: Upstream[],
+  req: Omit<ChatRequest, "model">,
+  signal?: AbortSignal
+): Promise<{ messages: ChatMessage[]; report: ContextReport }> {
+  const model = upstreams[0]?.model ?? "";
+  const budget = contextBudget(env, model, req.max_output_tokens);
+  const keepRecent =
+    Number(env.CONTEXT_KEEP_RECENT) > 0 ? Number(env.CONTEXT_KEEP_RECENT) : DEFAULT_KEEP_RECENT;
+
+  const total = (ms: ChatMessage[]) => ms.reduce((n, m) => n + messageTokens(m), 0);
+  const before = total(req.messages);
+  const report: ContextReport = {
+    budget,
+    tokens_before: before,
+    tokens_after: before,
+    trimmed_messages: 0,
+    trimmed_tokens: 0,
+    summarized: false,
+    over_budget: false,
+  };
+  if (before <= budget) return { messages: req.messages, report };
+
+  // 开头连续的 system 消息视为 system prompt
+  let head = 0;
+  while (head < req.messages.length && req.messages[head].role === "system") head++;
+  const system = req.messages.slice(0, head);
+  const rest = req.messages.slice(head);
+  const recentStart = Math.max(0, rest.length - keepRecent);
+
+  // 从最早的轮次开始丢，直到放得下；保留部分不以 assistant 开头
+  let cut = 0;
+  let used = before;
+  while (cut < recentStart && used > budget) used -= messageTokens(rest[cut++]);
+  while (cut < recentStart && rest[cut].role === "assistant") used -= messageTokens(rest[cut++]);
+
+  const dropped = rest.slice(0, cut);
+  let kept = [...system, ...rest.slice(cut)];
+
+  if (dropped.length && String(env.CONTEXT_STRATEGY || "summarize").toLowerCase() === "summarize") {
+    const { text: summary, usage } = await summarize(upstreams, req, dropped, signal).catch(() => ({ text: "", usage: undefined }));
+    if (usage) report.usage = usage;
+    if (summary) {
+      kept = [
+        ...system,
+        { role: "system", content: `Summary of ${dropped.length} earlier messages:\n${summary}` },
+        ...rest.slice(cut),
+      ];
+      report.summarized = true;
+    }
+  }
+
+  report.tokens_after = total(kept);
+  report.trimmed_messages = dropped.length;
+  report.trimmed_tokens = total(dropped);
+  report.over_budget = report.tokens_after > budget;
+  return { messages: kept, report };
+}
+
+/** 用上游非流式接口把被裁掉的轮次压缩成摘要；依次尝试各上游，返回摘要与累计用量 */
+async function summarize(
+  upstreams: Upstream[],
+  req: Omit<ChatRequest, "model">,
+  dropped: ChatMessage[],
+  signal?: AbortSignal
+): Promise<{ text: string; usage?: TokenUsage }> {
+  const transcript = dropped
+    .map((m) => `${m.role.toUpperCase()}: ${contentText(m.content)}`)
+    .join("\n\n")
+    .slice(-SUMMARY_INPUT_CHARS);
+  // 摘要是纯文本：不带本轮的 JSON Schema 和函数工具
+  const { response_format: _schema, toolbox: _toolbox, ...base } = req;
+  let usage: TokenUsage | undefined;
+
+  for (const up of upstreams) {
+    try {
+      const out = await up.provider.complete(
+        {
+          ...base,
+          model: up.model,
+          tools: false,
+          max_output_tokens: SUMMARY_MAX_TOKENS,
+          messages: [
+            {
+              role: "system",
+              content:
+                "Summarize the following earlier part of a conversation in a few bullet points. Keep facts, decisions, names, numbers and open questions. Use the conversation's language.",
+            },
+            { role: "user", content: transcript },
+          ],
+        },
+        signal
+      );
+      if (out.usage) usage = addUsage(usage, out.usage);
+      if (out.text.trim()) return { text: out.text.trim(), usage };
+    } catch {
+      if (signal?.aborted) return { text: "", usage };
+    }
+  }
+  return { text: "", usage };
+}
@@ -0,0 +1,379 @@
+/**
+ * 会话持久化：每个会话一个 Durable Object（ConversationStore）
+ * - POST   /api/conversations                 新建（可带 title / 初始 messages）
+ * - GET    /api/conversations/:id             读取（整棵消息树 + 当前分支末端 current_id）
+ * - PATCH  /api/conversations/:id             切换分支 { current_id }
+ * - DELETE /api/conversations/:id             删除
+ * - GET    /api/conversations/:id/export      导出（?format=markdown|json|jsonl，见 transcript.ts）
+ * - POST   /api/conversations/import          导入 Markdown / JSON / JSONL 为新会话
+ * - POST   /api/conversations/:id/messages    追加用户消息并流式回复；回复在 [DONE] 前写回
+ *   parent_id 指定接在哪条消息之后（编辑 = 接在原消息的 parent 下），只给用户消息的 parent_id 时重新生成回复；
+ *   上游只收到从根到该消息的路径。响应头 x-message-id / x-reply-id 为本轮用户消息与回复的 ID
+ *   content 可为字符串或内容片段数组（附件按 attachment_id 引用，存储时不内联文件内容）
+ *   ?preset=<name> 按预设生成（见 presets.ts），?collection=<name> 检索知识库（见 knowledge.ts）；启用内容守卫时保存脱敏后的消息（见 guard.ts）
+ *   绑定了 STREAMS 且带 ?resumable=1 时可断线续传（x-response-id，见 resume.ts）；断开后回复照常写回
+ * 启用鉴权时会话属于创建它的 key：其他 key（admin 除外）一律 404；未启用鉴权时创建的会话不限
+ * 存储：meta 一条 + 每条消息一个 key（msg:000001…），避免单值过大；消息带 id / parent_id 组成树，
+ * 同一 parent 下的多条即分支；旧数据没有 id 时按存储顺序视为一条链
+ */
+
+import { DurableObject } from "cloudflare:workers";
+import { contentText, parseMessage, resolveAttachments } from "./attachments";
+import type { Principal } from "./auth";
+import { type StreamOptions, prepareChat, streamChat, systemPrompt } from "./chat";
+import { type GuardEvent, blockedResponse, guardInput, loadGuard } from "./guard";
+import { knowledgeQuery } from "./knowledge";
+import { resolvePreset } from "./presets";
+import { openResumable, resumeHeaders } from "./resume";
+import { SSE_HEADERS, json } from "./sse";
+import type { Trace } from "./trace";
+import { exportFormat, exportResponse, fromConversation, readImport } from "./transcript";
+import type { ChatMessage, Conversation, Env, StoredMessage } from "./types";
+
+const MAX_MESSAGE_CHARS = 100_000;
+const TITLE_CHARS = 60;
+
+interface ConversationMeta {
+  id: string;
+  title: string;
+  created_at: number;
+  updated_at: number;
+  count: number;
+  /** 创建会话的 key（Principal.id）；未启用鉴权或旧数据为 null / 不存在 */
+  owner?: string | null;
+  /** 当前分支末端；旧数据没有这个字段，按最后一条消息处理 */
+  current_id?: string | null;
+}
+
+/** 新消息；id 为 startTurn 预留的回复 ID 时沿用 */
+export type NewMessage = Pick<StoredMessage, "role" | "content" | "citations"> & { id?: string };
+
+const msgKey = (i: number) => `msg:${String(i).padStart(6, "0")}`;
+const msgId = (i: number) => `m${i}`;
+const seqOf = (id: string) => (/^m[1-9]\d{0,5}$/.test(id) ? Number(id.slice(1)) : null);
+
+/** 从根到 id 的路径；id 为 null 时为空 */
+export function branchPath(messages: StoredMessage[], id: string | null): StoredMessage[] {
+  const byId = new Map(messages.map((m) => [m.id, m]));
+  const path: StoredMessage[] = [];
+  for (let m = id ? byId.get(id) : undefined; m; m = m.parent_id ? byId.get(m.parent_id) : undefined) {
+    path.unshift(m);
+  }
+  return path;
+}
+
+export class ConversationStore extends DurableObject<Env> {
+  async create(init: { id: string; owner: string | null; title?: string; messages?: NewMessage[] }): Promise<Conversation> {
+    const now = Date.now();
+    const meta: ConversationMeta = {
+      id: init.id,
+      owner: init.owner,
+      title: init.title || "",
+      created_at: now,
+      updated_at: now,
+      count: 0,
+      current_id: null,
+    };
+    await this.ctx.storage.deleteAll();
+    await this.ctx.storage.put("meta", meta);
+    if (init.messages?.length) await this.append(init.messages, null);
+    return (await this.get())!;
+  }
+
+  async get(): Promise<Conversation | null> {
+    const meta = await this.ctx.storage.get<ConversationMeta>("meta");
+    if (!meta) return null;
+    const messages = await this.messages();
+    return {
+      id: meta.id,
+      title: meta.title,
+      created_at: meta.created_at,
+      updated_at: meta.updated_at,
+      current_id: meta.current_id !== undefined ? meta.current_id : messages[messages.length - 1]?.id ?? null,
+      messages,
+    };
+  }
+
+  /** 会话的 owner；会话不存在时返回 undefined */
+  async owner(): Promise<string | null | undefined> {
+    const meta = await this.ctx.storage.get<ConversationMeta>("meta");
+    return meta ? meta.owner ?? null : undefined;
+  }
+
+  /** 全部消息；旧数据（没有 id）按存储顺序串成一条链 */
+  private async messages(): Promise<StoredMessage[]> {
+    const stored = await this.ctx.storage.list<StoredMessage>({ prefix: "msg:" });
+    const out: StoredMessage[] = [];
+    let prev: string | null = null;
+    for (const [key, m] of stored) {
+      const msg: StoredMessage = m.id ? m : { ...m, id: msgId(Number(key.slice(4))), parent_id: prev };
+      out.push(msg);
+      prev = msg.id;
+    }
+    return out;
+  }
+
+  /**
+   * 追加消息：第一条接在 parentId 下（undefined 时接在当前分支末端），其余依次相接，
+   * 最后一条成为当前分支末端。会话不存在时返回 null。
+   */
+  async append(messages: NewMessage[], parentId?: string | null): Promise<StoredMessage[] | null> {
+    const meta = await this.ctx.storage.get<ConversationMeta>("meta");
+    if (!meta) return null;
+
+    const now = Date.now();
+    let parent = parentId !== undefined ? parentId : (await this.get())!.current_id;
+    const entries: Record<string, StoredMessage> = {};
+    const out: StoredMessage[] = [];
+    for (const m of messages) {
+      const seq = (m.id && seqOf(m.id)) || ++meta.count;
+      const stored: StoredMessage = {
+        id: msgId(seq),
+        parent_id: parent,
+        role: m.role,
+        content: m.content,
+        ...(m.citations?.length ? { citations: m.citations } : {}),
+        created_at: now,
+      };
+      entries[msgKey(seq)] = stored;
+      out.push(stored);
+      parent = stored.id;
+    }
+    // 无标题时用第一条用户消息
+    if (!meta.title) {
+      const first = messages.find((m) => m.role === "user");
+      if (first) meta.title = contentText(first.content).slice(0, TITLE_CHARS);
+    }
+    meta.current_id = parent;
+    meta.updated_at = now;
+    await this.ctx.storage.put({ ...entries, meta });
+    return out;
+  }
+
+  /**
+   * 开始一轮对话：user 不为 null 时接在 parentId 下追加；为 null 时重新生成 parentId 这条用户消息的回复。
+   * 预留回复 ID（生成结束后由 append 按这个 ID 写入）；会话不存在时返回 null。
+   */
+  async startTurn(
+    user: NewMessage | null,
+    parentId: string | null
+  ): Promise<{ user_id: string; reply_id: string } | null> {
+    let userId: string | null = parentId;
+    if (user) userId = (await this.append([user], parentId))?.[0].id ?? null;
+    else if (parentId) userId = await this.select(parentId, false);
+    const meta = await this.ctx.storage.get<ConversationMeta>("meta");
+    if (!meta || !userId) return null;
+    const reply_id = msgId(++meta.count);
+    await this.ctx.storage.put("meta", meta);
+    return { user_id: userId, reply_id };
+  }
+
+  /**
+   * 切换分支：descend 时从 id 沿最新的子消息走到末端。
+   * 返回新的 current_id；消息不存在时返回 null。
+   */
+  async select(id: string, descend = true): Promise<string | null> {
+    const meta = await this.ctx.storage.get<ConversationMeta>("meta");
+    const messages = await this.messages();
+    if (!meta || !messages.some((m) => m.id === id)) return null;
+    let current = id;
+    for (;;) {
+      const children = descend ? messages.filter((m) => m.parent_id === current) : [];
+      if (!children.length) break;
+      current = children[children.length - 1].id;
+    }
+    meta.current_id = current;
+    await this.ctx.storage.put("meta", meta);
+    return current;
+  }
+
+  async destroy(): Promise<boolean> {
+    const exists = (await this.ctx.storage.get("meta")) !== undefined;
+    await this.ctx.storage.deleteAll();
+    return exists;
+  }
+}
+
+function stubFor(env: Env, id: string) {
+  try {
+    return env.CONVERSATIONS!.get(env.CONVERSATIONS!.idFromString(id));
+  } catch {
+    // 非法 id（不是 newUniqueId 生成的）
+    return null;
+  }
+}
+
+/** 处理 /api/conversations/*；路径不匹配时返回 null */
+export async function handleConversations(
+  request: Request,
+  env: Env,
+  url: URL,
+  principal: Principal | null,
+  onUsage?: StreamOptions["onUsage"],
+  ctx?: ExecutionContext,
+  trace?: Trace
+): Promise<Response | null> {
+  const m = url.pathname.match(/^\/api\/conversations(?:\/([^/]+)(\/messages|\/export)?)?\/?$/);
+  if (!m) return null;
+  if (!env.CONVERSATIONS) return json({ error: "Conversations are not configured" }, 501);
+
+  const [, id, subPath] = m;
+
+  // 新建
+  if (!id) {
+    if (request.method !== "POST") return json({ error: "Method not allowed" }, 405);
+    const body: any = await request.json().catch(() => ({}));
+    const raw = body?.messages ?? [];
+    const messages = Array.isArray(raw) ? raw.map((x) => parseMessage(x, MAX_MESSAGE_CHARS)) : [null];
+    if (messages.some((x) => !x)) return json({ error: "Invalid messages" }, 400);
+    const doId = env.CONVERSATIONS.newUniqueId();
+    const conv = await env.CONVERSATIONS.get(doId).create({
+      id: doId.toString(),
+      owner: principal?.id ?? null,
+      title: typeof body?.title === "string" ? body.title.slice(0, 200) : undefined,
+      messages: messages as ChatMessage[],
+    });
+    return json(conv, 201);
+  }
+
+  // 导入为新会话（保留引用来源；时间戳按导入时间）
+  if (id === "import" && !subPath) {
+    const t = await readImport(request, url);
+    if (t instanceof Response) return t;
+    const doId = env.CONVERSATIONS.newUniqueId();
+    const conv = await env.CONVERSATIONS.get(doId).create({
+      id: doId.toString(),
+      owner: principal?.id ?? null,
+      title: t.title || undefined,
+      messages: t.messages.map(({ role, content, citations }) => ({ role, content, citations })),
+    });
+    return json(conv, 201);
+  }
+
+  const stub = stubFor(env, id);
+  const owner = stub ? await stub.owner() : undefined;
+  if (!stub || owner === undefined) return json({ error: "Conversation not found" }, 404);
+  // 别人的会话：按不存在处理，不暴露 id 是否有效
+  if (owner !== null && owner !== (principal?.id ?? null) && !principal?.admin) {
+    return json({ error: "Conversation not found" }, 404);
+  }
+
+  if (subPath === "/export") {
+    if (request.method !== "GET") return json({ error: "Method not allowed" }, 405);
+    const format = exportFormat(url);
+    if (format instanceof Response) return format;
+    const conv = await stub.get();
+    if (!conv) return json({ error: "Conversation not found" }, 404);
+    // 导出当前分支
+    return exportResponse(fromConversation({ ...conv, messages: branchPath(conv.messages, conv.current_id) }), format);
+  }
+
+  // 追加消息并流式回复；parent_id 选分支，不带 content 时重新生成 parent_id 这条用户消息的回复
+  if (subPath) {
+    if (request.method !== "POST") return json({ error: "Method not allowed" }, 405);
+    const body: any = await request.json().catch(() => ({}));
+    const content = body?.content;
+    const parentId = body?.parent_id;
+    if (parentId !== undefined && parentId !== null && typeof parentId !== "string") {
+      return json({ error: "'parent_id' must be a message ID or null" }, 400);
+    }
+    const regenerate = content === undefined && typeof parentId === "string";
+
+    let user: ChatMessage | null = null;
+    const policy = loadGuard(env);
+    let guardEvents: GuardEvent[] = [];
+    if (!regenerate) {
+      if (typeof content === "string" ? !content.trim() : !Array.isArray(content)) {
+        return json({ error: "'content' must be a non-empty string or an array of content parts" }, 400);
+      }
+      const parsed = parseMessage({ role: "user", content }, MAX_MESSAGE_CHARS);
+      if (!parsed) {
+        return typeof content === "string"
+          ? json({ error: "Message too long" }, 413)
+          : json({ error: "Invalid content parts" }, 400);
+      }
+      // 内容守卫：保存的是脱敏后的消息
+      const guarded = await guardInput(env, policy, [parsed]);
+      if (guarded.blocked) return blockedResponse(guarded.events);
+      [user] = guarded.messages;
+      guardEvents = guarded.events;
+    }
+
+    const preset = await resolvePreset(env, url, body);
+    if (preset instanceof Response) return preset;
+    const knowledge = knowledgeQuery(env, url, body);
+    if (knowledge instanceof Response) return knowledge;
+
+    const conv = await stub.get();
+    if (!conv) return json({ error: "Conversation not found" }, 404);
+
+    // 不带 parent_id 时接在当前分支末端
+    const parentKey: string | null = parentId === undefined ? conv.current_id : parentId;
+    const parent = parentKey === null ? null : conv.messages.find((x) => x.id === parentKey);
+    if (parentKey !== null && !parent) return json({ error: "Parent message not found", parent_id: parentKey }, 404);
+    if (regenerate && parent?.role !== "user") {
+      return json({ error: "To regenerate a reply, 'parent_id' must be a user message" }, 400);
+    }
+
+    const path = branchPath(conv.messages, parentKey);
+    const history: ChatMessage[] = [...path, ...(user ? [user] : [])].map((x) => ({
+      role: x.role,
+      content: x.content,
+    }));
+    if (!history.some((x) => x.role === "system")) {
+      history.unshift({ role: "system", content: systemPrompt(env, preset) });
+    }
+    // 附件在发给上游前才内联，会话里只存引用；内联的文本文件同样过守卫
+    const messages = await resolveAttachments(env, history, principal, { policy, events: guardEvents });
+    if (messages instanceof Response) return messages;
+
+    const prepared = prepareChat(url, env, body, messages, preset);
+    if (prepared instanceof Response) return prepared;
+
+    // 先落用户消息：生成失败也保留；回复 ID 先预留，写在响应头里
+    const turn = await stub.startTurn(user, parentKey);
+    if (!turn) return json({ error: "Conversation not found" }, 404);
+
+    const resume = ctx ? await openResumable(env, ctx, principal, url) : null;
+    const stream = streamChat(env, prepared.upstreams, prepared.req, {
+      format: prepared.format,
+      manageContext: true,
+      guard: { policy, events: guardEvents },
+      knowledge,
+      resume,
+      trace,
+      onUsage,
+      onDone: async ({ text, citations }) => {
+        if (text) await stub.append([{ id: turn.reply_id, role: "assistant", content: text, citations }], turn.user_id);
+      },
+    });
+    return new Response(stream, {
+      headers: {
+        ...SSE_HEADERS,
+        "x-conversation-id": id,
+        "x-message-id": turn.user_id,
+        "x-reply-id": turn.reply_id,
+        ...resumeHeaders(resume),
+      },
+    });
+  }
+
+  // 切换分支：current_id 设为该消息所在分支的末端（沿最新的子消息）
+  if (request.method === "PATCH") {
+    const body: any = await request.json().catch(() => ({}));
+    if (typeof body?.current_id !== "string") return json({ error: "'current_id' must be a message ID" }, 400);
+    const current = await stub.select(body.current_id);
+    if (!current) return json({ error: "Message not found", current_id: body.current_id }, 404);
+    return json({ id, current_id: current });
+  }
+
+  if (request.method === "GET") {
+    const conv = await stub.get();
+    return conv ? json(conv) : json({ error: "Conversation not found" }, 404);
+  }
+  if (request.method === "DELETE") {
+    if (!(await stub.destroy())) return json({ error: "Conversation not found" }, 404);
+    return json({ deleted: true, id });
+  }
+  return json({ error: "Method not allowed" }, 405);
+}
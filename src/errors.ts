@@ -0,0 +1,193 @@
+/**
+ * 上游错误分类 + 重试策略
+ * - 解析上游错误体（OpenAI 风格 {error:{message,type,param,code}}，也兼容流内 response.failed）为 UpstreamError.kind
+ * - retryDecision：同一上游退避重试（遵守 Retry-After）/ 去掉不支持的参数重试 / 放弃
+ * - kind 即对外的稳定错误码（v2 error 事件的 code、/v1 错误体的 code）
+ */
+
+/** 稳定错误码 */
+export type UpstreamErrorKind =
+  | "rate_limit"
+  | "quota_exceeded"
+  | "context_length"
+  | "invalid_param"
+  | "auth"
+  | "server"
+  | "timeout"
+  | "bad_request";
+
+/** 可以去掉后重试的参数（模型不支持时） */
+const DEGRADABLE_PARAMS = /^(tool|temperature|top_p|reasoning)/;
+
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8000;
+/** Retry-After 超过这个值就不在同一上游等待，交给 failover */
+const MAX_RETRY_AFTER_MS = 10_000;
+export const DEFAULT_MAX_RETRIES = 2;
+
+/** 上游返回非 2xx（或流内报错），已分类 */
+export class UpstreamError extends Error {
+  readonly kind: UpstreamErrorKind;
+  /** invalid_param 时出错的参数名（如 "temperature"、"reasoning.effort"、"tools"） */
+  readonly param?: string;
+  /** 上游自己的错误码（如 "rate_limit_exceeded"） */
+  readonly upstreamCode?: string;
+  /** Retry-After / retry-after-ms 头，毫秒 */
+  readonly retryAfterMs?: number;
+
+  constructor(readonly status: number, readonly detail: string, headers?: Headers) {
+    super(`Upstream ${status}: ${detail.slice(0, 200)}`);
+    this.name = "UpstreamError";
+    const parsed = classify(status, detail);
+    this.kind = parsed.kind;
+    this.param = parsed.param;
+    this.upstreamCode = parsed.code;
+    this.retryAfterMs = headers ? retryAfter(headers) : undefined;
+  }
+
+  /** 上游错误体里的 message（解析失败时为原文） */
+  get upstreamMessage(): string {
+    return parseBody(this.detail)?.message || this.detail;
+  }
+}
+
+/**
+ * 连不上上游、读响应体时连接断开或 Workers AI 绑定调用失败（upstreamFetch / readSSE / WorkersAIProvider 包装），按 server 处理。
+ * 只有这里认定为网络故障，其余 TypeError 是本服务的 bug，不重试也不 failover
+ */
+export class NetworkError extends Error {
+  constructor(readonly original: unknown) {
+    super(`Upstream connection failed: ${(original as any)?.message ?? String(original)}`);
+    this.name = "NetworkError";
+  }
+
+  /** 调用方主动中止时原样抛出，不算网络故障 */
+  static wrap(e: unknown, signal?: AbortSignal | null): unknown {
+    return signal?.aborted || e instanceof NetworkError ? e : new NetworkError(e);
+  }
+}
+
+interface ErrorBody {
+  message?: string;
+  type?: string;
+  param?: string;
+  code?: string;
+}
+
+function parseBody(detail: string): ErrorBody | null {
+  try {
+    const j = JSON.parse(detail);
+    const e = j?.error ?? j?.response?.error ?? j;
+    if (!e || typeof e !== "object") return null;
+    const str = (v: unknown) => (typeof v === "string" && v ? v : undefined);
+    return { message: str(e.message), type: str(e.type), param: str(e.param), code: str(e.code) };
+  } catch {
+    return null;
+  }
+}
+
+/** 错误信息里引号包住的参数名："Unsupported parameter: 'temperature' is not supported…" */
+function paramFromMessage(message: string): string | undefined {
+  const quoted = message.match(/parameter:?\s*['"`]([\w.[\]]+)['"`]/i) ?? message.match(/['"`]([\w.[\]]+)['"`]/);
+  if (quoted) return quoted[1];
+  if (/\btools?\b/i.test(message)) return "tools";
+  return undefined;
+}
+
+function classify(status: number, detail: string): { kind: UpstreamErrorKind; param?: string; code?: string } {
+  const body = parseBody(detail);
+  const code = body?.code;
+  const text = `${body?.message ?? detail} ${code ?? ""} ${body?.type ?? ""}`.toLowerCase();
+
+  if (code === "insufficient_quota" || /insufficient_quota|exceeded your current quota/.test(text)) {
+    return { kind: "quota_exceeded", code };
+  }
+  if (status === 429 || code === "rate_limit_exceeded" || /rate.?limit/.test(text)) {
+    return { kind: "rate_limit", code };
+  }
+  if (status === 401 || status === 403 || code === "invalid_api_key" || /authentication|invalid api key/.test(text)) {
+    return { kind: "auth", code };
+  }
+  if (code === "context_length_exceeded" || /maximum context length|context window|too many tokens/.test(text)) {
+    return { kind: "context_length", code };
+  }
+  if (status === 408 || status === 504 || (status >= 500 && /timed? ?out/.test(text))) return { kind: "timeout", code };
+  if (status >= 500 || code === "server_error") return { kind: "server", code };
+
+  const paramish =
+    body?.param ||
+    /^(unsupported_parameter|unsupported_value|invalid_value|unknown_parameter|invalid_type)$/.test(code ?? "") ||
+    /unsupported (parameter|value)|not supported with|unknown (tool|parameter)|invalid_value/.test(text);
+  if (paramish) {
+    return { kind: "invalid_param", param: body?.param || paramFromMessage(body?.message ?? detail), code };
+  }
+  return { kind: "bad_request", code };
+}
+
+/** Retry-After（秒或 HTTP 日期）/ retry-after-ms */
+function retryAfter(headers: Headers): number | undefined {
+  const ms = Number(headers.get("retry-after-ms"));
+  if (ms > 0) return ms;
+  const v = headers.get("retry-after");
+  if (!v) return undefined;
+  const sec = Number(v);
+  if (!Number.isNaN(sec)) return Math.max(0, sec * 1000);
+  const at = Date.parse(v);
+  return Number.isNaN(at) ? undefined : Math.max(0, at - Date.now());
+}
+
+/** 可以去掉不支持的参数（tools / 采样参数 / reasoning）后重试 */
+export function isDegradable(e: unknown): boolean {
+  return e instanceof UpstreamError && e.kind === "invalid_param" && DEGRADABLE_PARAMS.test(e.param ?? "");
+}
+
+export type RetryDecision =
+  | { action: "retry"; delayMs: number }
+  | { action: "degrade" }
+  | { action: "fail" };
+
+/**
+ * 同一上游上的处理方式；attempt 从 0 开始（已失败的次数 - 1）。
+ * 不可重试的错误、次数用尽或 Retry-After 太长时返回 fail（调用方再决定是否换上游）。
+ */
+export function retryDecision(e: unknown, attempt: number, maxRetries = DEFAULT_MAX_RETRIES): RetryDecision {
+  if (isDegradable(e)) return { action: "degrade" };
+  const kind = errorKind(e);
+  if (kind !== "rate_limit" && kind !== "server" && kind !== "timeout") return { action: "fail" };
+  if (attempt >= maxRetries) return { action: "fail" };
+
+  const hinted = e instanceof UpstreamError ? e.retryAfterMs : undefined;
+  if (hinted !== undefined) {
+    return hinted <= MAX_RETRY_AFTER_MS ? { action: "retry", delayMs: hinted } : { action: "fail" };
+  }
+  // 指数退避 + 抖动
+  const exp = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  return { action: "retry", delayMs: Math.round(exp / 2 + Math.random() * (exp / 2)) };
+}
+
+/**
+ * 任意错误的分类：连接失败（NetworkError）按 server，TimeoutError（首包看门狗等）按 timeout，
+ * 其余非上游错误为 null（不重试、不 failover）
+ */
+export function errorKind(e: unknown): UpstreamErrorKind | null {
+  if (e instanceof UpstreamError) return e.kind;
+  if (e instanceof NetworkError) return "server";
+  if ((e as any)?.name === "TimeoutError") return "timeout";
+  return null;
+}
+
+/** 可中止的等待 */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(t);
+      reject(signal!.reason);
+    };
+    const t = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,298 @@
+/**
+ * 内容守卫：/api/chat 与会话接口的输入/输出检查
+ * - 输入：正则识别 PII（email / phone / id / card）后按策略 block / redact / warn；
+ *   可选调用 OpenAI /moderations 检查最新一条用户消息
+ * - 输出（GUARD_OUTPUT=on）：对流式正文增量过滤；保留末尾一段不输出，跨 chunk 的匹配也能识别
+ * - 每次命中都以 guard 事件报告（v2 为 guard 事件，legacy 为 cmpl-guard chunk）
+ * 未设置 GUARD_PII 且未开启 GUARD_MODERATION 时不做任何检查。
+ */
+
+import { DEFAULT_API_BASE } from "./providers";
+import { upstreamFetch } from "./replay";
+import { json } from "./sse";
+import type { ChatMessage, Env } from "./types";
+
+export type GuardAction = "block" | "redact" | "warn";
+export type PiiCategory = "email" | "phone" | "id" | "card";
+
+/** 一次命中；detail 为 moderation 命中的类别 */
+export interface GuardEvent {
+  stage: "input" | "output";
+  action: GuardAction;
+  category: PiiCategory | "moderation";
+  count: number;
+  detail?: string[];
+}
+
+export interface GuardPolicy {
+  pii: PiiCategory[];
+  piiAction: GuardAction;
+  output: boolean;
+  moderation: boolean;
+  moderationAction: Exclude<GuardAction, "redact">;
+}
+
+const PII_CATEGORIES: PiiCategory[] = ["email", "phone", "id", "card"];
+const GUARD_ACTIONS: GuardAction[] = ["block", "redact", "warn"];
+const MODERATION_MODEL = "omni-moderation-latest";
+const MODERATION_TIMEOUT_MS = 5000;
+// 输出过滤保留的尾部长度：不短于最长的可能匹配
+const OUTPUT_HOLD_CHARS = 64;
+
+interface Detector {
+  category: PiiCategory;
+  re: RegExp;
+  /** 二次校验（校验位等），减少误报 */
+  valid?(match: string): boolean;
+}
+
+const digitsOf = (s: string) => s.replace(/\D/g, "");
+
+function luhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+// 中国居民身份证校验位
+function cnIdValid(id: string): boolean {
+  const w = [7, 9, 10, 5, 8, 4, 2, 1, 6, 3, 7, 9, 10, 5, 8, 4, 2];
+  const sum = w.reduce((n, x, i) => n + x * Number(id[i]), 0);
+  return "10X98765432"[sum % 11] === id[17].toUpperCase();
+}
+
+// 顺序即优先级：重叠时先匹配到的类别生效
+const DETECTORS: Detector[] = [
+  { category: "email", re: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g },
+  {
+    // 18 位身份证 / 美国 SSN
+    category: "id",
+    re: /(?<![\dA-Za-z])(?:\d{17}[\dXx]|\d{3}-\d{2}-\d{4})(?![\dA-Za-z])/g,
+    valid: (m) => m.includes("-") || cnIdValid(m),
+  },
+  {
+    category: "card",
+    re: /(?<![\d-])\d(?:[ -]?\d){12,18}(?![\d-])/g,
+    valid: (m) => luhn(digitsOf(m)),
+  },
+  {
+    // +国家码开头 / (555) 123-4567 / 555-123-4567 / 国内手机号；不匹配日期时间这类数字串
+    category: "phone",
+    re: /(?<![\w+])\+\d{1,3}[ .-]?(?:\(\d{1,4}\)[ .-]?)?\d{1,4}(?:[ .-]?\d{2,4}){1,4}(?!\w)|(?<!\w)(?:\(\d{3}\) ?\d{3}[ .-]\d{4}|\d{3}([.-])\d{3}\1\d{4}|1[3-9]\d(?:-?\d{4}){2})(?!\w)/g,
+    valid: (m) => digitsOf(m).length >= 10 && digitsOf(m).length <= 15,
+  },
+];
+
+const placeholder = (c: PiiCategory) => `[${c.toUpperCase()}]`;
+
+function parseList<T extends string>(raw: string | undefined, allowed: T[]): T[] {
+  const list = (raw || "").split(",").map((s) => s.trim().toLowerCase()).filter(Boolean);
+  if (list.includes("all")) return [...allowed];
+  return allowed.filter((a) => list.includes(a));
+}
+
+function parseAction<T extends GuardAction>(raw: string | undefined, allowed: T[], fallback: T): T {
+  const v = (raw || "").trim().toLowerCase() as T;
+  return allowed.includes(v) ? v : fallback;
+}
+
+/** 读取策略；没有任何检查时返回 null */
+export function loadGuard(env: Env): GuardPolicy | null {
+  const pii = parseList(env.GUARD_PII, PII_CATEGORIES);
+  const moderation = String(env.GUARD_MODERATION || "").toLowerCase() === "on";
+  if (!pii.length && !moderation) return null;
+  return {
+    pii,
+    piiAction: parseAction(env.GUARD_PII_ACTION, GUARD_ACTIONS, "redact"),
+    output: pii.length > 0 && String(env.GUARD_OUTPUT || "").toLowerCase() === "on",
+    moderation,
+    moderationAction: parseAction(env.GUARD_MODERATION_ACTION, ["block", "warn"], "block"),
+  };
+}
+
+interface Match {
+  start: number;
+  end: number;
+  category: PiiCategory;
+}
+
+/** 按 DETECTORS 顺序找出互不重叠的匹配，按位置排序 */
+function findPii(text: string, categories: PiiCategory[]): Match[] {
+  const found: Match[] = [];
+  for (const d of DETECTORS) {
+    if (!categories.includes(d.category)) continue;
+    for (const m of text.matchAll(d.re)) {
+      const start = m.index!;
+      const end = start + m[0].length;
+      if (d.valid && !d.valid(m[0])) continue;
+      if (found.some((f) => start < f.end && end > f.start)) continue;
+      found.push({ start, end, category: d.category });
+    }
+  }
+  return found.sort((a, b) => a.start - b.start);
+}
+
+function redact(text: string, matches: Match[]): string {
+  let out = "";
+  let pos = 0;
+  for (const m of matches) {
+    out += text.slice(pos, m.start) + placeholder(m.category);
+    pos = m.end;
+  }
+  return out + text.slice(pos);
+}
+
+/** 按类别汇总成事件 */
+function toEvents(stage: GuardEvent["stage"], action: GuardAction, matches: Match[]): GuardEvent[] {
+  const counts = new Map<PiiCategory, number>();
+  for (const m of matches) counts.set(m.category, (counts.get(m.category) ?? 0) + 1);
+  return [...counts].map(([category, count]) => ({ stage, action, category, count }));
+}
+
+/** 单段文本：返回处理后的文本与命中 */
+function scanText(policy: GuardPolicy, text: string): { text: string; matches: Match[] } {
+  const matches = findPii(text, policy.pii);
+  if (!matches.length || policy.piiAction !== "redact") return { text, matches };
+  return { text: redact(text, matches), matches };
+}
+
+async function moderate(env: Env, text: string): Promise<string[] | null> {
+  const apiBase = (env.OPENAI_API_BASE || DEFAULT_API_BASE).trim();
+  const r = await upstreamFetch(env, `${apiBase}/moderations`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${env.OPENAI_API_KEY}`, "Content-Type": "application/json" },
+    body: JSON.stringify({ model: MODERATION_MODEL, input: text }),
+    signal: AbortSignal.timeout(MODERATION_TIMEOUT_MS),
+  });
+  if (!r.ok) throw new Error(`moderation ${r.status}`);
+  const j: any = await r.json();
+  const result = j?.results?.[0];
+  if (!result?.flagged) return null;
+  return Object.entries(result.categories ?? {})
+    .filter(([, v]) => v === true)
+    .map(([k]) => k);
+}
+
+/** 输入检查结果；blocked 时不应请求上游 */
+export interface InputGuardResult {
+  messages: ChatMessage[];
+  events: GuardEvent[];
+  blocked: boolean;
+}
+
+/**
+ * 检查用户消息（system / assistant 消息不动）。
+ * moderation 调用失败时放行，并报告一个 warn 事件。
+ */
+export async function guardInput(
+  env: Env,
+  policy: GuardPolicy | null,
+  messages: ChatMessage[]
+): Promise<InputGuardResult> {
+  if (!policy) return { messages, events: [], blocked: false };
+
+  const matches: Match[] = [];
+  const scan = (text: string) => {
+    const r = scanText(policy, text);
+    matches.push(...r.matches);
+    return r.text;
+  };
+  const out: ChatMessage[] = policy.pii.length
+    ? messages.map((m) => {
+        if (m.role !== "user") return m;
+        if (typeof m.content === "string") return { ...m, content: scan(m.content) };
+        return {
+          ...m,
+          content: m.content.map((p) => (p.type === "input_text" ? { ...p, text: scan(p.text) } : p)),
+        };
+      })
+    : messages;
+  const events = toEvents("input", policy.piiAction, matches);
+  let blocked = policy.piiAction === "block" && matches.length > 0;
+
+  const lastUser = [...out].reverse().find((m) => m.role === "user");
+  if (policy.moderation && !blocked && lastUser) {
+    const text =
+      typeof lastUser.content === "string"
+        ? lastUser.content
+        : lastUser.content.flatMap((p) => (p.type === "input_text" ? [p.text] : [])).join("\n");
+    try {
+      const flagged = text.trim() ? await moderate(env, text) : null;
+      if (flagged) {
+        events.push({
+          stage: "input",
+          action: policy.moderationAction,
+          category: "moderation",
+          count: 1,
+          detail: flagged,
+        });
+        blocked = policy.moderationAction === "block";
+      }
+    } catch (e) {
+      const detail = [`unavailable: ${String(e).slice(0, 100)}`];
+      events.push({ stage: "input", action: "warn", category: "moderation", count: 0, detail });
+    }
+  }
+  return { messages: out, events, blocked };
+}
+
+/** 输入被 block 时的响应（流还没开始，直接返回 400） */
+export function blockedResponse(events: GuardEvent[]): Response {
+  return json({ error: "Blocked by content policy", code: "content_blocked", guard: events }, 400);
+}
+
+/**
+ * 流式输出过滤：末尾 OUTPUT_HOLD_CHARS 个字符先不输出，匹配不会被切开。
+ * block 命中后 blocked 为 true，之后不再输出任何文本。
+ */
+export class OutputGuard {
+  private buf = "";
+  blocked = false;
+
+  constructor(
+    private policy: GuardPolicy,
+    private onEvent: (e: GuardEvent) => void
+  ) {}
+
+  /** 返回可以安全输出的文本 */
+  push(text: string): string {
+    if (this.blocked) return "";
+    this.buf += text;
+    return this.drain(false);
+  }
+
+  flush(): string {
+    if (this.blocked) return "";
+    return this.drain(true);
+  }
+
+  private drain(final: boolean): string {
+    const matches = findPii(this.buf, this.policy.pii);
+    let cut = final ? this.buf.length : Math.max(0, this.buf.length - OUTPUT_HOLD_CHARS);
+    // 不切开匹配；跨过 cut 的匹配留到下次（它可能还会变长）
+    for (const m of matches) if (m.start < cut && m.end > cut) cut = m.start;
+    const done = matches.filter((m) => m.end <= cut);
+
+    if (done.length) {
+      const action = this.policy.piiAction;
+      for (const e of toEvents("output", action, done)) this.onEvent(e);
+      if (action === "block") {
+        this.blocked = true;
+        const safe = this.buf.slice(0, done[0].start);
+        this.buf = "";
+        return safe;
+      }
+    }
+
+    const head = this.buf.slice(0, cut);
+    this.buf = this.buf.slice(cut);
+    return this.policy.piiAction === "redact" ? redact(head, done) : head;
+  }
+}
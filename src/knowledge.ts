@@ -0,0 +1,510 @@
+/**
+ * 知识库检索增强（RAG）：Markdown/文本切块 → 向量化 → 存入 Vectorize（KNOWLEDGE_INDEX，每个集合一个 namespace），
+ * 文档清单在 KV（KNOWLEDGE）；KNOWLEDGE_STORE=memory 时改用 isolate 内存中的替身（开发 / 测试用，不持久）
+ * - 向量化：KNOWLEDGE_EMBEDDING_MODEL，@cf/ 前缀走 Workers AI，其余走 OpenAI 兼容的 /embeddings
+ * - POST   /api/admin/knowledge/:collection/documents       导入（JSON {id?, title?, text}，或原始正文 + ?id=&title=）
+ * - GET    /api/admin/knowledge/:collection/documents       文档清单
+ * - DELETE /api/admin/knowledge/:collection/documents/:id
+ * - POST   /api/knowledge/:collection/search                 {query, top_k}：只检索不生成（调试用）
+ * 对话请求用 ?collection=a,b（或 body.collections）选择集合：检索 top-k 片段作为 system 消息注入，
+ * 用到的文档以 knowledge chunk / 事件输出（见 chat.ts）
+ */
+
+import { contentText } from "./attachments";
+import { sha256Hex } from "./auth";
+import { UpstreamError } from "./errors";
+import { DEFAULT_API_BASE } from "./providers";
+import { upstreamFetch } from "./replay";
+import { json } from "./sse";
+import type { ChatMessage, Env } from "./types";
+
+const DEFAULT_EMBEDDING_MODEL = "@cf/baai/bge-base-en-v1.5";
+const DEFAULT_TOP_K = 4;
+const MAX_TOP_K = 20;
+const MAX_COLLECTIONS = 5;
+const CHUNK_CHARS = 1200;
+const MAX_DOC_CHARS = 200_000;
+const MAX_CHUNKS = 250;
+const EMBED_BATCH = 50;
+const UPSERT_BATCH = 500;
+const QUERY_CHARS = 2000;
+const NAME_RE = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+const DOC_ID_RE = /^[\w.-]{1,128}$/;
+
+/** 文档清单里的一条 */
+export interface KnowledgeDoc {
+  id: string;
+  collection: string;
+  title: string;
+  chunks: number;
+  chars: number;
+  created_at: number;
+  updated_at: number;
+}
+
+/** 向量的 metadata（Vectorize 单条上限 10 KiB，片段正文放在这里） */
+interface ChunkMeta {
+  doc_id: string;
+  title: string;
+  chunk: number;
+  text: string;
+}
+
+interface ChunkVector {
+  id: string;
+  values: number[];
+  metadata: ChunkMeta;
+}
+
+export interface ChunkMatch extends ChunkMeta {
+  collection: string;
+  score: number;
+}
+
+/** 存储后端：Vectorize + KV，或内存替身 */
+export interface KnowledgeBackend {
+  getDoc(collection: string, id: string): Promise<KnowledgeDoc | null>;
+  putDoc(doc: KnowledgeDoc): Promise<void>;
+  deleteDoc(collection: string, id: string): Promise<void>;
+  listDocs(collection: string): Promise<KnowledgeDoc[]>;
+  upsert(collection: string, vectors: ChunkVector[]): Promise<void>;
+  deleteVectors(ids: string[]): Promise<void>;
+  query(collection: string, vector: number[], topK: number): Promise<ChunkMatch[]>;
+}
+
+const docKey = (collection: string, id: string) => `doc:${collection}:${id}`;
+
+class VectorizeBackend implements KnowledgeBackend {
+  constructor(private index: Vectorize, private kv: KVNamespace) {}
+
+  getDoc(collection: string, id: string) {
+    return this.kv.get<KnowledgeDoc>(docKey(collection, id), "json");
+  }
+
+  async putDoc(doc: KnowledgeDoc) {
+    await this.kv.put(docKey(doc.collection, doc.id), JSON.stringify(doc));
+  }
+
+  async deleteDoc(collection: string, id: string) {
+    await this.kv.delete(docKey(collection, id));
+  }
+
+  async listDocs(collection: string) {
+    const out: KnowledgeDoc[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.kv.list({ prefix: docKey(collection, ""), cursor });
+      const values = await Promise.all(page.keys.map((k) => this.kv.get<KnowledgeDoc>(k.name, "json")));
+      for (const v of values) if (v) out.push(v);
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+    return out;
+  }
+
+  async upsert(collection: string, vectors: ChunkVector[]) {
+    for (let i = 0; i < vectors.length; i += UPSERT_BATCH) {
+      const batch = vectors.slice(i, i + UPSERT_BATCH);
+      await this.index.upsert(batch.map((v) => ({ ...v, namespace: collection, metadata: { ...v.metadata } })));
+    }
+  }
+
+  async deleteVectors(ids: string[]) {
+    for (let i = 0; i < ids.length; i += UPSERT_BATCH) await this.index.deleteByIds(ids.slice(i, i + UPSERT_BATCH));
+  }
+
+  async query(collection: string, vector: number[], topK: number) {
+    const res = await this.index.query(vector, { topK, namespace: collection, returnMetadata: "all" });
+    return res.matches
+      .filter((m) => m.metadata && typeof m.metadata.text === "string")
+      .map((m) => ({ ...(m.metadata as unknown as ChunkMeta), collection, score: m.score }));
+  }
+}
+
+function cosine(a: number[], b: number[]) {
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+}
+
+/** 内存替身：isolate 内共享，重启即丢失 */
+export class MemoryBackend implements KnowledgeBackend {
+  private docs = new Map<string, KnowledgeDoc>();
+  private vectors = new Map<string, ChunkVector & { collection: string }>();
+
+  async getDoc(collection: string, id: string) {
+    return this.docs.get(docKey(collection, id)) ?? null;
+  }
+
+  async putDoc(doc: KnowledgeDoc) {
+    this.docs.set(docKey(doc.collection, doc.id), doc);
+  }
+
+  async deleteDoc(collection: string, id: string) {
+    this.docs.delete(docKey(collection, id));
+  }
+
+  async listDocs(collection: string) {
+    return [...this.docs.values()].filter((d) => d.collection === collection);
+  }
+
+  async upsert(collection: string, vectors: ChunkVector[]) {
+    for (const v of vectors) this.vectors.set(v.id, { ...v, collection });
+  }
+
+  async deleteVectors(ids: string[]) {
+    for (const id of ids) this.vectors.delete(id);
+  }
+
+  async query(collection: string, vector: number[], topK: number) {
+    return [...this.vectors.values()]
+      .filter((v) => v.collection === collection)
+      .map((v) => ({ ...v.metadata, collection, score: cosine(vector, v.values) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+}
+
+const memoryBackend = new MemoryBackend();
+
+/** 未配置时返回 null；KNOWLEDGE_STORE=memory 优先 */
+export function knowledgeBackend(env: Env): KnowledgeBackend | null {
+  if (String(env.KNOWLEDGE_STORE || "").toLowerCase() === "memory") return memoryBackend;
+  if (env.KNOWLEDGE_INDEX && env.KNOWLEDGE) return new VectorizeBackend(env.KNOWLEDGE_INDEX, env.KNOWLEDGE);
+  return null;
+}
+
+/* ---------------- 向量化 ---------------- */
+
+export async function embed(env: Env, texts: string[], signal?: AbortSignal): Promise<number[][]> {
+  const model = (env.KNOWLEDGE_EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL).trim();
+  const out: number[][] = [];
+  for (let i = 0; i < texts.length; i += EMBED_BATCH) {
+    const batch = texts.slice(i, i + EMBED_BATCH);
+    if (model.startsWith("@cf/")) {
+      if (!env.AI) throw new Error("Workers AI binding (AI) is not configured");
+      const res: any = await (env.AI as any).run(model, { text: batch });
+      out.push(...res.data);
+      continue;
+    }
+    const apiBase = (env.OPENAI_API_BASE || DEFAULT_API_BASE).trim();
+    const resp = await upstreamFetch(env, `${apiBase}/embeddings`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${env.OPENAI_API_KEY}`, "Content-Type": "application/json" },
+      body: JSON.stringify({ model, input: batch }),
+      signal,
+    });
+    if (!resp.ok) throw new UpstreamError(resp.status, await resp.text(), resp.headers);
+    const j: any = await resp.json();
+    const data = [...(j.data ?? [])].sort((a: any, b: any) => a.index - b.index);
+    out.push(...data.map((d: any) => d.embedding));
+  }
+  if (out.length !== texts.length || out.some((v) => !Array.isArray(v))) {
+    throw new Error(`Embedding model ${model} returned ${out.length} vectors for ${texts.length} inputs`);
+  }
+  return out;
+}
+
+/* ---------------- 切块 ---------------- */
+
+const FENCE_RE = /^\s*(```|~~~)/;
+const HEADING_RE = /^#{1,6}\s/;
+
+/** 按空行分段；代码块整体算一段，标题另起一段 */
+function blocks(text: string): string[] {
+  const out: string[] = [];
+  let cur: string[] = [];
+  let fence: string | null = null;
+  const push = () => {
+    if (cur.length) out.push(cur.join("\n"));
+    cur = [];
+  };
+  for (const line of text.replace(/\r\n/g, "\n").split("\n")) {
+    const f = line.match(FENCE_RE);
+    if (!fence && !f && !line.trim()) {
+      push();
+      continue;
+    }
+    if (!fence && HEADING_RE.test(line)) push();
+    if (f) fence = !fence ? f[1] : f[1] === fence ? null : fence;
+    cur.push(line);
+  }
+  push();
+  return out;
+}
+
+/** 超长的段落按换行 / 空格硬切 */
+function splitLong(block: string, size: number): string[] {
+  const out: string[] = [];
+  while (block.length > size) {
+    let cut = block.lastIndexOf("\n", size);
+    if (cut < size / 2) cut = block.lastIndexOf(" ", size);
+    if (cut < size / 2) cut = size;
+    out.push(block.slice(0, cut));
+    block = block.slice(cut).trimStart();
+  }
+  if (block) out.push(block);
+  return out;
+}
+
+/** 把段落攒成约 size 字符的片段；片段不以标题开头时补上所在小节的标题 */
+export function chunkText(text: string, size = CHUNK_CHARS): string[] {
+  const chunks: string[] = [];
+  let cur = "";
+  let heading = "";
+  const flush = () => {
+    if (cur.trim()) chunks.push(cur.trim());
+    cur = "";
+  };
+  for (const block of blocks(text)) {
+    if (HEADING_RE.test(block)) heading = block.split("\n")[0];
+    for (const piece of splitLong(block, size)) {
+      if (cur && cur.length + piece.length + 2 > size) flush();
+      if (!cur && heading && !piece.startsWith(heading)) cur = heading;
+      cur = cur ? `${cur}\n\n${piece}` : piece;
+    }
+  }
+  flush();
+  return chunks;
+}
+
+/* ---------------- 导入 ---------------- */
+
+// 向量 id 全局唯一（跨 namespace），由集合 + 文档 id 派生；重新导入同一文档时覆盖
+async function vectorPrefix(collection: string, id: string) {
+  return (await sha256Hex(`${collection}/${id}`)).slice(0, 32);
+}
+
+/** 切块、向量化并写入；同 id 的旧文档被替换（多出的旧片段删除） */
+export async function ingestDocument(
+  env: Env,
+  backend: KnowledgeBackend,
+  collection: string,
+  input: { id: string; title: string; text: string }
+): Promise<{ doc: KnowledgeDoc; replaced: boolean } | string> {
+  const chunks = chunkText(input.text);
+  if (!chunks.length) return "Document has no text";
+  if (chunks.length > MAX_CHUNKS) return `Document is too long (more than ${MAX_CHUNKS} chunks)`;
+
+  const vectors = await embed(env, chunks.map((c) => `${input.title}\n\n${c}`));
+  const prev = await backend.getDoc(collection, input.id);
+  const prefix = await vectorPrefix(collection, input.id);
+  await backend.upsert(
+    collection,
+    chunks.map((text, i) => ({
+      id: `${prefix}:${i}`,
+      values: vectors[i],
+      metadata: { doc_id: input.id, title: input.title, chunk: i, text },
+    }))
+  );
+  if (prev && prev.chunks > chunks.length) {
+    const stale = Array.from({ length: prev.chunks - chunks.length }, (_, k) => `${prefix}:${chunks.length + k}`);
+    await backend.deleteVectors(stale);
+  }
+  const now = Date.now();
+  const doc: KnowledgeDoc = {
+    id: input.id,
+    collection,
+    title: input.title,
+    chunks: chunks.length,
+    chars: input.text.length,
+    created_at: prev?.created_at ?? now,
+    updated_at: now,
+  };
+  await backend.putDoc(doc);
+  return { doc, replaced: !!prev };
+}
+
+async function deleteDocument(backend: KnowledgeBackend, collection: string, id: string): Promise<boolean> {
+  const doc = await backend.getDoc(collection, id);
+  if (!doc) return false;
+  const prefix = await vectorPrefix(collection, id);
+  await backend.deleteVectors(Array.from({ length: doc.chunks }, (_, i) => `${prefix}:${i}`));
+  await backend.deleteDoc(collection, id);
+  return true;
+}
+
+/** 导入请求体：JSON {id?, title?, text}，或原始 Markdown / 文本（?id=&title=） */
+async function readDocument(request: Request, url: URL): Promise<{ id: string; title: string; text: string } | string> {
+  let id: unknown = url.searchParams.get("id") ?? undefined;
+  let title: unknown = url.searchParams.get("title") ?? undefined;
+  let text: unknown;
+  if ((request.headers.get("content-type") || "").includes("application/json")) {
+    const body: any = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") return "Request body must be a JSON object";
+    id = body.id ?? id;
+    title = body.title ?? title;
+    text = body.text;
+  } else {
+    text = await request.text();
+  }
+  if (typeof text !== "string" || !text.trim()) return "'text' must be a non-empty string";
+  if (text.length > MAX_DOC_CHARS) return `Document must be at most ${MAX_DOC_CHARS} characters`;
+  if (id !== undefined && (typeof id !== "string" || !DOC_ID_RE.test(id))) return "'id' must match [A-Za-z0-9_.-]{1,128}";
+  if (title !== undefined && typeof title !== "string") return "'title' must be a string";
+  // 标题缺省时用第一个一级标题
+  const h1 = text.match(/^# (.+)$/m)?.[1]?.trim();
+  const docId = (id as string | undefined) ?? crypto.randomUUID();
+  return { id: docId, title: ((title as string | undefined) || h1 || docId).slice(0, 200), text };
+}
+
+/* ---------------- 检索 ---------------- */
+
+/** 对话请求选用的集合与 top-k */
+export interface KnowledgeQuery {
+  collections: string[];
+  top_k: number;
+}
+
+/** 流里报告的检索结果：按文档汇总，score 取该文档片段的最高分 */
+export interface KnowledgeReport {
+  collections: string[];
+  documents: { collection: string; id: string; title: string; score: number; chunks: number[] }[];
+}
+
+function parseTopK(v: unknown): number | null {
+  if (v === undefined || v === null || v === "") return null;
+  const n = Number(v);
+  return Number.isInteger(n) && n >= 1 && n <= MAX_TOP_K ? n : NaN;
+}
+
+/**
+ * ?collection=a,b > body.collections（数组或逗号分隔）> body.collection。
+ * 未指定时返回 null；参数错误 400，未配置知识库 501。
+ */
+export function knowledgeQuery(env: Env, url: URL, body: any): KnowledgeQuery | null | Response {
+  const raw = url.searchParams.get("collection") ?? url.searchParams.get("collections") ?? body?.collections ?? body?.collection;
+  if (raw === undefined || raw === null || raw === "") return null;
+  const list = typeof raw === "string" ? raw.split(",") : Array.isArray(raw) ? raw : null;
+  if (!list || list.some((c) => typeof c !== "string")) {
+    return json({ error: "'collections' must be a string or an array of strings" }, 400);
+  }
+  const collections = [...new Set(list.map((c: string) => c.trim()).filter(Boolean))];
+  if (!collections.length) return null;
+  if (collections.length > MAX_COLLECTIONS || collections.some((c) => !NAME_RE.test(c))) {
+    return json({ error: `Up to ${MAX_COLLECTIONS} collections matching [a-z0-9][a-z0-9_-]{0,63}` }, 400);
+  }
+  if (!knowledgeBackend(env)) return json({ error: "Knowledge base is not configured" }, 501);
+
+  const top_k = parseTopK(url.searchParams.get("top_k") ?? body?.top_k) ?? parseTopK(env.KNOWLEDGE_TOP_K) ?? DEFAULT_TOP_K;
+  if (Number.isNaN(top_k)) return json({ error: `'top_k' must be an integer between 1 and ${MAX_TOP_K}` }, 400);
+  return { collections, top_k };
+}
+
+/** 在各集合里检索并合并，低于 KNOWLEDGE_MIN_SCORE 的丢弃 */
+export async function retrieve(env: Env, q: KnowledgeQuery, text: string, signal?: AbortSignal): Promise<ChunkMatch[]> {
+  const backend = knowledgeBackend(env);
+  if (!backend) throw new Error("Knowledge base is not configured");
+  const [vector] = await embed(env, [text.slice(0, QUERY_CHARS)], signal);
+  const results = await Promise.all(q.collections.map((c) => backend.query(c, vector, q.top_k)));
+  const minScore = Number(env.KNOWLEDGE_MIN_SCORE) || 0;
+  return results
+    .flat()
+    .filter((m) => m.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, q.top_k);
+}
+
+export function knowledgeReport(q: KnowledgeQuery, matches: ChunkMatch[]): KnowledgeReport {
+  const documents: KnowledgeReport["documents"] = [];
+  for (const m of matches) {
+    const doc = documents.find((d) => d.collection === m.collection && d.id === m.doc_id);
+    if (doc) doc.chunks.push(m.chunk);
+    else documents.push({ collection: m.collection, id: m.doc_id, title: m.title, score: m.score, chunks: [m.chunk] });
+  }
+  return { collections: q.collections, documents };
+}
+
+/** 检索片段作为 system 消息插在开头的 system 消息之后 */
+function injectContext(messages: ChatMessage[], matches: ChunkMatch[]): ChatMessage[] {
+  const excerpts = matches
+    .map((m, i) => `[${i + 1}] ${m.title} (${m.collection}/${m.doc_id}#${m.chunk})\n${m.text}`)
+    .join("\n\n");
+  const note: ChatMessage = {
+    role: "system",
+    content:
+      "Knowledge base excerpts, most relevant first. Ground your answer in them when they apply and cite the " +
+      "document title in square brackets. If they do not cover the question, say so before answering from general knowledge.\n\n" +
+      excerpts,
+  };
+  let at = 0;
+  while (at < messages.length && messages[at].role === "system") at++;
+  return [...messages.slice(0, at), note, ...messages.slice(at)];
+}
+
+/** 以最后一条用户消息检索并注入；没有可检索的文本时原样返回（documents 为空） */
+export async function augmentWithKnowledge(
+  env: Env,
+  q: KnowledgeQuery,
+  messages: ChatMessage[],
+  signal?: AbortSignal
+): Promise<{ messages: ChatMessage[]; report: KnowledgeReport }> {
+  const last = [...messages].reverse().find((m) => m.role === "user");
+  const text = last ? contentText(last.content).trim() : "";
+  const matches = text ? await retrieve(env, q, text, signal) : [];
+  return {
+    messages: matches.length ? injectContext(messages, matches) : messages,
+    report: knowledgeReport(q, matches),
+  };
+}
+
+/* ---------------- 路由 ---------------- */
+
+/** 处理 /api/admin/knowledge/* 与 /api/knowledge/*；路径不匹配时返回 null */
+export async function handleKnowledge(request: Request, env: Env, url: URL): Promise<Response | null> {
+  const search = url.pathname.match(/^\/api\/knowledge\/([^/]+)\/search$/);
+  const admin = url.pathname.match(/^\/api\/admin\/knowledge\/([^/]+)\/documents(?:\/([^/]+))?\/?$/);
+  const match = search ?? admin;
+  if (!match) return null;
+  const backend = knowledgeBackend(env);
+  if (!backend) return json({ error: "Knowledge base is not configured" }, 501);
+  const collection = match[1];
+  if (!NAME_RE.test(collection)) return json({ error: "Invalid collection name" }, 400);
+
+  if (search) {
+    if (request.method !== "POST") return json({ error: "Method not allowed" }, 405);
+    const body: any = await request.json().catch(() => null);
+    if (typeof body?.query !== "string" || !body.query.trim()) return json({ error: "'query' must be a non-empty string" }, 400);
+    const top_k = parseTopK(body.top_k) ?? DEFAULT_TOP_K;
+    if (Number.isNaN(top_k)) return json({ error: `'top_k' must be an integer between 1 and ${MAX_TOP_K}` }, 400);
+    try {
+      return json({ data: await retrieve(env, { collections: [collection], top_k }, body.query) });
+    } catch (e) {
+      return json({ error: "Embedding failed", detail: String(e) }, 502);
+    }
+  }
+
+  if (!admin) return null;
+  let id: string | undefined;
+  try {
+    id = admin[2] ? decodeURIComponent(admin[2]) : undefined;
+  } catch {
+    // 非法的百分号编码（如 %E0%A4%A）
+    return json({ error: "Invalid document id" }, 400);
+  }
+  if (id) {
+    if (request.method !== "DELETE") return json({ error: "Method not allowed" }, 405);
+    if (!(await deleteDocument(backend, collection, id))) return json({ error: "Document not found" }, 404);
+    return json({ deleted: true, collection, id });
+  }
+  if (request.method === "GET") {
+    const docs = await backend.listDocs(collection);
+    return json({ data: docs.sort((a, b) => a.title.localeCompare(b.title)) });
+  }
+  if (request.method !== "POST") return json({ error: "Method not allowed" }, 405);
+  const input = await readDocument(request, url);
+  if (typeof input === "string") return json({ error: input }, 400);
+  let result: Awaited<ReturnType<typeof ingestDocument>>;
+  try {
+    result = await ingestDocument(env, backend, collection, input);
+  } catch (e) {
+    return json({ error: "Embedding failed", detail: String(e) }, 502);
+  }
+  if (typeof result === "string") return json({ error: result }, 400);
+  return json(result.doc, result.replaced ? 200 : 201);
+}
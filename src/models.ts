@@ -0,0 +1,190 @@
+/**
+ * 模型能力表：上下文窗口、输出上限、是否支持采样参数、reasoning effort、托管/函数工具、图片输入、原生 JSON Schema 输出
+ * - 内置常见模型（前缀匹配）；KV（MODELS）的 "overrides" 可覆盖/补充，最长前缀优先
+ * - MODELS_REFRESH=on 时 /api/ping 拉到的 /models 列表里带能力字段的条目（OpenRouter 等）写入 KV 的 "discovered"
+ * - 优先级：overrides > discovered > 内置 > 默认
+ * - provider 的 payload 按能力决定带哪些参数；GET /api/models 列出当前上游模型的能力
+ */
+
+import { json } from "./sse";
+import type { Env } from "./types";
+import type { Upstream } from "./upstreams";
+
+const OVERRIDES_KEY = "overrides";
+const DISCOVERED_KEY = "discovered";
+// isolate 内缓存 KV 里的覆盖表
+const RELOAD_MS = 60_000;
+
+export type ReasoningEffort = "minimal" | "low" | "medium" | "high";
+/** web_search：Responses API 托管搜索；function：函数工具（tools.ts） */
+export type ToolType = "web_search" | "function";
+
+export interface ModelCapabilities {
+  context_window: number;
+  max_output_tokens: number;
+  /** 支持 temperature / top_p */
+  sampling: boolean;
+  /** 支持的 reasoning effort；空数组表示不支持 reasoning 参数 */
+  reasoning_efforts: ReasoningEffort[];
+  tools: ToolType[];
+  /** 接受图片输入 */
+  vision: boolean;
+  /** 原生 JSON Schema 输出（Responses text.format / Chat response_format）；否则改为提示词约束（见 structured.ts） */
+  structured_output: boolean;
+}
+
+export type CapabilitySource = "override" | "discovered" | "builtin" | "default";
+
+const REASONING: ReasoningEffort[] = ["low", "medium", "high"];
+const ALL_TOOLS: ToolType[] = ["web_search", "function"];
+
+// 前缀匹配，越具体的放越前
+const BUILTIN: [RegExp, ModelCapabilities][] = [
+  [/^gpt-5-chat/, { context_window: 128_000, max_output_tokens: 16_384, sampling: true, reasoning_efforts: [], tools: ALL_TOOLS, vision: true, structured_output: true }],
+  [/^gpt-5/, { context_window: 400_000, max_output_tokens: 128_000, sampling: false, reasoning_efforts: ["minimal", ...REASONING], tools: ALL_TOOLS, vision: true, structured_output: true }],
+  [/^gpt-4\.1-nano/, { context_window: 1_047_576, max_output_tokens: 32_768, sampling: true, reasoning_efforts: [], tools: ["function"], vision: true, structured_output: true }],
+  [/^gpt-4\.1/, { context_window: 1_047_576, max_output_tokens: 32_768, sampling: true, reasoning_efforts: [], tools: ALL_TOOLS, vision: true, structured_output: true }],
+  [/^gpt-4o/, { context_window: 128_000, max_output_tokens: 16_384, sampling: true, reasoning_efforts: [], tools: ALL_TOOLS, vision: true, structured_output: true }],
+  [/^gpt-4-turbo/, { context_window: 128_000, max_output_tokens: 4_096, sampling: true, reasoning_efforts: [], tools: ["function"], vision: true, structured_output: false }],
+  [/^gpt-4/, { context_window: 8_192, max_output_tokens: 8_192, sampling: true, reasoning_efforts: [], tools: ["function"], vision: false, structured_output: false }],
+  [/^gpt-3\.5/, { context_window: 16_385, max_output_tokens: 4_096, sampling: true, reasoning_efforts: [], tools: ["function"], vision: false, structured_output: false }],
+  [/^o3-mini/, { context_window: 200_000, max_output_tokens: 100_000, sampling: false, reasoning_efforts: REASONING, tools: ["function"], vision: false, structured_output: true }],
+  [/^o1/, { context_window: 200_000, max_output_tokens: 100_000, sampling: false, reasoning_efforts: REASONING, tools: ["function"], vision: true, structured_output: true }],
+  [/^o\d/, { context_window: 200_000, max_output_tokens: 100_000, sampling: false, reasoning_efforts: REASONING, tools: ALL_TOOLS, vision: true, structured_output: true }],
+  [/^@cf\/meta\/llama-3\.3/, { context_window: 24_000, max_output_tokens: 4_096, sampling: true, reasoning_efforts: [], tools: [], vision: false, structured_output: false }],
+  [/^@cf\//, { context_window: 8_192, max_output_tokens: 2_048, sampling: true, reasoning_efforts: [], tools: [], vision: false, structured_output: false }],
+];
+
+// 未知模型：按普通 chat 模型处理；不支持的参数由 providers 的降级重试兜底
+const DEFAULT_CAPABILITIES: ModelCapabilities = {
+  context_window: 32_000,
+  max_output_tokens: 16_384,
+  sampling: true,
+  reasoning_efforts: [],
+  tools: ["function"],
+  vision: true,
+  structured_output: false,
+};
+
+type Table = Record<string, Partial<ModelCapabilities>>;
+
+let loaded: { at: number; overrides: Table; discovered: Table } = { at: 0, overrides: {}, discovered: {} };
+
+function asTable(v: unknown): Table {
+  return v && typeof v === "object" && !Array.isArray(v) ? (v as Table) : {};
+}
+
+/** 每个请求开头调用；未绑定 MODELS 时不做任何事，否则每 60s 重新读取一次 */
+export async function loadModelRegistry(env: Env, now = Date.now()) {
+  if (!env.MODELS || now - loaded.at < RELOAD_MS) return;
+  try {
+    const [overrides, discovered] = await Promise.all([
+      env.MODELS.get(OVERRIDES_KEY, "json"),
+      env.MODELS.get(DISCOVERED_KEY, "json"),
+    ]);
+    loaded = { at: now, overrides: asTable(overrides), discovered: asTable(discovered) };
+  } catch {
+    // 读取失败时沿用上次的表
+    loaded.at = now;
+  }
+}
+
+/** 表中最长的前缀匹配 */
+function longestPrefix(table: Table, model: string): Partial<ModelCapabilities> | undefined {
+  const key = Object.keys(table)
+    .filter((k) => model.startsWith(k))
+    .sort((a, b) => b.length - a.length)[0];
+  return key === undefined ? undefined : table[key];
+}
+
+/** 只保留类型正确的字段 */
+function sanitize(p: Partial<ModelCapabilities> | undefined): Partial<ModelCapabilities> {
+  if (!p || typeof p !== "object") return {};
+  const out: Partial<ModelCapabilities> = {};
+  if (Number(p.context_window) > 0) out.context_window = Number(p.context_window);
+  if (Number(p.max_output_tokens) > 0) out.max_output_tokens = Number(p.max_output_tokens);
+  if (typeof p.sampling === "boolean") out.sampling = p.sampling;
+  if (typeof p.vision === "boolean") out.vision = p.vision;
+  if (typeof p.structured_output === "boolean") out.structured_output = p.structured_output;
+  if (Array.isArray(p.reasoning_efforts)) {
+    out.reasoning_efforts = p.reasoning_efforts.filter((e) => ["minimal", ...REASONING].includes(e));
+  }
+  if (Array.isArray(p.tools)) out.tools = p.tools.filter((t) => ALL_TOOLS.includes(t));
+  return out;
+}
+
+export function modelCapabilities(model: string): ModelCapabilities & { source: CapabilitySource } {
+  const builtin = BUILTIN.find(([re]) => re.test(model))?.[1];
+  const discovered = loaded.discovered[model];
+  const override = longestPrefix(loaded.overrides, model);
+  const source: CapabilitySource = override ? "override" : discovered ? "discovered" : builtin ? "builtin" : "default";
+  return {
+    ...DEFAULT_CAPABILITIES,
+    ...builtin,
+    ...sanitize(discovered),
+    ...sanitize(override),
+    source,
+  };
+}
+
+/** payload 用的 reasoning effort：优先 medium；不支持 reasoning 时为 undefined */
+export function reasoningEffort(caps: ModelCapabilities): ReasoningEffort | undefined {
+  const efforts = caps.reasoning_efforts;
+  return efforts.includes("medium") ? "medium" : efforts[0];
+}
+
+/**
+ * 从 /models 列表里提取能力（OpenRouter 风格：context_length、top_provider.max_completion_tokens、
+ * supported_parameters、architecture.input_modalities）；OpenAI 官方列表没有这些字段，返回空表
+ */
+export function discoverCapabilities(list: any): Table {
+  const out: Table = {};
+  for (const m of Array.isArray(list?.data) ? list.data : []) {
+    if (typeof m?.id !== "string") continue;
+    const caps: Partial<ModelCapabilities> = {};
+    const ctx = Number(m.context_length ?? m.context_window);
+    if (ctx > 0) caps.context_window = ctx;
+    const maxOut = Number(m.top_provider?.max_completion_tokens ?? m.max_output_tokens);
+    if (maxOut > 0) caps.max_output_tokens = maxOut;
+    const params: unknown = m.supported_parameters;
+    if (Array.isArray(params)) {
+      caps.sampling = params.includes("temperature");
+      caps.reasoning_efforts = params.includes("reasoning") || params.includes("reasoning_effort") ? REASONING : [];
+      caps.tools = params.includes("tools") ? ["function"] : [];
+      caps.structured_output = params.includes("structured_outputs");
+    }
+    const modalities: unknown = m.architecture?.input_modalities;
+    if (Array.isArray(modalities)) caps.vision = modalities.includes("image");
+    if (Object.keys(caps).length) out[m.id] = caps;
+  }
+  return out;
+}
+
+/** MODELS_REFRESH=on 时由 /api/ping 调用：把 /models 里发现的能力写入 KV */
+export async function refreshFromModelList(env: Env, list: any): Promise<number> {
+  if (!env.MODELS || String(env.MODELS_REFRESH || "").toLowerCase() !== "on") return 0;
+  const discovered = discoverCapabilities(list);
+  const count = Object.keys(discovered).length;
+  if (!count) return 0;
+  await env.MODELS.put(DISCOVERED_KEY, JSON.stringify(discovered));
+  loaded = { ...loaded, discovered };
+  return count;
+}
+
+/** GET /api/models[?model=<id>]：当前上游链的模型（或指定模型）及其能力 */
+export function handleModelRegistry(request: Request, url: URL, upstreams: Upstream[]): Response {
+  if (request.method !== "GET") return json({ error: "Method not allowed" }, 405);
+  const one = url.searchParams.get("model")?.trim();
+  const entries: { id: string; provider: string | null }[] = one
+    ? [{ id: one, provider: upstreams.find((up) => up.model === one)?.provider.id ?? null }]
+    : [];
+  if (!one) {
+    for (const up of upstreams) {
+      if (!entries.some((e) => e.id === up.model)) entries.push({ id: up.model, provider: up.provider.id });
+    }
+    for (const id of Object.keys(loaded.discovered)) {
+      if (!entries.some((e) => e.id === id)) entries.push({ id, provider: null });
+    }
+  }
+  return json({ data: entries.map((e) => ({ ...e, ...modelCapabilities(e.id) })) });
+}
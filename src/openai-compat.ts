@@ -0,0 +1,503 @@
+/**
+ * OpenAI 兼容接口：把 Worker 当作 drop-in base URL
+ * - POST /v1/chat/completions：流式/非流式、stream_options.include_usage、n、stop
+ * - GET  /v1/models
+ * 请求经 provider 层（默认 Responses API）转译，复用 failover 与首包看门狗；
+ * 不输出心跳/工具提示等非正文内容。
+ * n=1 的确定性请求走响应缓存（见 cache.ts）。
+ */
+
+import { type CachedCompletion, cacheHeaders, lookupCache, replayChunks, storeCache } from "./cache";
+import { REQUEST_TIMEOUT_MS, type UpstreamReport, generate } from "./chat";
+import { estimateTokens, messageTokens } from "./context";
+import { NetworkError, UpstreamError } from "./errors";
+import { type ChatRequest, type TokenUsage, resolveProviderId } from "./providers";
+import { SSE_HEADERS, sseData, sseDone } from "./sse";
+import type { Trace } from "./trace";
+import type { ChatMessage, ContentPart, Env } from "./types";
+import { type Upstream, loadUpstreams } from "./upstreams";
+import { type UsageRecord, mergeUsage, priceUsage } from "./usage";
+
+const MAX_CHOICES = 8;
+const MAX_STOP_SEQUENCES = 4;
+
+/** OpenAI 风格错误体 */
+function apiError(message: string, status = 400, param: string | null = null, code: string | null = null) {
+  const type = status >= 500 ? "server_error" : "invalid_request_error";
+  return new Response(JSON.stringify({ error: { message, type, param, code } }), {
+    status,
+    headers: { "content-type": "application/json", "Access-Control-Allow-Origin": "*" },
+  });
+}
+
+/* ---------------- /v1/models ---------------- */
+
+export function handleModels(env: Env): Response {
+  const upstreams = safeLoad(env);
+  const seen = new Set<string>();
+  const data = [];
+  for (const up of upstreams) {
+    if (seen.has(up.model)) continue;
+    seen.add(up.model);
+    data.push({ id: up.model, object: "model", created: 0, owned_by: up.provider.id });
+  }
+  return new Response(JSON.stringify({ object: "list", data }), {
+    headers: { "content-type": "application/json", "Access-Control-Allow-Origin": "*" },
+  });
+}
+
+function safeLoad(env: Env): Upstream[] {
+  try {
+    return loadUpstreams(env, resolveProviderId(env) ?? "openai-responses", false);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 按请求的 model 选上游：
+ * - 与某个上游配置的 model 相同 → 只用这些上游
+ * - "@cf/" 前缀 → Workers AI
+ * - 其他 → 默认上游链中的 OpenAI 上游，model 用请求值覆盖
+ */
+function upstreamsFor(env: Env, model?: string): Upstream[] {
+  if (model?.startsWith("@cf/")) {
+    return loadUpstreams(env, "workers-ai", true).map((up) => ({ ...up, model }));
+  }
+  const all = loadUpstreams(env, resolveProviderId(env) ?? "openai-responses", false);
+  if (!model) return all;
+
+  const same = all.filter((up) => up.model === model);
+  if (same.length) return same;
+
+  const openai = all.filter((up) => up.provider.id !== "workers-ai");
+  const base = openai.length ? openai : loadUpstreams(env, "openai-responses", true);
+  return base.map((up) => ({ ...up, model }));
+}
+
+/* ---------------- 请求转译 ---------------- */
+
+/** content 可能是 string 或 [{type:"text",text}] 数组；非文本部分忽略 */
+function textOf(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((p: any) => (typeof p === "string" ? p : typeof p?.text === "string" ? p.text : ""))
+      .filter(Boolean)
+      .join("\n");
+  }
+  return content == null ? "" : String(content);
+}
+
+/** user 消息里的 image_url 片段（https 或 data URL）转为 input_image；没有图片时返回 null */
+function imageParts(content: unknown): ContentPart[] | null {
+  if (!Array.isArray(content) || !content.some((p: any) => p?.type === "image_url")) return null;
+  const parts: ContentPart[] = [];
+  for (const p of content as any[]) {
+    if (typeof p === "string") parts.push({ type: "input_text", text: p });
+    else if (p?.type === "text" && typeof p.text === "string") parts.push({ type: "input_text", text: p.text });
+    else if (p?.type === "image_url") {
+      const url = typeof p.image_url === "string" ? p.image_url : p.image_url?.url;
+      if (typeof url !== "string" || !/^(https:|data:image\/)/.test(url)) continue;
+      const detail = p.image_url?.detail;
+      parts.push({ type: "input_image", image_url: url, ...(["low", "high", "auto"].includes(detail) ? { detail } : {}) });
+    }
+  }
+  return parts.length ? parts : null;
+}
+
+function toMessages(raw: any[]): ChatMessage[] {
+  return raw.map((m) => {
+    const content = textOf(m?.content);
+    const images = m?.role === "user" || m?.role === undefined ? imageParts(m?.content) : null;
+    if (images) return { role: "user", content: images };
+    switch (m?.role) {
+      case "system":
+      case "developer":
+        return { role: "system", content };
+      case "assistant":
+        return { role: "assistant", content };
+      case "tool":
+      case "function":
+        return { role: "user", content: `Tool result${m.name ? ` (${m.name})` : ""}:\n${content}` };
+      default:
+        return { role: "user", content };
+    }
+  });
+}
+
+interface CompletionParams {
+  model?: string;
+  n: number;
+  stream: boolean;
+  includeUsage: boolean;
+  stop: string[];
+  req: Omit<ChatRequest, "model">;
+}
+
+function parseParams(env: Env, body: any): CompletionParams | Response {
+  if (!body || typeof body !== "object") return apiError("Request body must be a JSON object");
+  if (!Array.isArray(body.messages) || !body.messages.length) {
+    return apiError("'messages' must be a non-empty array", 400, "messages");
+  }
+  if (body.model !== undefined && typeof body.model !== "string") {
+    return apiError("'model' must be a string", 400, "model");
+  }
+
+  const n = body.n === undefined || body.n === null ? 1 : Number(body.n);
+  if (!Number.isInteger(n) || n < 1 || n > MAX_CHOICES) {
+    return apiError(`'n' must be an integer between 1 and ${MAX_CHOICES}`, 400, "n");
+  }
+
+  let stop: string[] = [];
+  if (typeof body.stop === "string") stop = [body.stop];
+  else if (Array.isArray(body.stop)) stop = body.stop;
+  else if (body.stop !== undefined && body.stop !== null) {
+    return apiError("'stop' must be a string or array", 400, "stop");
+  }
+  if (stop.length > MAX_STOP_SEQUENCES || stop.some((s) => typeof s !== "string" || !s)) {
+    return apiError(`'stop' accepts up to ${MAX_STOP_SEQUENCES} non-empty strings`, 400, "stop");
+  }
+
+  const num = (v: unknown, fallback?: string) =>
+    v !== undefined && v !== null ? Number(v) : fallback ? Number(fallback) : undefined;
+
+  const max_output_tokens = num(body.max_completion_tokens ?? body.max_tokens, env.OPENAI_MAX_TOKENS) ?? 1024;
+  const temperature = num(body.temperature, env.OPENAI_TEMPERATURE) ?? 0.7;
+  const top_p = num(body.top_p, env.OPENAI_TOP_P) ?? 1.0;
+  const seed = num(body.seed, env.OPENAI_SEED);
+
+  for (const [param, v] of Object.entries({ max_tokens: max_output_tokens, temperature, top_p })) {
+    if (Number.isNaN(v)) return apiError(`'${param}' must be a number`, 400, param);
+  }
+
+  return {
+    model: body.model,
+    n,
+    stream: body.stream === true,
+    includeUsage: body.stream_options?.include_usage === true,
+    stop,
+    req: {
+      messages: toMessages(body.messages),
+      max_output_tokens,
+      temperature,
+      top_p,
+      seed,
+      tools: false,
+    },
+  };
+}
+
+/* ---------------- stop 序列 ---------------- */
+
+/**
+ * 增量匹配 stop 序列：保留可能跨 chunk 的尾部，命中后截断。
+ */
+class StopMatcher {
+  private buf = "";
+  private hold: number;
+  hit = false;
+
+  constructor(private stops: string[]) {
+    this.hold = Math.max(0, ...stops.map((s) => s.length - 1));
+  }
+
+  /** 返回可以安全输出的文本 */
+  push(text: string): string {
+    if (this.hit) return "";
+    if (!this.stops.length) return text;
+    this.buf += text;
+
+    let idx = -1;
+    for (const s of this.stops) {
+      const i = this.buf.indexOf(s);
+      if (i !== -1 && (idx === -1 || i < idx)) idx = i;
+    }
+    if (idx !== -1) {
+      this.hit = true;
+      const out = this.buf.slice(0, idx);
+      this.buf = "";
+      return out;
+    }
+
+    const safe = this.buf.length - this.hold;
+    if (safe <= 0) return "";
+    const out = this.buf.slice(0, safe);
+    this.buf = this.buf.slice(safe);
+    return out;
+  }
+
+  flush(): string {
+    const out = this.hit ? "" : this.buf;
+    this.buf = "";
+    return out;
+  }
+}
+
+/* ---------------- 单个 choice ---------------- */
+
+interface ChoiceResult {
+  text: string;
+  finish_reason: string;
+  usage?: TokenUsage;
+  model: string | null;
+}
+
+/**
+ * 生成一个 choice；onText 收到已过 stop 过滤的增量。
+ * stop 命中时中止该 choice 的上游，视为正常结束；上游来不及报 usage，按已收到的文本估算（同 compare）。
+ */
+async function runChoice(
+  env: Env,
+  upstreams: Upstream[],
+  params: CompletionParams,
+  signal: AbortSignal,
+  onText: (t: string) => void,
+  trace?: Trace
+): Promise<ChoiceResult> {
+  const ctl = new AbortController();
+  const onAbort = () => ctl.abort(signal.reason);
+  signal.addEventListener("abort", onAbort);
+
+  const stop = new StopMatcher(params.stop);
+  const result: ChoiceResult = { text: "", finish_reason: "stop", model: null };
+  const report: UpstreamReport = { name: null, provider: null, model: null, attempts: [] };
+  let received = "";
+  const emit = (t: string) => {
+    if (!t) return;
+    result.text += t;
+    onText(t);
+  };
+
+  try {
+    await generate(
+      env,
+      upstreams,
+      params.req,
+      {
+        text: (t) => {
+          received += t;
+          emit(stop.push(t));
+          if (stop.hit) ctl.abort("stop-sequence");
+        },
+        status: () => {},
+        debug: () => {},
+        usage: (u) => {
+          result.usage = u;
+        },
+        finish: (reason) => {
+          result.finish_reason = reason;
+        },
+      },
+      ctl.signal,
+      report,
+      trace
+    );
+  } catch (e) {
+    if (!stop.hit) throw e;
+  } finally {
+    signal.removeEventListener("abort", onAbort);
+  }
+  result.model = report.model;
+  if (stop.hit && !result.usage) {
+    result.usage = {
+      input_tokens: params.req.messages.reduce((n, m) => n + messageTokens(m), 0),
+      output_tokens: estimateTokens(received),
+    };
+  }
+
+  emit(stop.flush());
+  if (stop.hit) result.finish_reason = "stop";
+  return result;
+}
+
+/** 缓存命中：按块重放，不计用量 */
+function replayChoice(hit: CachedCompletion, onText: (t: string) => void): ChoiceResult {
+  for (const t of replayChunks(hit.text)) onText(t);
+  return { text: hit.text, finish_reason: hit.finish_reason, model: hit.model };
+}
+
+function sumUsage(results: ChoiceResult[]) {
+  let prompt = 0;
+  let cached = 0;
+  let completion = 0;
+  let reasoning = 0;
+  for (const r of results) {
+    // 每个 choice 都单独请求了一次；prompt 按 OpenAI 的口径只计一次
+    prompt = Math.max(prompt, r.usage?.input_tokens ?? 0);
+    cached = Math.max(cached, r.usage?.cached_tokens ?? 0);
+    completion += r.usage?.output_tokens ?? 0;
+    reasoning += r.usage?.reasoning_tokens ?? 0;
+  }
+  return {
+    prompt_tokens: prompt,
+    completion_tokens: completion,
+    total_tokens: prompt + completion,
+    prompt_tokens_details: { cached_tokens: cached },
+    completion_tokens_details: { reasoning_tokens: reasoning },
+  };
+}
+
+/** 每个 choice 是一次独立的上游请求，用量与费用全部计入 */
+async function reportUsage(
+  env: Env,
+  results: ChoiceResult[],
+  onUsage?: (usage: UsageRecord) => Promise<void> | void
+) {
+  if (!onUsage) return;
+  const usage = mergeUsage(results.flatMap((r) => (r.usage ? [priceUsage(env, r.model, r.usage)] : [])));
+  if (usage) await onUsage(usage);
+}
+
+/**
+ * code 为稳定错误码（errors.ts 的分类）。
+ * 上游 401/403 是本服务的凭据问题，不是客户端的：对外一律 502，也不透传上游的原文（可能带 key 片段）
+ */
+function errorPayload(e: unknown) {
+  if (e instanceof UpstreamError) {
+    const auth = e.status === 401 || e.status === 403;
+    return {
+      status: auth ? 502 : e.status >= 400 && e.status < 600 ? e.status : 502,
+      error: {
+        message: auth ? "Upstream authentication failed" : e.upstreamMessage.slice(0, 800) || e.message,
+        type: "upstream_error",
+        param: e.param ?? null,
+        code: e.kind,
+      },
+      retryAfterMs: e.retryAfterMs,
+    };
+  }
+  if (e instanceof NetworkError) {
+    return { status: 502, error: { message: e.message, type: "upstream_error", param: null, code: "server" } };
+  }
+  const timeout = (e as any)?.name === "AbortError" || String(e).includes("request-timeout");
+  return {
+    status: timeout ? 504 : 500,
+    error: { message: String(e).slice(0, 800), type: timeout ? "timeout" : "server_error", param: null, code: null },
+  };
+}
+
+/* ---------------- /v1/chat/completions ---------------- */
+
+export async function handleChatCompletions(
+  request: Request,
+  env: Env,
+  onUsage?: (usage: UsageRecord) => Promise<void> | void,
+  trace?: Trace
+): Promise<Response> {
+  const body = await request.json().catch(() => null);
+  const params = parseParams(env, body);
+  if (params instanceof Response) return params;
+
+  let upstreams: Upstream[];
+  try {
+    upstreams = upstreamsFor(env, params.model);
+  } catch (e) {
+    return apiError(`Invalid upstream configuration: ${String(e)}`, 500);
+  }
+
+  const id = `chatcmpl-${crypto.randomUUID().replace(/-/g, "")}`;
+  const created = Math.floor(Date.now() / 1000);
+  const modelName = params.model || upstreams[0]?.model || "unknown";
+
+  // n > 1 本来就是要多个不同的回答，不走缓存
+  const cache = params.n === 1 ? await lookupCache(env, request, upstreams, params.req, params.stop.length ? { stop: params.stop } : {}) : null;
+  const headers = cacheHeaders(env, cache);
+
+  const ctl = new AbortController();
+  const timeoutHandle = setTimeout(() => ctl.abort("request-timeout"), REQUEST_TIMEOUT_MS);
+
+  const choice = async (onText: (t: string) => void) =>
+    cache?.hit ? replayChoice(cache.hit, onText) : runChoice(env, upstreams, params, ctl.signal, onText, trace);
+  const save = async ([r]: ChoiceResult[]) => {
+    if (r) await storeCache(env, cache, { text: r.text, finish_reason: r.finish_reason, model: r.model });
+  };
+
+  if (!params.stream) {
+    try {
+      // 某个 choice 失败时，已完成的 choice 照样计费，再返回错误
+      const settled = await Promise.allSettled(Array.from({ length: params.n }, () => choice(() => {})));
+      const results = settled.flatMap((r) => (r.status === "fulfilled" ? [r.value] : []));
+      await reportUsage(env, results, onUsage);
+      const failed = settled.find((r) => r.status === "rejected") as PromiseRejectedResult | undefined;
+      if (failed) throw failed.reason;
+      await save(results);
+      return new Response(
+        JSON.stringify({
+          id,
+          object: "chat.completion",
+          created,
+          model: params.model || results[0]?.model || modelName,
+          choices: results.map((r, index) => ({
+            index,
+            message: { role: "assistant", content: r.text },
+            finish_reason: r.finish_reason,
+          })),
+          usage: sumUsage(results),
+        }),
+        { headers: { "content-type": "application/json", "Access-Control-Allow-Origin": "*", ...headers } }
+      );
+    } catch (e) {
+      const { status, error, retryAfterMs } = errorPayload(e);
+      const headers: Record<string, string> = { "content-type": "application/json", "Access-Control-Allow-Origin": "*" };
+      if (retryAfterMs !== undefined) headers["Retry-After"] = String(Math.ceil(retryAfterMs / 1000));
+      return new Response(JSON.stringify({ error }), { status, headers });
+    } finally {
+      clearTimeout(timeoutHandle);
+      ctl.abort("done");
+    }
+  }
+
+  let closed = false;
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (choices: unknown[], extra: Record<string, unknown> = {}) => {
+        if (closed) return;
+        controller.enqueue(
+          sseData({ id, object: "chat.completion.chunk", created, model: modelName, choices, ...extra })
+        );
+      };
+
+      (async () => {
+        for (let index = 0; index < params.n; index++) {
+          send([{ index, delta: { role: "assistant", content: "" }, finish_reason: null }]);
+        }
+
+        const results = await Promise.allSettled(
+          Array.from({ length: params.n }, (_, index) =>
+            choice((t) => send([{ index, delta: { content: t }, finish_reason: null }])).then((r) => {
+              send([{ index, delta: {}, finish_reason: r.finish_reason }]);
+              return r;
+            })
+          )
+        );
+
+        const ok = results.flatMap((r) => (r.status === "fulfilled" ? [r.value] : []));
+        await reportUsage(env, ok, onUsage).catch(() => {});
+
+        const failed = results.find((r) => r.status === "rejected") as PromiseRejectedResult | undefined;
+        if (!failed) await save(ok).catch(() => {});
+        if (failed) {
+          // 与 OpenAI 一致：流中直接输出 error 对象
+          if (!closed) controller.enqueue(sseData({ error: errorPayload(failed.reason).error }));
+        }
+        if (params.includeUsage) send([], { usage: sumUsage(ok) });
+
+        clearTimeout(timeoutHandle);
+        if (!closed) {
+          controller.enqueue(sseDone());
+          closed = true;
+          controller.close();
+        }
+      })();
+    },
+    cancel() {
+      // 客户端断开 → 中止上游
+      closed = true;
+      clearTimeout(timeoutHandle);
+      ctl.abort("client-cancel");
+    },
+  });
+
+  return new Response(stream, { headers: { ...SSE_HEADERS, ...headers } });
+}
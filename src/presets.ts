@@ -0,0 +1,172 @@
+/**
+ * 命名预设（persona）：system prompt + provider/model + 采样参数 + 工具开关，存在 KV（PRESETS）
+ * - GET    /api/presets                    列表（供前端选择，不含 system prompt）
+ * - GET    /api/admin/presets              完整列表
+ * - POST   /api/admin/presets              新建（name 已存在时 409）
+ * - GET    /api/admin/presets/:name        读取
+ * - PUT    /api/admin/presets/:name        创建或整体替换
+ * - DELETE /api/admin/presets/:name
+ * 对话请求用 ?preset=<name>（或 body.preset）选择；query 里显式给的参数仍优先
+ */
+
+import { type ProviderId, PROVIDER_IDS, isProviderId } from "./providers";
+import { json } from "./sse";
+import type { Env } from "./types";
+
+const PREFIX = "preset:";
+const NAME_RE = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+const MAX_PROMPT_CHARS = 20_000;
+
+export interface Preset {
+  /** 小写字母/数字/-/_，最长 64 */
+  name: string;
+  description?: string;
+  system_prompt?: string;
+  provider?: ProviderId;
+  model?: string;
+  temperature?: number;
+  top_p?: number;
+  seed?: number;
+  max_tokens?: number;
+  /** false 时关闭托管 web search 与函数工具；true 时打开 web search；不设时按 env */
+  tools?: boolean;
+  updated_at: number;
+}
+
+/** /api/presets 返回的公开字段 */
+export type PresetSummary = Pick<Preset, "name" | "description" | "provider" | "model">;
+
+const presetKey = (name: string) => PREFIX + name;
+
+const STRING_FIELDS = [
+  ["description", 500],
+  ["system_prompt", MAX_PROMPT_CHARS],
+  ["model", 200],
+] as const;
+
+// [字段, 最小, 最大, 是否整数]
+const NUMBER_FIELDS = [
+  ["temperature", 0, 2, false],
+  ["top_p", 0, 1, false],
+  ["seed", -(2 ** 31), 2 ** 31 - 1, true],
+  ["max_tokens", 1, 200_000, true],
+] as const;
+
+/** 校验请求体；返回错误信息或规范化后的预设（只保留设置了的字段） */
+function parsePreset(name: string, body: any): Preset | string {
+  if (!NAME_RE.test(name)) return "'name' must match [a-z0-9][a-z0-9_-]{0,63}";
+  if (!body || typeof body !== "object" || Array.isArray(body)) return "Request body must be a JSON object";
+
+  const preset: Preset = { name, updated_at: Date.now() };
+  for (const [f, max] of STRING_FIELDS) {
+    const v = body[f];
+    if (v === undefined || v === null) continue;
+    if (typeof v !== "string" || v.length > max) return `'${f}' must be a string of at most ${max} characters`;
+    if (v.trim()) preset[f] = f === "model" ? v.trim() : v;
+  }
+  for (const [f, min, max, int] of NUMBER_FIELDS) {
+    const v = body[f];
+    if (v === undefined || v === null) continue;
+    if (typeof v !== "number" || v < min || v > max || (int && !Number.isInteger(v))) {
+      return `'${f}' must be ${int ? "an integer" : "a number"} between ${min} and ${max}`;
+    }
+    preset[f] = v;
+  }
+  if (body.provider !== undefined && body.provider !== null) {
+    if (!isProviderId(body.provider)) return `'provider' must be one of ${PROVIDER_IDS.join(", ")}`;
+    preset.provider = body.provider;
+  }
+  if (body.tools !== undefined && body.tools !== null) {
+    if (typeof body.tools !== "boolean") return "'tools' must be a boolean";
+    preset.tools = body.tools;
+  }
+  return preset;
+}
+
+export async function getPreset(env: Env, name: string): Promise<Preset | null> {
+  if (!env.PRESETS || !NAME_RE.test(name)) return null;
+  return env.PRESETS.get<Preset>(presetKey(name), "json");
+}
+
+async function listPresets(env: Env): Promise<Preset[]> {
+  const out: Preset[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await env.PRESETS!.list({ prefix: PREFIX, cursor });
+    const values = await Promise.all(page.keys.map((k) => env.PRESETS!.get<Preset>(k.name, "json")));
+    for (const v of values) if (v) out.push(v);
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return out.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * 对话请求选用的预设（?preset= > body.preset）。
+ * 未指定时返回 null；未配置 PRESETS 或预设不存在时返回错误 Response。
+ */
+export async function resolvePreset(env: Env, url: URL, body: any): Promise<Preset | null | Response> {
+  const name = url.searchParams.get("preset") ?? (typeof body?.preset === "string" ? body.preset : null);
+  if (!name) return null;
+  if (!env.PRESETS) return json({ error: "Presets are not configured" }, 501);
+  const preset = await getPreset(env, name);
+  return preset ?? json({ error: "Unknown preset", preset: name }, 400);
+}
+
+/** 处理 /api/presets 与 /api/admin/presets/*；路径不匹配时返回 null */
+export async function handlePresets(request: Request, env: Env, url: URL): Promise<Response | null> {
+  if (url.pathname === "/api/presets") {
+    if (request.method !== "GET") return json({ error: "Method not allowed" }, 405);
+    if (!env.PRESETS) return json({ error: "Presets are not configured" }, 501);
+    const presets = await listPresets(env);
+    const data: PresetSummary[] = presets.map(({ name, description, provider, model }) => ({
+      name,
+      description,
+      provider,
+      model,
+    }));
+    return json({ data });
+  }
+
+  const m = url.pathname.match(/^\/api\/admin\/presets(?:\/([^/]+))?\/?$/);
+  if (!m) return null;
+  if (!env.PRESETS) return json({ error: "Presets are not configured" }, 501);
+  const name = m[1];
+
+  if (!name) {
+    if (request.method === "GET") return json({ data: await listPresets(env) });
+    if (request.method !== "POST") return json({ error: "Method not allowed" }, 405);
+    const body: any = await request.json().catch(() => null);
+    const preset = parsePreset(typeof body?.name === "string" ? body.name : "", body);
+    if (typeof preset === "string") return json({ error: preset }, 400);
+    if (await env.PRESETS.get(presetKey(preset.name))) {
+      return json({ error: "Preset already exists", name: preset.name }, 409);
+    }
+    await env.PRESETS.put(presetKey(preset.name), JSON.stringify(preset));
+    return json(preset, 201);
+  }
+
+  switch (request.method) {
+    case "GET": {
+      const preset = await getPreset(env, name);
+      return preset ? json(preset) : json({ error: "Preset not found" }, 404);
+    }
+    case "PUT": {
+      const body: any = await request.json().catch(() => null);
+      if (body && typeof body.name === "string" && body.name !== name) {
+        return json({ error: "Body 'name' does not match the URL" }, 400);
+      }
+      const preset = parsePreset(name, body);
+      if (typeof preset === "string") return json({ error: preset }, 400);
+      const existed = !!(await env.PRESETS.get(presetKey(name)));
+      await env.PRESETS.put(presetKey(name), JSON.stringify(preset));
+      return json(preset, existed ? 200 : 201);
+    }
+    case "DELETE": {
+      if (!(await env.PRESETS.get(presetKey(name)))) return json({ error: "Preset not found" }, 404);
+      await env.PRESETS.delete(presetKey(name));
+      return json({ deleted: true, name });
+    }
+    default:
+      return json({ error: "Method not allowed" }, 405);
+  }
+}
@@ -0,0 +1,715 @@
+/**
+ * 上游 provider 抽象
+ * - openai-responses：OpenAI Responses API（默认，含托管搜索工具）
+ * - openai-chat：任意 OpenAI 兼容的 /chat/completions
+ * - workers-ai：Cloudflare Workers AI 绑定（env.AI）
+ * 各 provider 只负责请求与解析，统一通过 StreamSink 输出正文/提示；
+ * chat-completions 风格的 SSE 由 chat.ts 统一生成。
+ * 函数工具（tools.ts）的多步循环由 openai-responses / openai-chat 执行；workers-ai 不挂函数工具。
+ * 各模型带哪些参数（采样 / reasoning / 托管搜索 / 函数工具 / 图片 / JSON Schema）由 models.ts 的能力表决定。
+ * 上游错误统一抛 UpstreamError（errors.ts 分类）；OpenAI 两个 provider 遇到参数不被支持的 400 时去掉该参数重试。
+ */
+
+import { contentText } from "./attachments";
+import { NetworkError, UpstreamError, isDegradable } from "./errors";
+import { modelCapabilities, reasoningEffort } from "./models";
+import { upstreamFetch } from "./replay";
+import { readSSE } from "./sse";
+import { type StructuredFormat, withSchemaInstruction } from "./structured";
+import { type FunctionCall, type ToolEvent, type Toolbox, agentLoop } from "./tools";
+import type { ChatMessage, ContentPart, Env } from "./types";
+
+export const DEFAULT_API_BASE = "https://api.openai.com/v1";
+export const DEFAULT_MODEL = "gpt-4o";
+export const DEFAULT_WORKERS_AI_MODEL = "@cf/meta/llama-3.3-70b-instruct-fp8-fast";
+const DEFAULT_BETA = "responses-2024-12-17";
+
+export type ProviderId = "openai-responses" | "openai-chat" | "workers-ai";
+export const PROVIDER_IDS: ProviderId[] = ["openai-responses", "openai-chat", "workers-ai"];
+
+/** 与上游无关的一次对话请求 */
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  max_output_tokens: number;
+  temperature: number;
+  top_p: number;
+  seed?: number;
+  /** 是否尝试挂托管 web search（仅 openai-responses 生效） */
+  tools: boolean;
+  /** Worker 内执行的函数工具（见 tools.ts）；不设时不挂 */
+  toolbox?: Toolbox;
+  /** 结构化输出的 schema（见 structured.ts） */
+  response_format?: StructuredFormat;
+}
+
+/** 联网检索的引用来源；start/end_index 为该来源在正文中所支撑片段的偏移 */
+export interface Citation {
+  url: string;
+  title?: string;
+  start_index?: number;
+  end_index?: number;
+}
+
+/** 统一后的 token 用量；cached ⊂ input，reasoning ⊂ output */
+export interface TokenUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cached_tokens?: number;
+  reasoning_tokens?: number;
+}
+
+/** 多次请求（工具循环、修复重试）的用量累加 */
+export function addUsage(a: TokenUsage | undefined, b: TokenUsage): TokenUsage {
+  if (!a) return b;
+  const cached = (a.cached_tokens ?? 0) + (b.cached_tokens ?? 0);
+  const reasoning = (a.reasoning_tokens ?? 0) + (b.reasoning_tokens ?? 0);
+  return {
+    input_tokens: a.input_tokens + b.input_tokens,
+    output_tokens: a.output_tokens + b.output_tokens,
+    ...(cached ? { cached_tokens: cached } : {}),
+    ...(reasoning ? { reasoning_tokens: reasoning } : {}),
+  };
+}
+
+/** provider 的输出口 */
+export interface StreamSink {
+  /** 正文增量 */
+  text(delta: string): void;
+  /** 工具/进度提示 */
+  status(note: string): void;
+  /** DEBUG_DUMP / DEBUG_EVENTS 输出 */
+  debug(line: string): void;
+  /** 上游报告的用量（通常在流末尾） */
+  usage?(usage: TokenUsage): void;
+  /** 非正常结束原因，如 "length" */
+  finish?(reason: string): void;
+  /** 函数工具的调用与结果 */
+  tool?(event: ToolEvent): void;
+  /** 引用来源（url_citation） */
+  citation?(citation: Citation): void;
+}
+
+/** 非流式结果 */
+export interface Completion {
+  text: string;
+  citations?: Citation[];
+  usage?: TokenUsage;
+  finish_reason?: string;
+}
+
+export interface ChatProvider {
+  readonly id: ProviderId;
+  /** 流式请求；上游结束时 resolve，signal 中止时 reject */
+  stream(req: ChatRequest, sink: StreamSink, signal: AbortSignal): Promise<void>;
+  /** 非流式请求（首包看门狗回退 / 非流式接口用） */
+  complete(req: ChatRequest, signal?: AbortSignal): Promise<Completion>;
+}
+
+const isOn = (v?: string) => String(v || "").toLowerCase() === "on";
+
+export function isProviderId(v: unknown): v is ProviderId {
+  return PROVIDER_IDS.includes(v as ProviderId);
+}
+
+/** 请求指定 > env.LLM_PROVIDER > openai-responses；未知值返回 null */
+export function resolveProviderId(env: Env, requested?: string | null): ProviderId | null {
+  const id = (requested || env.LLM_PROVIDER || "openai-responses").trim().toLowerCase();
+  return isProviderId(id) ? id : null;
+}
+
+export function defaultModel(id: ProviderId, env: Env): string {
+  if (id === "workers-ai") return (env.WORKERS_AI_MODEL || DEFAULT_WORKERS_AI_MODEL).trim();
+  return (env.OPENAI_MODEL || DEFAULT_MODEL).trim();
+}
+
+/** 覆盖 env 中的上游地址/密钥（多上游 failover 用） */
+export interface ProviderConnection {
+  apiBase?: string;
+  apiKey?: string;
+}
+
+export function createProvider(id: ProviderId, env: Env, conn: ProviderConnection = {}): ChatProvider {
+  switch (id) {
+    case "openai-chat":
+      return new OpenAIChatProvider(env, conn);
+    case "workers-ai":
+      return new WorkersAIProvider(env);
+    default:
+      return new OpenAIResponsesProvider(env, conn);
+  }
+}
+
+/** 按模型能力（models.ts）决定的 payload 参数 */
+function capabilityParams(req: ChatRequest) {
+  const caps = modelCapabilities(req.model);
+  const nativeSchema = !!req.response_format && caps.structured_output;
+  return {
+    caps,
+    nativeSchema,
+    // 不支持原生 JSON Schema 时改为在 system 消息里约束
+    messages: nativeSchema ? req.messages : withSchemaInstruction(req.messages, req.response_format),
+    maxOutput: Math.min(req.max_output_tokens, caps.max_output_tokens),
+    effort: reasoningEffort(caps),
+    webSearch: req.tools && caps.tools.includes("web_search"),
+    functions: caps.tools.includes("function"),
+  };
+}
+
+async function readText(r: Response) {
+  return r.text().catch(() => "");
+}
+
+/** Responses 的 url_citation 注解；base 为所在文本片段在整段正文中的起点 */
+function toCitation(a: any, base = 0): Citation | undefined {
+  if (a?.type !== "url_citation" || typeof a.url !== "string") return undefined;
+  const c: Citation = { url: a.url };
+  if (typeof a.title === "string" && a.title) c.title = a.title;
+  if (Number.isInteger(a.start_index)) c.start_index = base + a.start_index;
+  if (Number.isInteger(a.end_index)) c.end_index = base + a.end_index;
+  return c;
+}
+
+/** Responses 的 input/output_tokens 与 Chat Completions 的 prompt/completion_tokens 统一 */
+function normalizeUsage(u: any): TokenUsage | undefined {
+  if (!u || typeof u !== "object") return undefined;
+  const input = Number(u.input_tokens ?? u.prompt_tokens);
+  const output = Number(u.output_tokens ?? u.completion_tokens);
+  if (Number.isNaN(input) && Number.isNaN(output)) return undefined;
+  const cached = Number((u.input_tokens_details ?? u.prompt_tokens_details)?.cached_tokens) || 0;
+  const reasoning = Number((u.output_tokens_details ?? u.completion_tokens_details)?.reasoning_tokens) || 0;
+  return {
+    input_tokens: input || 0,
+    output_tokens: output || 0,
+    ...(cached ? { cached_tokens: cached } : {}),
+    ...(reasoning ? { reasoning_tokens: reasoning } : {}),
+  };
+}
+
+/* ---------------- OpenAI Responses ---------------- */
+
+/** 片段已由 resolveAttachments 解析；Responses 的 input 片段格式与内部格式一致 */
+function toResponsesPart(p: ContentPart) {
+  switch (p.type) {
+    case "input_text":
+      return { type: "input_text", text: p.text };
+    case "input_image":
+      return { type: "input_image", image_url: p.image_url, detail: p.detail ?? "auto" };
+    default:
+      return { type: "input_file", filename: p.filename, file_data: p.file_data };
+  }
+}
+
+/** 不接受图片的模型：附件退化为文本占位 */
+function toResponsesInput(messages: ChatMessage[], vision: boolean) {
+  return messages.map((m) =>
+    typeof m.content === "string"
+      ? m
+      : vision
+        ? { role: m.role, content: m.content.map(toResponsesPart) }
+        : { role: m.role, content: contentText(m.content) }
+  );
+}
+
+// 出错参数 → payload 里一并去掉的字段
+const DEGRADE_GROUPS: [RegExp, string[]][] = [
+  [/^tool/, ["tools", "tool_choice"]],
+  [/^reasoning/, ["reasoning", "reasoning_effort"]],
+  [/^(temperature|top_p)/, ["temperature", "top_p"]],
+];
+
+/** 去掉 param 所在的一组字段；没有可去的返回 false */
+function dropParam(body: any, param: string): boolean {
+  const keys = DEGRADE_GROUPS.find(([re]) => re.test(param))?.[1] ?? [];
+  const present = keys.filter((k) => body[k] !== undefined);
+  for (const k of present) delete body[k];
+  return present.length > 0;
+}
+
+/**
+ * 发请求；400 报 tools / 采样参数 / reasoning 不被支持时去掉对应字段重试（每组最多一次）。
+ * 其余非 2xx 抛 UpstreamError。
+ */
+async function postDegrading(send: (body: unknown) => Promise<Response>, body: any): Promise<Response> {
+  for (;;) {
+    const r = await send(body);
+    if (r.ok) return r;
+    const err = new UpstreamError(r.status, await readText(r), r.headers);
+    if (!isDegradable(err) || !dropParam(body, err.param!)) throw err;
+  }
+}
+
+class OpenAIResponsesProvider implements ChatProvider {
+  readonly id = "openai-responses" as const;
+  private apiBase: string;
+  private apiKey: string;
+
+  constructor(private env: Env, conn: ProviderConnection) {
+    this.apiBase = (conn.apiBase || env.OPENAI_API_BASE || DEFAULT_API_BASE).trim();
+    this.apiKey = conn.apiKey || env.OPENAI_API_KEY;
+  }
+
+  private payload(req: ChatRequest, stream: boolean, minimal = false, extra: unknown[] = [], withTools = false) {
+    const { caps, maxOutput, effort, webSearch, functions, nativeSchema, messages } = capabilityParams(req);
+    const p: any = {
+      model: req.model,
+      input: [...toResponsesInput(messages, caps.vision), ...extra],
+      stream,
+      max_output_tokens: maxOutput,
+    };
+    if (req.seed !== undefined && !Number.isNaN(req.seed)) p.seed = req.seed;
+    if (nativeSchema) {
+      const { name, schema, strict } = req.response_format!;
+      p.text = { format: { type: "json_schema", name, schema, strict } };
+    }
+    if (minimal) return p;
+    if (caps.sampling) {
+      p.temperature = req.temperature;
+      p.top_p = req.top_p;
+    }
+    if (effort) p.reasoning = { effort };
+    const tools: unknown[] = [];
+    if (webSearch) tools.push({ type: "web_search_preview_2025_03_11" });
+    if (withTools && functions && req.toolbox) {
+      for (const t of req.toolbox.tools) {
+        tools.push({ type: "function", name: t.name, description: t.description, parameters: t.parameters, strict: false });
+      }
+    }
+    if (tools.length) {
+      p.tools = tools;
+      p.tool_choice = "auto";
+    }
+    return p;
+  }
+
+  private post(body: unknown, accept: string, beta: string, signal?: AbortSignal) {
+    return upstreamFetch(this.env, `${this.apiBase}/responses`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+        Accept: accept,
+        "OpenAI-Beta": beta,
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+  }
+
+  async stream(req: ChatRequest, sink: StreamSink, signal: AbortSignal) {
+    // 已输出正文长度（跨轮累计），用于把引用偏移换算到整段正文
+    const pos = { emitted: 0 };
+    // 函数调用/结果作为 input item 追加到下一轮
+    await agentLoop(
+      req.toolbox,
+      sink,
+      signal,
+      (extra, withTools, stepSink) => this.streamStep(req, stepSink, signal, extra, withTools, pos),
+      (results) =>
+        results.flatMap(({ call, output }) => [
+          { type: "function_call", call_id: call.call_id, name: call.name, arguments: call.arguments },
+          { type: "function_call_output", call_id: call.call_id, output },
+        ])
+    );
+  }
+
+  /** 一轮流式请求；返回模型发起的函数调用 */
+  private async streamStep(
+    req: ChatRequest,
+    sink: StreamSink,
+    signal: AbortSignal,
+    extra: unknown[],
+    withTools: boolean,
+    pos: { emitted: number }
+  ): Promise<FunctionCall[]> {
+    const beta = (this.env.OPENAI_BETA ? String(this.env.OPENAI_BETA) : DEFAULT_BETA) + "; tools=v1";
+    const calls: FunctionCall[] = [];
+
+    // 可能带工具；不被支持时逐项去掉重试
+    const upstream = await postDegrading(
+      (body) => this.post(body, "text/event-stream", beta, signal),
+      this.payload(req, true, false, extra, withTools)
+    );
+    if (!upstream.body) throw new UpstreamError(upstream.status, "Empty response body");
+
+    const DEBUG_EVENTS = isOn(this.env.DEBUG_EVENTS);
+    const DEBUG_DUMP = isOn(this.env.DEBUG_DUMP);
+    let dumpCount = 0;
+
+    // 每个 output_text 片段（output_index:content_index）在整段正文中的起点
+    const partBase = new Map<string, number>();
+    const partKey = (o: any) => `${o?.output_index ?? 0}:${o?.content_index ?? 0}`;
+    let sawAnnotationEvents = false;
+
+    await readSSE(
+      upstream.body,
+      (dataStr, lastEvent) => {
+        // DEBUG_DUMP: 把前 5 条 RAW data 显示出来
+        if (DEBUG_DUMP && dumpCount < 5 && dataStr !== "[DONE]") {
+          dumpCount++;
+          sink.debug(`（RAW#${dumpCount}）${dataStr.slice(0, 300)}`);
+        }
+
+        if (dataStr === "[DONE]") return true;
+
+        let obj: any;
+        try {
+          obj = JSON.parse(dataStr);
+        } catch {
+          // 非 JSON 行忽略（或依靠 DEBUG_DUMP 已显示）
+          return;
+        }
+        const type = (obj?.type || lastEvent || obj?.event || "").toString();
+        const tLower = type.toLowerCase();
+
+        // 函数调用：参数增量不是正文，完整调用在 output_item.done 中
+        if (type.startsWith("response.function_call_arguments.")) return;
+        if (type === "response.output_item.done" && obj?.item?.type === "function_call") {
+          calls.push({
+            call_id: String(obj.item.call_id ?? obj.item.id ?? ""),
+            name: String(obj.item.name ?? ""),
+            arguments: typeof obj.item.arguments === "string" ? obj.item.arguments : "{}",
+          });
+          return;
+        }
+
+        // 文本增量
+        if (type.endsWith(".delta") || type === "response.delta" || typeof obj.delta === "string") {
+          const t =
+            typeof obj.delta === "string"
+              ? obj.delta
+              : typeof obj.text === "string"
+              ? obj.text
+              : typeof obj.content === "string"
+              ? obj.content
+              : obj?.output_text?.content?.[0]?.text || "";
+          if (t) {
+            if (!partBase.has(partKey(obj))) partBase.set(partKey(obj), pos.emitted);
+            pos.emitted += t.length;
+            sink.text(t);
+          }
+          return;
+        }
+
+        // 引用：流式时逐条给出；个别代理只在 message item 结束时整体给出
+        if (type === "response.output_text.annotation.added") {
+          sawAnnotationEvents = true;
+          const c = toCitation(obj.annotation, partBase.get(partKey(obj)));
+          if (c) sink.citation?.(c);
+          return;
+        }
+        if (type === "response.output_item.done" && obj?.item?.type === "message") {
+          if (!sawAnnotationEvents) {
+            (obj.item.content ?? []).forEach((part: any, i: number) => {
+              const base = partBase.get(`${obj.output_index ?? 0}:${i}`);
+              for (const a of part?.annotations ?? []) {
+                const c = toCitation(a, base);
+                if (c) sink.citation?.(c);
+              }
+            });
+          }
+          return;
+        }
+
+        // 完成（response.completed 携带 usage；output_text.done 等子项结束不代表整体结束）
+        if (
+          type === "response.completed" ||
+          type === "response.done" ||
+          type === "response.incomplete" ||
+          obj?.done === true ||
+          obj?.status === "completed"
+        ) {
+          const usage = normalizeUsage(obj?.response?.usage ?? obj?.usage);
+          if (usage) sink.usage?.(usage);
+          if (type === "response.incomplete") sink.finish?.("length");
+          return true;
+        }
+        if (type === "response.failed" || type === "error") {
+          const err = obj?.response?.error ?? obj?.error ?? obj;
+          throw new UpstreamError(500, JSON.stringify(err).slice(0, 800));
+        }
+
+        // 工具事件提示（更宽匹配）
+        if (/(tool_call|tool)\.(started|created)/i.test(tLower) || /web_search/.test(JSON.stringify(obj || {}))) {
+          sink.status("🔎 正在联网检索…");
+          return;
+        }
+        if (/(tool_call|tool)\.(completed|finish|finished)/i.test(tLower)) {
+          sink.status("📄 已获取结果，正在整合…");
+          return;
+        }
+        if (/progress|working|searching|retrieving/i.test(tLower)) {
+          sink.status("（检索进行中…）");
+          return;
+        }
+
+        // 未知事件可见化（调试/兜底）
+        if (DEBUG_EVENTS && type) sink.debug(`（事件：${type}）`);
+      },
+      signal
+    );
+    return calls;
+  }
+
+  async complete(req: ChatRequest, signal?: AbortSignal) {
+    // 挂了托管搜索时带上工具（引用来源才会返回），不被支持时去掉重试
+    const beta = this.env.OPENAI_BETA || DEFAULT_BETA;
+    const minimal = !capabilityParams(req).webSearch;
+    const r = await postDegrading(
+      (body) => this.post(body, "application/json", beta, signal),
+      this.payload(req, false, minimal)
+    );
+    const txt = await readText(r);
+    if (!txt) throw new UpstreamError(r.status, txt);
+
+    let out = "";
+    let j: any;
+    const citations: Citation[] = [];
+    try {
+      j = JSON.parse(txt);
+      const part = j?.output?.find?.((o: any) => o?.type === "message")?.content?.[0];
+      out =
+        j?.output_text?.[0]?.content?.[0]?.text ||
+        part?.text ||
+        j?.output?.[0]?.content?.[0]?.text ||
+        j?.choices?.[0]?.message?.content ||
+        "";
+      if (out && out === part?.text) {
+        for (const a of part?.annotations ?? []) {
+          const c = toCitation(a);
+          if (c) citations.push(c);
+        }
+      }
+    } catch {}
+    return {
+      text: out || txt.slice(0, 2000),
+      ...(citations.length ? { citations } : {}),
+      usage: normalizeUsage(j?.usage),
+      finish_reason: j?.status === "incomplete" ? "length" : undefined,
+    };
+  }
+}
+
+/* ---------------- OpenAI 兼容 Chat Completions ---------------- */
+
+function toChatPart(p: ContentPart) {
+  switch (p.type) {
+    case "input_text":
+      return { type: "text", text: p.text };
+    case "input_image":
+      return { type: "image_url", image_url: { url: p.image_url, detail: p.detail ?? "auto" } };
+    default:
+      return { type: "file", file: { filename: p.filename, file_data: p.file_data } };
+  }
+}
+
+function toChatMessages(messages: ChatMessage[], vision: boolean) {
+  return messages.map((m) =>
+    typeof m.content === "string"
+      ? m
+      : vision
+        ? { role: m.role, content: m.content.map(toChatPart) }
+        : { role: m.role, content: contentText(m.content) }
+  );
+}
+
+class OpenAIChatProvider implements ChatProvider {
+  readonly id = "openai-chat" as const;
+  private apiBase: string;
+  private apiKey: string;
+
+  constructor(private env: Env, conn: ProviderConnection) {
+    this.apiBase = (conn.apiBase || env.OPENAI_API_BASE || DEFAULT_API_BASE).trim();
+    this.apiKey = conn.apiKey || env.OPENAI_API_KEY;
+  }
+
+  private payload(req: ChatRequest, stream: boolean, extra: unknown[] = [], withTools = false) {
+    const { caps, maxOutput, effort, functions, nativeSchema, messages } = capabilityParams(req);
+    const p: any = {
+      model: req.model,
+      messages: [...toChatMessages(messages, caps.vision), ...extra],
+      stream,
+    };
+    if (nativeSchema) {
+      const { name, schema, strict } = req.response_format!;
+      p.response_format = { type: "json_schema", json_schema: { name, schema, strict } };
+    }
+    // reasoning 模型只接受 max_completion_tokens
+    if (effort) p.max_completion_tokens = maxOutput;
+    else p.max_tokens = maxOutput;
+    if (stream) p.stream_options = { include_usage: true };
+    if (req.seed !== undefined && !Number.isNaN(req.seed)) p.seed = req.seed;
+    if (caps.sampling) {
+      p.temperature = req.temperature;
+      p.top_p = req.top_p;
+    }
+    if (effort) p.reasoning_effort = effort;
+    if (withTools && functions && req.toolbox) {
+      p.tools = req.toolbox.tools.map((t) => ({
+        type: "function",
+        function: { name: t.name, description: t.description, parameters: t.parameters },
+      }));
+      p.tool_choice = "auto";
+    }
+    return p;
+  }
+
+  private post(body: unknown, accept: string, signal?: AbortSignal) {
+    return upstreamFetch(this.env, `${this.apiBase}/chat/completions`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+        Accept: accept,
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+  }
+
+  async stream(req: ChatRequest, sink: StreamSink, signal: AbortSignal) {
+    // 一条带 tool_calls 的 assistant 消息 + 每个调用一条 tool 消息
+    await agentLoop(
+      req.toolbox,
+      sink,
+      signal,
+      (extra, withTools, stepSink) => this.streamStep(req, stepSink, signal, extra, withTools),
+      (results) => [
+        {
+          role: "assistant",
+          content: null,
+          tool_calls: results.map(({ call }) => ({
+            id: call.call_id,
+            type: "function",
+            function: { name: call.name, arguments: call.arguments },
+          })),
+        },
+        ...results.map(({ call, output }) => ({ role: "tool", tool_call_id: call.call_id, content: output })),
+      ]
+    );
+  }
+
+  /** 一轮流式请求；返回模型发起的函数调用（tool_calls 按 index 分片拼接） */
+  private async streamStep(
+    req: ChatRequest,
+    sink: StreamSink,
+    signal: AbortSignal,
+    extra: unknown[],
+    withTools: boolean
+  ): Promise<FunctionCall[]> {
+    const upstream = await postDegrading(
+      (body) => this.post(body, "text/event-stream", signal),
+      this.payload(req, true, extra, withTools)
+    );
+    if (!upstream.body) throw new UpstreamError(upstream.status, "Empty response body");
+
+    const DEBUG_DUMP = isOn(this.env.DEBUG_DUMP);
+    let dumpCount = 0;
+    const calls: FunctionCall[] = [];
+
+    await readSSE(
+      upstream.body,
+      (dataStr) => {
+        if (DEBUG_DUMP && dumpCount < 5 && dataStr !== "[DONE]") {
+          dumpCount++;
+          sink.debug(`（RAW#${dumpCount}）${dataStr.slice(0, 300)}`);
+        }
+        if (dataStr === "[DONE]") return true;
+        try {
+          const obj = JSON.parse(dataStr);
+          const choice = obj?.choices?.[0];
+          const t = choice?.delta?.content;
+          if (typeof t === "string" && t) sink.text(t);
+          for (const tc of choice?.delta?.tool_calls ?? []) {
+            const c = (calls[tc.index ?? 0] ??= { call_id: "", name: "", arguments: "" });
+            if (tc.id) c.call_id = tc.id;
+            if (tc.function?.name) c.name += tc.function.name;
+            if (tc.function?.arguments) c.arguments += tc.function.arguments;
+          }
+          const fr = choice?.finish_reason;
+          if (fr && fr !== "stop" && fr !== "tool_calls") sink.finish?.(fr);
+          const usage = normalizeUsage(obj?.usage);
+          if (usage) sink.usage?.(usage);
+        } catch {}
+      },
+      signal
+    );
+    return calls.filter(Boolean);
+  }
+
+  async complete(req: ChatRequest, signal?: AbortSignal) {
+    const r = await postDegrading((body) => this.post(body, "application/json", signal), this.payload(req, false));
+    const txt = await readText(r);
+    if (!txt) throw new UpstreamError(r.status, txt);
+    try {
+      const j = JSON.parse(txt);
+      const out = j?.choices?.[0]?.message?.content;
+      if (typeof out === "string" && out) {
+        const fr = j.choices[0].finish_reason;
+        return { text: out, usage: normalizeUsage(j.usage), finish_reason: fr && fr !== "stop" ? fr : undefined };
+      }
+    } catch {}
+    return { text: txt.slice(0, 2000) };
+  }
+}
+
+/* ---------------- Workers AI ---------------- */
+
+class WorkersAIProvider implements ChatProvider {
+  readonly id = "workers-ai" as const;
+
+  constructor(private env: Env) {}
+
+  private run(req: ChatRequest, stream: boolean): Promise<unknown> {
+    if (!this.env.AI) throw new Error("Workers AI binding (AI) is not configured");
+    // 多模态片段退化为纯文本（图片/文件以占位符表示）
+    const inputs: Record<string, unknown> = {
+      messages: withSchemaInstruction(req.messages, req.response_format).map((m) => ({
+        role: m.role,
+        content: contentText(m.content),
+      })),
+      stream,
+      max_tokens: Math.min(req.max_output_tokens, modelCapabilities(req.model).max_output_tokens),
+      temperature: req.temperature,
+      top_p: req.top_p,
+    };
+    if (req.seed !== undefined && !Number.isNaN(req.seed)) inputs.seed = req.seed;
+    // 模型名来自 env，无法静态收窄到 AiModels 的键；绑定调用失败按上游故障处理（重试 / failover）
+    return (this.env.AI as any).run(req.model, inputs).catch((e: unknown) => {
+      throw NetworkError.wrap(e);
+    });
+  }
+
+  async stream(req: ChatRequest, sink: StreamSink, signal: AbortSignal) {
+    const readable = (await this.run(req, true)) as ReadableStream<Uint8Array>;
+
+    const DEBUG_DUMP = isOn(this.env.DEBUG_DUMP);
+    let dumpCount = 0;
+
+    await readSSE(
+      readable,
+      (dataStr) => {
+        if (DEBUG_DUMP && dumpCount < 5 && dataStr !== "[DONE]") {
+          dumpCount++;
+          sink.debug(`（RAW#${dumpCount}）${dataStr.slice(0, 300)}`);
+        }
+        if (dataStr === "[DONE]") return true;
+        try {
+          const obj = JSON.parse(dataStr);
+          if (typeof obj?.response === "string" && obj.response) sink.text(obj.response);
+          const usage = normalizeUsage(obj?.usage);
+          if (usage) sink.usage?.(usage);
+        } catch {}
+      },
+      signal
+    );
+  }
+
+  async complete(req: ChatRequest) {
+    const out: any = await this.run(req, false);
+    return {
+      text: typeof out?.response === "string" ? out.response : JSON.stringify(out ?? ""),
+      usage: normalizeUsage(out?.usage),
+    };
+  }
+}
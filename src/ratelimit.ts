@@ -0,0 +1,115 @@
+/**
+ * 每个 API key 一个 RateLimiter Durable Object（idFromName(key id)）
+ * - 滑动窗口：窗口切成 60 个桶，按桶累计，过期桶丢弃
+ * - requests_per_minute / requests_per_day：请求前检查并计数
+ * - tokens_per_day：请求前检查已用量，请求结束后 addTokens 累加
+ */
+
+import { DurableObject } from "cloudflare:workers";
+import type { Env } from "./types";
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 86_400_000;
+const BUCKETS = 60;
+
+/** 单个 key 的配额；未设置的项不限制 */
+export interface KeyLimits {
+  requests_per_minute?: number;
+  requests_per_day?: number;
+  tokens_per_day?: number;
+}
+
+export type LimitResult =
+  | { ok: true; remaining?: number }
+  | { ok: false; limit: keyof KeyLimits; max: number; retry_after: number };
+
+/** 桶起始时间 → 计数 */
+type Buckets = Record<string, number>;
+
+class SlidingWindow {
+  constructor(private buckets: Buckets, private windowMs: number) {}
+
+  private get bucketMs() {
+    return this.windowMs / BUCKETS;
+  }
+
+  prune(now: number) {
+    for (const k of Object.keys(this.buckets)) {
+      if (Number(k) + this.windowMs <= now) delete this.buckets[k];
+    }
+  }
+
+  sum(now: number) {
+    this.prune(now);
+    return Object.values(this.buckets).reduce((a, b) => a + b, 0);
+  }
+
+  add(now: number, n: number) {
+    const k = String(Math.floor(now / this.bucketMs) * this.bucketMs);
+    this.buckets[k] = (this.buckets[k] ?? 0) + n;
+  }
+
+  /** 至少还要等多少秒，窗口内用量才会降到 limit - need 以下 */
+  retryAfter(now: number, limit: number, need: number) {
+    let total = this.sum(now);
+    const keys = Object.keys(this.buckets).map(Number).sort((a, b) => a - b);
+    for (const k of keys) {
+      total -= this.buckets[k];
+      if (total + need <= limit) return Math.max(1, Math.ceil((k + this.windowMs - now) / 1000));
+    }
+    return Math.ceil(this.windowMs / 1000);
+  }
+}
+
+interface LimiterState {
+  rpm: Buckets;
+  rpd: Buckets;
+  tpd: Buckets;
+}
+
+export class RateLimiter extends DurableObject<Env> {
+  private state?: LimiterState;
+
+  private async load(): Promise<LimiterState> {
+    this.state ??= (await this.ctx.storage.get<LimiterState>("state")) ?? { rpm: {}, rpd: {}, tpd: {} };
+    return this.state;
+  }
+
+  /** 检查配额；通过时计入本次请求 */
+  async hit(limits: KeyLimits, now = Date.now()): Promise<LimitResult> {
+    const s = await this.load();
+    const rpm = new SlidingWindow(s.rpm, MINUTE_MS);
+    const rpd = new SlidingWindow(s.rpd, DAY_MS);
+    const tpd = new SlidingWindow(s.tpd, DAY_MS);
+
+    // tokens：本次用量事后才知道，已用量达到上限即拒绝
+    const checks: [keyof KeyLimits, SlidingWindow][] = [
+      ["requests_per_minute", rpm],
+      ["requests_per_day", rpd],
+      ["tokens_per_day", tpd],
+    ];
+    for (const [name, w] of checks) {
+      const max = limits[name];
+      if (max && w.sum(now) >= max) {
+        return { ok: false, limit: name, max, retry_after: w.retryAfter(now, max, 1) };
+      }
+    }
+
+    rpm.add(now, 1);
+    rpd.add(now, 1);
+    await this.ctx.storage.put("state", s);
+    return {
+      ok: true,
+      remaining: limits.requests_per_minute ? limits.requests_per_minute - rpm.sum(now) : undefined,
+    };
+  }
+
+  async addTokens(tokens: number, now = Date.now()) {
+    if (!(tokens > 0)) return;
+    const s = await this.load();
+    const tpd = new SlidingWindow(s.tpd, DAY_MS);
+    tpd.prune(now);
+    tpd.add(now, tokens);
+    await this.ctx.storage.put("state", s);
+  }
+}
@@ -0,0 +1,573 @@
+/**
+ * 上游录制 / 回放 / 模拟（离线开发与确定性测试）
+ * - UPSTREAM_MODE：
+ *   - 不设 / "live"：直连上游
+ *   - "record"：直连，同时把读完的响应（状态、头、带时间间隔的分片）存进 UPSTREAM_FIXTURES（KV）
+ *   - "replay"：只从 UPSTREAM_FIXTURES 回放，不联网；没有录制时返回 404（错误体里带 fixture key）
+ *   - "mock"：不联网也不需要 KV，按请求合成 Responses / Chat Completions 格式的回复，见 MockScript
+ * - fixture key：方法 + URL + 请求体的 SHA-256（不含 Authorization 等头）；中途取消或断流的响应不录
+ * - 回放节奏 UPSTREAM_REPLAY_TIMING："original"（默认，按录制时的间隔）/ "instant" / 延迟倍率（"0.1" 即 10 倍速）
+ * - fixture 可手改后 PUT 回去：改 delay_ms 调节奏，插入 { error } 模拟断流、{ stall: true } 模拟卡住（直到请求中止）
+ * - GET /api/admin/fixtures 列表、GET / PUT / DELETE /api/admin/fixtures/:key
+ * 只接管 HTTP 上游（providers、moderation、embeddings、/api/health、/api/ping）；Workers AI 绑定与 fetch_url 工具照常
+ */
+
+import { sha256Hex } from "./auth";
+import { NetworkError } from "./errors";
+import { json } from "./sse";
+import type { Env } from "./types";
+
+export type UpstreamMode = "live" | "record" | "replay" | "mock";
+const MODES: UpstreamMode[] = ["live", "record", "replay", "mock"];
+
+const PREFIX = "fixture:";
+const KEY_RE = /^[0-9a-f]{64}$/;
+const LIST_LIMIT = 100;
+// 录制时保留的响应头（错误分类 / 重试要用）
+const KEPT_HEADERS = ["content-type", "retry-after", "retry-after-ms"];
+const MOCK_EMBEDDING_DIMS = 1536;
+const te = new TextEncoder();
+
+/** 响应体分片；delay_ms 为距上一片的间隔（第一片为距请求发出） */
+export type FixtureChunk =
+  | { delay_ms: number; data: string }
+  /** 以网络错误中断（fetch 的 TypeError，按 5xx 处理） */
+  | { delay_ms: number; error: string }
+  /** 不再输出，直到请求被中止 */
+  | { delay_ms: number; stall: true };
+
+export interface UpstreamFixture {
+  /** 便于查看的请求摘要，不参与匹配 */
+  request: { method: string; url: string; model?: string };
+  status: number;
+  headers: Record<string, string>;
+  chunks: FixtureChunk[];
+  recorded_at: number;
+}
+
+/** KV metadata，列表时不用读整个 fixture */
+interface FixtureMeta {
+  method: string;
+  url: string;
+  model?: string;
+  status: number;
+  chunks: number;
+  recorded_at: number;
+}
+
+export function upstreamMode(env: Env): UpstreamMode {
+  const m = (env.UPSTREAM_MODE || "live").trim().toLowerCase() as UpstreamMode;
+  if (!MODES.includes(m)) throw new Error(`UPSTREAM_MODE must be one of: ${MODES.join(", ")}`);
+  return m;
+}
+
+/** 回放延迟的倍率；0 为不等待 */
+function replayScale(env: Env): number {
+  const v = (env.UPSTREAM_REPLAY_TIMING || "original").trim().toLowerCase();
+  if (v === "original") return 1;
+  if (v === "instant") return 0;
+  const n = Number(v);
+  if (!Number.isFinite(n) || n < 0) {
+    throw new Error("UPSTREAM_REPLAY_TIMING must be 'original', 'instant' or a non-negative multiplier");
+  }
+  return n;
+}
+
+export function fixtureKey(method: string, url: string, body: string): Promise<string> {
+  return sha256Hex(`${method} ${url}\n${body}`);
+}
+
+/** 上游 HTTP 请求的统一入口：按 UPSTREAM_MODE 直连 / 录制 / 回放 / 模拟；连接失败抛 NetworkError */
+export async function upstreamFetch(env: Env, url: string, init: RequestInit = {}): Promise<Response> {
+  const mode = upstreamMode(env);
+  if (mode === "live") return connect(url, init);
+
+  const method = (init.method || "GET").toUpperCase();
+  const body = typeof init.body === "string" ? init.body : "";
+  if (mode === "mock") return playFixture(mockFixture(env, method, url, body), init.signal, 1);
+
+  const store = env.UPSTREAM_FIXTURES;
+  if (!store) throw new Error(`UPSTREAM_MODE=${mode} requires the UPSTREAM_FIXTURES binding`);
+  const key = await fixtureKey(method, url, body);
+  const request = { method, url, model: modelOf(body) };
+  if (mode === "record") return record(store, key, request, url, init);
+
+  const fixture = await store.get<UpstreamFixture>(PREFIX + key, "json");
+  if (!fixture) {
+    const message = `No recorded fixture for ${method} ${url} (key ${key}); record it with UPSTREAM_MODE=record`;
+    return playFixture(errorFixture(request, 404, message, "fixture_not_found"), init.signal, 0);
+  }
+  return playFixture(fixture, init.signal, replayScale(env));
+}
+
+function connect(url: string, init: RequestInit): Promise<Response> {
+  return fetch(url, init).catch((e) => {
+    throw NetworkError.wrap(e, init.signal);
+  });
+}
+
+function modelOf(body: string): string | undefined {
+  try {
+    const m = JSON.parse(body)?.model;
+    return typeof m === "string" ? m : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/* ---------------- 录制 ---------------- */
+
+async function record(
+  store: KVNamespace,
+  key: string,
+  request: UpstreamFixture["request"],
+  url: string,
+  init: RequestInit
+): Promise<Response> {
+  const started = Date.now();
+  const res = await connect(url, init);
+  const headers: Record<string, string> = {};
+  for (const h of KEPT_HEADERS) {
+    const v = res.headers.get(h);
+    if (v !== null) headers[h] = v;
+  }
+  const chunks: FixtureChunk[] = [];
+  const save = () => {
+    const fixture: UpstreamFixture = { request, status: res.status, headers, chunks, recorded_at: started };
+    const metadata: FixtureMeta = { ...request, status: res.status, chunks: chunks.length, recorded_at: started };
+    return store.put(PREFIX + key, JSON.stringify(fixture), { metadata });
+  };
+  if (!res.body) {
+    await save();
+    return res;
+  }
+
+  // 另一路自己读到结束再落盘：调用方读到 response.completed 就不再读也能录全；中止 / 断流时不录
+  const [body, copy] = res.body.tee();
+  (async () => {
+    const reader = copy.getReader();
+    const decoder = new TextDecoder();
+    let last = started;
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      const now = Date.now();
+      chunks.push({ delay_ms: now - last, data: decoder.decode(value, { stream: true }) });
+      last = now;
+    }
+    await save();
+  })().catch(() => {});
+  return new Response(body, { status: res.status, statusText: res.statusText, headers: res.headers });
+}
+
+/* ---------------- 回放 ---------------- */
+
+/** 按分片节奏输出；signal 中止或调用方取消读取时停止 */
+function playFixture(fixture: UpstreamFixture, signal: AbortSignal | null | undefined, scale: number): Response {
+  signal?.throwIfAborted();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let i = 0;
+  const wait = (ms: number) => new Promise<void>((resolve) => (timer = setTimeout(resolve, ms)));
+
+  const body = new ReadableStream<Uint8Array>({
+    // 与 fetch 一致：中止后读取报错
+    start(controller) {
+      signal?.addEventListener(
+        "abort",
+        () => {
+          clearTimeout(timer);
+          controller.error(signal.reason);
+        },
+        { once: true }
+      );
+    },
+    async pull(controller) {
+      const c = fixture.chunks[i++];
+      if (!c) return controller.close();
+      const ms = Math.round(c.delay_ms * scale);
+      if (ms > 0) await wait(ms);
+      if ("stall" in c) return new Promise<void>(() => {});
+      if ("error" in c) return controller.error(new TypeError(c.error));
+      controller.enqueue(te.encode(c.data));
+    },
+    cancel() {
+      clearTimeout(timer);
+    },
+  });
+  return new Response(body, { status: fixture.status, headers: fixture.headers });
+}
+
+/* ---------------- 模拟 ---------------- */
+
+/**
+ * mock 指令：最后一条 user 消息里的 [mock: key=value ...]，可写多条，取第一条匹配的（model= 过滤）。
+ * 不带指令时回复 "Mock reply: <消息原文>"，按词分片
+ */
+interface MockScript {
+  /** 只对这个模型的请求生效（区分多个上游） */
+  model?: string;
+  /** 只对前 N 次匹配的对话请求生效（isolate 内计数，moderation 不计），之后正常回复 */
+  times?: number;
+  /** 直接返回该 HTTP 状态（OpenAI 风格错误体） */
+  status?: number;
+  /** 配合 status：Retry-After 秒 */
+  retry_after?: number;
+  /** 请求体带这个参数时返回 400 unsupported_parameter（验证参数回退） */
+  reject?: string;
+  /** 每个分片前等待的 ms（非流式为整个响应） */
+  delay?: number;
+  /** 流式输出 N 个分片后卡住；0 为一个字也不出（首包看门狗 / 总超时） */
+  stall?: number;
+  /** 流式输出 N 个分片后断流 */
+  cut?: number;
+  /** 请求挂了该函数工具且还没有工具结果时，发起一次调用 */
+  call?: string;
+  /** call 的参数（不含空格的 JSON），默认 {} */
+  args?: string;
+  /** moderation 标记为命中该类别 */
+  flag?: string;
+}
+
+const DIRECTIVE_RE = /\[mock:([^\]]*)\]/g;
+const NUMBER_KEYS = new Set(["times", "status", "retry_after", "delay", "stall", "cut"]);
+// times 计数：按指令原文；只有对话请求计数
+const mockCounters = new Map<string, number>();
+
+/** count=false 时只看 times 是否用完，不消耗次数（moderation 与对话看到的是同一条指令） */
+function pickScript(prompt: string, model?: string, count = true): MockScript {
+  for (const [raw, inner] of prompt.matchAll(DIRECTIVE_RE)) {
+    const script: Record<string, string | number> = {};
+    for (const pair of inner.trim().split(/\s+/).filter(Boolean)) {
+      const eq = pair.indexOf("=");
+      const k = eq === -1 ? pair : pair.slice(0, eq);
+      const v = eq === -1 ? "" : pair.slice(eq + 1);
+      script[k] = NUMBER_KEYS.has(k) ? Number(v) || 0 : v;
+    }
+    const s = script as MockScript;
+    if (s.model && s.model !== model) continue;
+    if (s.times !== undefined) {
+      const n = mockCounters.get(raw) ?? 0;
+      if (n >= s.times) return {};
+      if (count) mockCounters.set(raw, n + 1);
+    }
+    return s;
+  }
+  return {};
+}
+
+const textOf = (content: unknown): string =>
+  typeof content === "string"
+    ? content
+    : Array.isArray(content)
+      ? content.map((p: any) => (typeof p?.text === "string" ? p.text : "")).join("")
+      : "";
+
+/** Responses 的 input 与 Chat Completions 的 messages 都适用 */
+function conversation(body: any): any[] {
+  return Array.isArray(body?.input) ? body.input : Array.isArray(body?.messages) ? body.messages : [];
+}
+
+function lastUserText(body: any): string {
+  const m = [...conversation(body)].reverse().find((x) => x?.role === "user");
+  return m ? textOf(m.content) : typeof body?.input === "string" ? body.input : "";
+}
+
+/** 最近一次函数调用的结果（function_call_output / role: tool） */
+function lastToolOutput(body: any): string | undefined {
+  const m = [...conversation(body)].reverse().find((x) => x?.type === "function_call_output" || x?.role === "tool");
+  if (!m) return undefined;
+  return m.type === "function_call_output" ? String(m.output ?? "") : textOf(m.content);
+}
+
+function hasTool(body: any, name: string): boolean {
+  return (body?.tools ?? []).some((t: any) => (t?.name ?? t?.function?.name) === name);
+}
+
+function mockFixture(env: Env, method: string, url: string, raw: string): UpstreamFixture {
+  let body: any = null;
+  try {
+    body = raw ? JSON.parse(raw) : null;
+  } catch {}
+  const path = new URL(url).pathname;
+  const request = { method, url, model: typeof body?.model === "string" ? body.model : undefined };
+
+  if (path.endsWith("/models")) {
+    const id = (env.OPENAI_MODEL || "gpt-4o").trim();
+    return jsonFixture(request, { object: "list", data: [{ id, object: "model", owned_by: "mock" }] });
+  }
+  if (path.endsWith("/moderations")) {
+    const flag = pickScript(textOf(body?.input), undefined, false).flag;
+    return jsonFixture(request, { results: [{ flagged: !!flag, categories: flag ? { [flag]: true } : {} }] });
+  }
+  if (path.endsWith("/embeddings")) {
+    const inputs: string[] = Array.isArray(body?.input) ? body.input : [String(body?.input ?? "")];
+    const dims = Number(body?.dimensions) || MOCK_EMBEDDING_DIMS;
+    return jsonFixture(request, {
+      object: "list",
+      data: inputs.map((t, index) => ({ object: "embedding", index, embedding: mockEmbedding(t, dims) })),
+      usage: { prompt_tokens: 0, total_tokens: 0 },
+    });
+  }
+  if (path.endsWith("/responses")) return mockChat(request, body, raw, "responses");
+  if (path.endsWith("/chat/completions")) return mockChat(request, body, raw, "chat");
+  return errorFixture(request, 404, `Mock upstream has no route for ${method} ${path}`, null);
+}
+
+function jsonFixture(request: UpstreamFixture["request"], data: unknown, delay = 0, status = 200): UpstreamFixture {
+  return {
+    request,
+    status,
+    headers: { "content-type": "application/json" },
+    chunks: [{ delay_ms: delay, data: JSON.stringify(data) }],
+    recorded_at: 0,
+  };
+}
+
+function errorFixture(
+  request: UpstreamFixture["request"],
+  status: number,
+  message: string,
+  code: string | null,
+  extra: { param?: string; headers?: Record<string, string> } = {}
+): UpstreamFixture {
+  const type = status === 429 ? "rate_limit_error" : status >= 500 ? "server_error" : "invalid_request_error";
+  const fixture = jsonFixture(request, { error: { message, type, param: extra.param ?? null, code } }, 0, status);
+  fixture.headers = { ...fixture.headers, ...extra.headers };
+  return fixture;
+}
+
+function mockChat(request: UpstreamFixture["request"], body: any, raw: string, wire: "responses" | "chat"): UpstreamFixture {
+  const prompt = lastUserText(body);
+  const script = pickScript(prompt, request.model);
+
+  if (script.status) {
+    const code = script.status === 429 ? "rate_limit_exceeded" : script.status >= 500 ? "server_error" : null;
+    const headers: Record<string, string> =
+      script.retry_after !== undefined ? { "retry-after": String(script.retry_after) } : {};
+    return errorFixture(request, script.status, `Mock upstream error ${script.status}`, code, { headers });
+  }
+  if (script.reject && body?.[script.reject] !== undefined) {
+    return errorFixture(
+      request,
+      400,
+      `Unsupported parameter: '${script.reject}' is not supported with this model.`,
+      "unsupported_parameter",
+      { param: script.reject }
+    );
+  }
+
+  const output = lastToolOutput(body);
+  const call =
+    script.call && output === undefined && hasTool(body, script.call)
+      ? { call_id: "call_mock_1", name: script.call, arguments: script.args || "{}" }
+      : null;
+  const text = call
+    ? ""
+    : output !== undefined
+      ? `Tool result: ${output}`
+      : `Mock reply: ${prompt.replace(DIRECTIVE_RE, "").trim() || "(empty)"}`;
+  const pieces = text.match(/\s*\S+/g) ?? [];
+  const usage = { input: Math.ceil(raw.length / 4), output: pieces.length };
+  const delay = script.delay ?? 0;
+
+  if (body?.stream !== true) {
+    const data = wire === "responses" ? responsesJson(request.model, text, call, usage) : chatJson(request.model, text, call, usage);
+    return jsonFixture(request, data, delay);
+  }
+
+  const frames = wire === "responses" ? responsesFrames(pieces, call, usage) : chatFrames(request.model, pieces, call, usage);
+  const chunks: FixtureChunk[] = [];
+  for (const [n, data] of frames.entries()) {
+    if (script.stall === n) {
+      chunks.push({ delay_ms: delay, stall: true });
+      break;
+    }
+    if (script.cut === n) {
+      chunks.push({ delay_ms: delay, error: "Mock upstream connection reset" });
+      break;
+    }
+    chunks.push({ delay_ms: delay, data });
+  }
+  return { request, status: 200, headers: { "content-type": "text/event-stream" }, chunks, recorded_at: 0 };
+}
+
+type MockCall = { call_id: string; name: string; arguments: string } | null;
+type MockUsage = { input: number; output: number };
+
+const sse = (data: unknown, event?: string) =>
+  `${event ? `event: ${event}\n` : ""}data: ${typeof data === "string" ? data : JSON.stringify(data)}\n\n`;
+
+function responsesFrames(pieces: string[], call: MockCall, usage: MockUsage): string[] {
+  const ev = (type: string, o: Record<string, unknown> = {}) => sse({ type, ...o }, type);
+  return [
+    ev("response.created", { response: { id: "resp_mock", status: "in_progress" } }),
+    ...pieces.map((delta) => ev("response.output_text.delta", { output_index: 0, content_index: 0, delta })),
+    ...(call ? [ev("response.output_item.done", { output_index: 0, item: { type: "function_call", ...call } })] : []),
+    ev("response.completed", {
+      response: {
+        id: "resp_mock",
+        status: "completed",
+        usage: { input_tokens: usage.input, output_tokens: usage.output, total_tokens: usage.input + usage.output },
+      },
+    }),
+  ];
+}
+
+function chatFrames(model: string | undefined, pieces: string[], call: MockCall, usage: MockUsage): string[] {
+  const chunk = (delta: unknown, finish_reason: string | null = null) =>
+    sse({ id: "chatcmpl-mock", object: "chat.completion.chunk", model, choices: [{ index: 0, delta, finish_reason }] });
+  return [
+    chunk({ role: "assistant", content: "" }),
+    ...pieces.map((content) => chunk({ content })),
+    ...(call
+      ? [
+          chunk({
+            tool_calls: [
+              { index: 0, id: call.call_id, type: "function", function: { name: call.name, arguments: call.arguments } },
+            ],
+          }),
+        ]
+      : []),
+    chunk({}, call ? "tool_calls" : "stop"),
+    sse({
+      id: "chatcmpl-mock",
+      object: "chat.completion.chunk",
+      model,
+      choices: [],
+      usage: { prompt_tokens: usage.input, completion_tokens: usage.output, total_tokens: usage.input + usage.output },
+    }),
+    sse("[DONE]"),
+  ];
+}
+
+function responsesJson(model: string | undefined, text: string, call: MockCall, usage: MockUsage) {
+  const output = call
+    ? [{ type: "function_call", ...call }]
+    : [{ type: "message", role: "assistant", content: [{ type: "output_text", text, annotations: [] }] }];
+  return {
+    id: "resp_mock",
+    object: "response",
+    status: "completed",
+    model,
+    output,
+    usage: { input_tokens: usage.input, output_tokens: usage.output, total_tokens: usage.input + usage.output },
+  };
+}
+
+function chatJson(model: string | undefined, text: string, call: MockCall, usage: MockUsage) {
+  const message = call
+    ? {
+        role: "assistant",
+        content: null,
+        tool_calls: [{ id: call.call_id, type: "function", function: { name: call.name, arguments: call.arguments } }],
+      }
+    : { role: "assistant", content: text };
+  return {
+    id: "chatcmpl-mock",
+    object: "chat.completion",
+    model,
+    choices: [{ index: 0, message, finish_reason: call ? "tool_calls" : "stop" }],
+    usage: { prompt_tokens: usage.input, completion_tokens: usage.output, total_tokens: usage.input + usage.output },
+  };
+}
+
+/** 由文本决定的单位向量（相同文本相同向量） */
+function mockEmbedding(text: string, dims: number): number[] {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 16777619);
+  const v: number[] = [];
+  for (let i = 0; i < dims; i++) {
+    h = Math.imul(h ^ (h >>> 15), 2246822507) >>> 0;
+    v.push(h / 0xffffffff - 0.5);
+  }
+  const norm = Math.hypot(...v) || 1;
+  return v.map((x) => x / norm);
+}
+
+/* ---------------- 管理接口 ---------------- */
+
+/** 校验手写 / 修改过的 fixture；返回错误信息或规范化后的 fixture */
+function parseFixture(body: any): UpstreamFixture | string {
+  if (!body || typeof body !== "object" || Array.isArray(body)) return "Request body must be a JSON object";
+  if (!Number.isInteger(body.status) || body.status < 200 || body.status > 599) {
+    return "'status' must be an HTTP status from 200 to 599";
+  }
+  const headers = body.headers ?? {};
+  if (typeof headers !== "object" || Array.isArray(headers) || Object.values(headers).some((v) => typeof v !== "string")) {
+    return "'headers' must be an object of strings";
+  }
+  if (!Array.isArray(body.chunks)) return "'chunks' must be an array";
+  for (const [i, c] of body.chunks.entries()) {
+    if (typeof c?.delay_ms !== "number" || !(c.delay_ms >= 0)) return `chunks[${i}].delay_ms must be a non-negative number`;
+    const kinds = [typeof c.data === "string", typeof c.error === "string", c.stall === true].filter(Boolean).length;
+    if (kinds !== 1) return `chunks[${i}] must have exactly one of 'data' (string), 'error' (string) or 'stall' (true)`;
+  }
+  const request = body.request && typeof body.request === "object" ? body.request : {};
+  return {
+    request: {
+      method: String(request.method ?? ""),
+      url: String(request.url ?? ""),
+      ...(typeof request.model === "string" ? { model: request.model } : {}),
+    },
+    status: body.status,
+    headers,
+    chunks: body.chunks.map((c: any) =>
+      typeof c.data === "string"
+        ? { delay_ms: c.delay_ms, data: c.data }
+        : typeof c.error === "string"
+          ? { delay_ms: c.delay_ms, error: c.error }
+          : { delay_ms: c.delay_ms, stall: true }
+    ),
+    recorded_at: Number(body.recorded_at) || Date.now(),
+  };
+}
+
+/** /api/admin/fixtures/*；路径不匹配时返回 null。权限检查在 index.ts */
+export async function handleFixtures(request: Request, env: Env, url: URL): Promise<Response | null> {
+  const m = url.pathname.match(/^\/api\/admin\/fixtures(?:\/([^/]+))?\/?$/);
+  if (!m) return null;
+  const store = env.UPSTREAM_FIXTURES;
+  if (!store) return json({ error: "Upstream fixtures are not configured" }, 501);
+  const key = m[1];
+
+  if (!key) {
+    if (request.method !== "GET") return json({ error: "Method not allowed" }, 405);
+    const page = await store.list<FixtureMeta>({
+      prefix: PREFIX,
+      limit: LIST_LIMIT,
+      cursor: url.searchParams.get("cursor") || undefined,
+    });
+    return json({
+      data: page.keys.map((k) => ({ key: k.name.slice(PREFIX.length), ...k.metadata })),
+      cursor: page.list_complete ? null : page.cursor,
+    });
+  }
+  if (!KEY_RE.test(key)) return json({ error: "Fixture key must be a 64-character hex SHA-256" }, 400);
+
+  switch (request.method) {
+    case "GET": {
+      const fixture = await store.get(PREFIX + key, "json");
+      return fixture ? json(fixture) : json({ error: "Fixture not found" }, 404);
+    }
+    case "PUT": {
+      const fixture = parseFixture(await request.json().catch(() => null));
+      if (typeof fixture === "string") return json({ error: fixture }, 400);
+      const existed = (await store.get(PREFIX + key)) !== null;
+      const metadata: FixtureMeta = {
+        ...fixture.request,
+        status: fixture.status,
+        chunks: fixture.chunks.length,
+        recorded_at: fixture.recorded_at,
+      };
+      await store.put(PREFIX + key, JSON.stringify(fixture), { metadata });
+      return json({ key, ...metadata }, existed ? 200 : 201);
+    }
+    case "DELETE": {
+      if ((await store.get(PREFIX + key)) === null) return json({ error: "Fixture not found" }, 404);
+      await store.delete(PREFIX + key);
+      return json({ deleted: true, key });
+    }
+    default:
+      return json({ error: "Method not allowed" }, 405);
+  }
+}
@@ -0,0 +1,264 @@
+/**
+ * 可续传的流式回复（可选，绑定 STREAMS Durable Object 后、请求带 ?resumable=1 时启用）
+ * - 每次生成一个 response id（响应头 x-response-id），SSE 帧带 id: <序号>
+ * - 帧按批写入 StreamBuffer（每个 response 一个 DO），客户端断开后生成继续（waitUntil）
+ * - GET  /api/chat/:id/stream   带 Last-Event-ID（或 ?last_event_id=）重连：先补发之后的帧，再跟随直到结束
+ * - POST /api/chat/:id/cancel   中止上游；已输出的正文保留，finish_reason 为 cancelled
+ * 缓冲保留 BUFFER_TTL_MS 后由 alarm 清除；启用鉴权时只有发起请求的 key（或 admin）能重连/取消
+ */
+
+import { DurableObject } from "cloudflare:workers";
+import type { Principal } from "./auth";
+import { SSE_HEADERS, json, te } from "./sse";
+import type { Env } from "./types";
+
+const BUFFER_TTL_MS = 10 * 60_000;
+// 跟随中的重连最长等待（生成方意外退出、没有写入 done 时兜底）
+const MAX_TAIL_MS = 120_000;
+const FLUSH_MS = 250;
+// 没有新帧时也定期写一次（空批），以便及时收到其他 isolate 发来的取消
+const POLL_MS = 1000;
+
+interface BufferMeta {
+  owner: string | null;
+  created_at: number;
+  done: boolean;
+  cancelled: boolean;
+}
+
+/** 一个 SSE 帧；text 已含 id 行 */
+export interface BufferedFrame {
+  id: number;
+  text: string;
+}
+
+export type CancelResult = "cancelled" | "finished" | "not_found" | "forbidden";
+
+const frameKey = (id: number) => `f:${String(id).padStart(6, "0")}`;
+
+function canAccess(meta: BufferMeta, owner: string | null, admin: boolean) {
+  return admin || meta.owner === null || meta.owner === owner;
+}
+
+export class StreamBuffer extends DurableObject<Env> {
+  // 正在跟随的重连；DO 有打开的请求时不会被驱逐
+  private listeners = new Set<(frames: BufferedFrame[], done: boolean) => void>();
+
+  async open(owner: string | null): Promise<void> {
+    const meta: BufferMeta = { owner, created_at: Date.now(), done: false, cancelled: false };
+    await this.ctx.storage.put("meta", meta);
+    await this.ctx.storage.setAlarm(Date.now() + BUFFER_TTL_MS);
+  }
+
+  /** 追加一批帧；返回是否已被取消（生成方据此中止上游） */
+  async append(frames: BufferedFrame[], done: boolean): Promise<{ cancelled: boolean }> {
+    const meta = await this.ctx.storage.get<BufferMeta>("meta");
+    if (!meta) return { cancelled: true };
+    const entries: Record<string, string> = {};
+    for (const f of frames) entries[frameKey(f.id)] = f.text;
+    if (done) meta.done = true;
+    await this.ctx.storage.put({ ...entries, meta });
+    for (const l of this.listeners) l(frames, meta.done);
+    return { cancelled: meta.cancelled };
+  }
+
+  async cancel(owner: string | null, admin: boolean): Promise<CancelResult> {
+    const meta = await this.ctx.storage.get<BufferMeta>("meta");
+    if (!meta) return "not_found";
+    if (!canAccess(meta, owner, admin)) return "forbidden";
+    if (meta.done) return "finished";
+    meta.cancelled = true;
+    await this.ctx.storage.put("meta", meta);
+    return "cancelled";
+  }
+
+  /** 序号大于 after 的帧 + 之后的实时帧；生成结束（或超时）时流结束 */
+  async tail(
+    after: number,
+    owner: string | null,
+    admin: boolean
+  ): Promise<ReadableStream<Uint8Array> | "not_found" | "forbidden"> {
+    const meta = await this.ctx.storage.get<BufferMeta>("meta");
+    if (!meta) return "not_found";
+    if (!canAccess(meta, owner, admin)) return "forbidden";
+    const stored = await this.ctx.storage.list<string>({ prefix: "f:", start: frameKey(after + 1) });
+
+    const listeners = this.listeners;
+    let listener: ((frames: BufferedFrame[], done: boolean) => void) | undefined;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        let last = after;
+        for (const [key, text] of stored) {
+          controller.enqueue(te.encode(text));
+          last = Number(key.slice(2));
+        }
+        if (meta.done) return controller.close();
+
+        const close = () => {
+          listeners.delete(listener!);
+          clearTimeout(timer);
+          controller.close();
+        };
+        listener = (frames, done) => {
+          for (const f of frames) {
+            if (f.id <= last) continue;
+            controller.enqueue(te.encode(f.text));
+            last = f.id;
+          }
+          if (done) close();
+        };
+        listeners.add(listener);
+        timer = setTimeout(close, Math.max(0, meta.created_at + MAX_TAIL_MS - Date.now()));
+      },
+      cancel() {
+        if (listener) listeners.delete(listener);
+        clearTimeout(timer);
+      },
+    });
+  }
+
+  async alarm() {
+    await this.ctx.storage.deleteAll();
+  }
+}
+
+// 本 isolate 内正在生成的回复：取消时直接中止，不用等下一次写入
+const running = new Map<string, ResumableStream>();
+
+/** streamChat 的写入端：帧缓冲后按批写入 DO，收到取消时中止 signal */
+export class ResumableStream {
+  private ctl = new AbortController();
+  private pending: BufferedFrame[] = [];
+  private flushing: Promise<void> = Promise.resolve();
+  private inFlight = false;
+  private lastFlush = Date.now();
+  private ticker: ReturnType<typeof setInterval>;
+
+  constructor(
+    readonly id: string,
+    private stub: DurableObjectStub<StreamBuffer>,
+    private ctx: ExecutionContext
+  ) {
+    running.set(id, this);
+    this.ticker = setInterval(() => {
+      if (this.inFlight) return;
+      if (this.pending.length || Date.now() - this.lastFlush >= POLL_MS) this.flush(false);
+    }, FLUSH_MS);
+  }
+
+  /** 取消（本 isolate 或其他 isolate 发起）时中止 */
+  get signal(): AbortSignal {
+    return this.ctl.signal;
+  }
+
+  push(frame: BufferedFrame) {
+    this.pending.push(frame);
+  }
+
+  /** 生成在客户端断开后继续 */
+  keepAlive(task: Promise<unknown>) {
+    this.ctx.waitUntil(task);
+  }
+
+  abort() {
+    this.ctl.abort("cancelled");
+  }
+
+  /** 写入剩余帧并标记结束 */
+  async close() {
+    clearInterval(this.ticker);
+    running.delete(this.id);
+    this.flush(true);
+    await this.flushing;
+  }
+
+  // 串行写入，保证帧按序落盘
+  private flush(done: boolean) {
+    const batch = this.pending.splice(0);
+    this.inFlight = true;
+    this.flushing = this.flushing.then(async () => {
+      try {
+        const r = await this.stub.append(batch, done);
+        if (r.cancelled) this.abort();
+      } catch {
+        // 缓冲写入失败不影响当前连接上的输出
+      } finally {
+        this.inFlight = false;
+        this.lastFlush = Date.now();
+      }
+    });
+  }
+}
+
+function stubFor(env: Env, id: string) {
+  try {
+    return env.STREAMS!.get(env.STREAMS!.idFromString(id));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 为一次生成创建缓冲；未绑定 STREAMS 或请求没带 ?resumable=1 时返回 null（不可续传）。
+ * 缓冲要逐批写 DO，只给会重连的客户端（如自带 UI）开
+ */
+export async function openResumable(
+  env: Env,
+  ctx: ExecutionContext,
+  principal: Principal | null,
+  url: URL
+): Promise<ResumableStream | null> {
+  const flag = url.searchParams.get("resumable");
+  if (!env.STREAMS || (flag !== "1" && flag !== "true")) return null;
+  const doId = env.STREAMS.newUniqueId();
+  const stub = env.STREAMS.get(doId);
+  await stub.open(principal?.id ?? null);
+  return new ResumableStream(doId.toString(), stub, ctx);
+}
+
+/** 响应头：不可续传时不加 */
+export function resumeHeaders(resume: ResumableStream | null): Record<string, string> {
+  return resume ? { "x-response-id": resume.id } : {};
+}
+
+/** 处理 /api/chat/:id/stream 与 /api/chat/:id/cancel；路径不匹配时返回 null */
+export async function handleResume(
+  request: Request,
+  env: Env,
+  url: URL,
+  principal: Principal | null
+): Promise<Response | null> {
+  const m = url.pathname.match(/^\/api\/chat\/([^/]+)\/(stream|cancel)$/);
+  if (!m) return null;
+  if (!env.STREAMS) return json({ error: "Stream resumption is not configured" }, 501);
+  const [, id, action] = m;
+  const stub = stubFor(env, id);
+  if (!stub) return json({ error: "Response not found" }, 404);
+  const owner = principal?.id ?? null;
+  const admin = !!principal?.admin;
+
+  if (action === "cancel") {
+    if (request.method !== "POST") return json({ error: "Method not allowed" }, 405);
+    const result = await stub.cancel(owner, admin);
+    switch (result) {
+      case "not_found":
+        return json({ error: "Response not found" }, 404);
+      case "forbidden":
+        return json({ error: "Forbidden" }, 403);
+      case "finished":
+        return json({ error: "Response already finished", id }, 409);
+    }
+    running.get(id)?.abort();
+    return json({ cancelled: true, id });
+  }
+
+  if (request.method !== "GET") return json({ error: "Method not allowed" }, 405);
+  const raw = request.headers.get("last-event-id") ?? url.searchParams.get("last_event_id") ?? "0";
+  const after = Number(raw);
+  if (!Number.isInteger(after) || after < 0) return json({ error: "Invalid Last-Event-ID" }, 400);
+  const stream = await stub.tail(after, owner, admin);
+  if (stream === "not_found") return json({ error: "Response not found" }, 404);
+  if (stream === "forbidden") return json({ error: "Forbidden" }, 403);
+  return new Response(stream, { headers: { ...SSE_HEADERS, "x-response-id": id } });
+}
@@ -0,0 +1,122 @@
+/**
+ * SSE 工具：输出 chat-completions 风格 chunk / v2 具名事件，以及逐行解析上游 SSE
+ */
+
+import { NetworkError } from "./errors";
+
+export const te = new TextEncoder();
+
+export const SSE_HEADERS = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache",
+  "Connection": "keep-alive",
+  "Access-Control-Allow-Origin": "*",
+};
+
+export function json(obj: unknown, status = 200): Response {
+  return new Response(JSON.stringify(obj), {
+    status,
+    headers: { "content-type": "application/json", "Access-Control-Allow-Origin": "*" },
+  });
+}
+export function sseData(o: unknown) {
+  return te.encode(`data: ${JSON.stringify(o)}\n\n`);
+}
+export function sseDone() {
+  return te.encode(`data: [DONE]\n\n`);
+}
+
+/** v2 流的事件名；done 为最后一个事件 */
+export type StreamEventName =
+  | "text"
+  | "status"
+  | "tool"
+  | "citation"
+  | "usage"
+  | "error"
+  | "debug"
+  | "context"
+  | "guard"
+  | "knowledge"
+  | "compare"
+  | "result"
+  | "structured"
+  | "done";
+
+export function sseEvent(event: StreamEventName, data: unknown) {
+  return te.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/** 单个 chat.completion.chunk（choices[0]） */
+export function chunk(
+  id: string,
+  delta: Record<string, unknown>,
+  finish_reason: string | null = null
+) {
+  return {
+    id,
+    object: "chat.completion.chunk",
+    choices: [{ index: 0, delta, finish_reason }],
+  };
+}
+
+export function sseErrorStream(detail: string) {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(sseData(chunk("cmpl-error", { content: detail })));
+      controller.enqueue(sseData(chunk("cmpl-stop", {}, "stop")));
+      controller.enqueue(sseDone());
+      controller.close();
+    },
+  });
+}
+
+/**
+ * 逐行读取上游 SSE；每条 data 回调 onData(data, lastEvent)。
+ * onData 返回 true 表示上游已结束，停止读取。
+ * signal 中止时取消 reader 并抛出中止原因（Workers AI 的流不接受 signal）；读取中断抛 NetworkError。
+ */
+export async function readSSE(
+  readable: ReadableStream<Uint8Array>,
+  onData: (data: string, event: string) => boolean | void,
+  signal?: AbortSignal
+): Promise<void> {
+  const reader = readable.getReader();
+  const decoder = new TextDecoder("utf-8");
+  let buffer = "";
+  let lastEvent = "";
+
+  const onAbort = () => {
+    reader.cancel(signal?.reason).catch(() => {});
+  };
+  signal?.addEventListener("abort", onAbort);
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read().catch((e) => {
+        throw NetworkError.wrap(e, signal);
+      });
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const raw of lines) {
+        const line = raw.trim();
+        if (!line) continue;
+
+        if (line.startsWith("event:")) {
+          lastEvent = line.slice(6).trim();
+          continue;
+        }
+        if (!line.startsWith("data:")) continue;
+
+        if (onData(line.slice(5).trim(), lastEvent)) return;
+      }
+    }
+    signal?.throwIfAborted();
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
@@ -0,0 +1,376 @@
+/**
+ * 结构化输出：请求带 JSON Schema 时按 schema 生成并校验
+ * - body.response_format = { type: "json_schema", json_schema: { name?, schema, strict? } }，或简写 body.schema（+ schema_name）
+ * - 模型支持原生 JSON Schema（models.ts 的 structured_output）时由 provider 作为 text.format / response_format 发送；
+ *   否则在 system 消息里附上 schema 约束，再从回复中提取 JSON
+ * - 结果按 schema 校验（常用关键字子集，见 validateSchema）；不通过时带上错误重试修复一次
+ * - 流式时以 structured 事件（legacy 为 cmpl-structured chunk）返回；stream: false 时直接返回该 JSON
+ */
+
+import { json } from "./sse";
+import type { ChatMessage } from "./types";
+
+const MAX_SCHEMA_BYTES = 32_000;
+// pattern 来自客户端：限制长度，降低灾难性回溯的代价
+const MAX_PATTERN_CHARS = 256;
+const MAX_ERRORS = 20;
+// 这些关键字的值是数据而不是子 schema，检查时不深入
+const DATA_KEYWORDS = new Set(["const", "enum", "default", "examples"]);
+const DEFAULT_SCHEMA_NAME = "response";
+
+export type JsonSchema = Record<string, any> | boolean;
+
+/** 请求里的 schema（已校验） */
+export interface StructuredFormat {
+  name: string;
+  schema: Record<string, any>;
+  /** 原生输出时的 strict 模式（OpenAI 要求 additionalProperties: false 且所有字段 required） */
+  strict: boolean;
+}
+
+/** 校验错误；path 为 JSON Pointer（根为 ""） */
+export interface SchemaError {
+  path: string;
+  message: string;
+}
+
+/** structured 事件 / stream: false 的结果 */
+export interface StructuredResult {
+  name: string;
+  valid: boolean;
+  /** 通过校验的对象；未通过时为最后一次解析出的 JSON（没有则 null） */
+  data: unknown;
+  /** 是否经过了一次修复重试 */
+  repaired: boolean;
+  errors?: SchemaError[];
+}
+
+/** 从请求里读取 schema；没带时返回 null，格式错误返回 400 */
+export function parseStructured(body: any): StructuredFormat | null | Response {
+  const rf = body?.response_format;
+  let spec: any;
+  if (rf !== undefined && rf !== null) {
+    if (rf?.type === "text") return null;
+    if (rf?.type !== "json_schema" || !rf.json_schema || typeof rf.json_schema !== "object") {
+      return json({ error: "response_format must be { type: \"json_schema\", json_schema: { schema } }" }, 400);
+    }
+    spec = rf.json_schema;
+  } else if (body?.schema !== undefined) {
+    spec = { name: body.schema_name, schema: body.schema, strict: body.strict };
+  } else {
+    return null;
+  }
+
+  const schema = spec.schema;
+  if (!schema || typeof schema !== "object" || Array.isArray(schema)) {
+    return json({ error: "schema must be a JSON Schema object" }, 400);
+  }
+  // 原生 json_schema 要求根为 object
+  if (schema.type !== "object") return json({ error: "The root schema must have type \"object\"" }, 400);
+  if (JSON.stringify(schema).length > MAX_SCHEMA_BYTES) {
+    return json({ error: `schema exceeds ${MAX_SCHEMA_BYTES} bytes` }, 400);
+  }
+  const name = spec.name ?? DEFAULT_SCHEMA_NAME;
+  if (typeof name !== "string" || !/^[\w-]{1,64}$/.test(name)) {
+    return json({ error: "schema name must be 1-64 letters, digits, '_' or '-'" }, 400);
+  }
+  if (spec.strict !== undefined && typeof spec.strict !== "boolean") {
+    return json({ error: "strict must be a boolean" }, 400);
+  }
+  const invalid = checkKeywords(schema);
+  if (invalid) return json({ error: invalid }, 400);
+  return { name, schema, strict: spec.strict === true };
+}
+
+/** 校验前先检查客户端给的 $ref 与 pattern：$ref 必须是可解码的文档内引用，pattern 要能编译且不超长 */
+function checkKeywords(schema: unknown): string | null {
+  const stack: unknown[] = [schema];
+  while (stack.length) {
+    const node = stack.pop();
+    if (!node || typeof node !== "object") continue;
+    if (Array.isArray(node)) {
+      stack.push(...node);
+      continue;
+    }
+    const s = node as Record<string, unknown>;
+    if (typeof s.$ref === "string") {
+      if (!s.$ref.startsWith("#")) return `Unsupported $ref ${s.$ref.slice(0, 100)}: only '#/...' references are allowed`;
+      try {
+        decodeURIComponent(s.$ref);
+      } catch {
+        return `Invalid $ref ${s.$ref.slice(0, 100)}`;
+      }
+    }
+    if (typeof s.pattern === "string") {
+      if (s.pattern.length > MAX_PATTERN_CHARS) return `pattern exceeds ${MAX_PATTERN_CHARS} characters`;
+      try {
+        new RegExp(s.pattern, "u");
+      } catch {
+        return `Invalid pattern ${s.pattern}`;
+      }
+    }
+    for (const [k, v] of Object.entries(s)) if (!DATA_KEYWORDS.has(k)) stack.push(v);
+  }
+  return null;
+}
+
+/** 非原生时附加的约束说明 */
+export function schemaInstruction(format: StructuredFormat): string {
+  return [
+    "Respond with a single JSON object that conforms to the JSON Schema below.",
+    "Output only the JSON: no explanations, no Markdown, no code fences.",
+    `Schema "${format.name}":`,
+    JSON.stringify(format.schema),
+  ].join("\n");
+}
+
+/** 在开头的 system 消息之后插入约束说明；format 为空时原样返回 */
+export function withSchemaInstruction(messages: ChatMessage[], format?: StructuredFormat): ChatMessage[] {
+  if (!format) return messages;
+  const at = messages.findIndex((m) => m.role !== "system");
+  const out = [...messages];
+  out.splice(at === -1 ? out.length : at, 0, { role: "system", content: schemaInstruction(format) });
+  return out;
+}
+
+/* ---------------- 提取 + 校验 ---------------- */
+
+/** 从回复中取出 JSON：整段、```json 代码块、或第一个括号配对的 {…} */
+export function extractJson(text: string): { value: unknown } | null {
+  const tryParse = (s: string) => {
+    try {
+      return { value: JSON.parse(s) as unknown };
+    } catch {
+      return null;
+    }
+  };
+  const whole = tryParse(text.trim());
+  if (whole) return whole;
+  const fence = text.match(/```(?:json)?\s*\n([\s\S]*?)```/i);
+  if (fence) {
+    const inner = tryParse(fence[1].trim());
+    if (inner) return inner;
+  }
+  const start = text.indexOf("{");
+  if (start === -1) return null;
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const c = text[i];
+    if (inString) {
+      if (c === "\\") i++;
+      else if (c === '"') inString = false;
+    } else if (c === '"') inString = true;
+    else if (c === "{") depth++;
+    else if (c === "}" && --depth === 0) return tryParse(text.slice(start, i + 1));
+  }
+  return null;
+}
+
+function typeOf(v: unknown): string {
+  if (v === null) return "null";
+  if (Array.isArray(v)) return "array";
+  return typeof v;
+}
+
+function matchesType(v: unknown, type: string): boolean {
+  switch (type) {
+    case "integer":
+      return Number.isInteger(v);
+    case "number":
+      return typeof v === "number" && Number.isFinite(v);
+    default:
+      return typeOf(v) === type;
+  }
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeOf(a) !== typeOf(b) || typeof a !== "object" || a === null) return false;
+  if (Array.isArray(a)) {
+    const bb = b as unknown[];
+    return a.length === bb.length && a.every((x, i) => deepEqual(x, bb[i]));
+  }
+  const ka = Object.keys(a as object);
+  const kb = Object.keys(b as object);
+  return ka.length === kb.length && ka.every((k) => deepEqual((a as any)[k], (b as any)[k]));
+}
+
+const pointer = (path: string, key: string | number) =>
+  `${path}/${String(key).replace(/~/g, "~0").replace(/\//g, "~1")}`;
+
+/** 只支持文档内引用：#/$defs/x、#/definitions/x */
+function resolveRef(root: JsonSchema, ref: string): JsonSchema | undefined {
+  if (!ref.startsWith("#")) return undefined;
+  let node: any = root;
+  for (const raw of ref.slice(1).split("/").filter(Boolean)) {
+    let key: string;
+    try {
+      key = decodeURIComponent(raw).replace(/~1/g, "/").replace(/~0/g, "~");
+    } catch {
+      return undefined;
+    }
+    node = node?.[key];
+    if (node === undefined) return undefined;
+  }
+  return node;
+}
+
+/**
+ * 按 schema 校验；返回错误列表（最多 MAX_ERRORS 条），空数组表示通过。
+ * 支持：type、enum、const、properties / required / additionalProperties、items / prefixItems、
+ * 长度 / 数值范围、pattern、uniqueItems、anyOf / oneOf / allOf / not、文档内 $ref；其余关键字忽略。
+ */
+export function validateSchema(schema: JsonSchema, value: unknown, root: JsonSchema = schema): SchemaError[] {
+  const errors: SchemaError[] = [];
+  check(schema, value, root, "", errors, 0);
+  return errors.slice(0, MAX_ERRORS);
+}
+
+function check(schema: JsonSchema, v: unknown, root: JsonSchema, path: string, errors: SchemaError[], depth: number) {
+  const fail = (message: string) => errors.push({ path, message });
+  if (errors.length >= MAX_ERRORS) return;
+  if (schema === true) return;
+  if (schema === false) return fail("No value is allowed here");
+  if (!schema || typeof schema !== "object") return;
+  // 防止循环引用
+  if (depth > 64) return fail("Schema is nested too deeply");
+
+  if (typeof schema.$ref === "string") {
+    const target = resolveRef(root, schema.$ref);
+    if (target === undefined) return fail(`Unsupported $ref ${schema.$ref}`);
+    check(target, v, root, path, errors, depth + 1);
+  }
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(v, t))) return fail(`Expected ${types.join(" or ")}, got ${typeOf(v)}`);
+  }
+  if ("const" in schema && !deepEqual(v, schema.const)) fail(`Must equal ${JSON.stringify(schema.const)}`);
+  if (Array.isArray(schema.enum) && !schema.enum.some((e: unknown) => deepEqual(v, e))) {
+    fail(`Must be one of ${JSON.stringify(schema.enum)}`);
+  }
+
+  if (typeof v === "string") {
+    const len = [...v].length;
+    if (typeof schema.minLength === "number" && len < schema.minLength) fail(`Shorter than ${schema.minLength} characters`);
+    if (typeof schema.maxLength === "number" && len > schema.maxLength) fail(`Longer than ${schema.maxLength} characters`);
+    // pattern 已在 parseStructured 检查过；直接调用 validateSchema 时不合法的 pattern 不作约束
+    if (typeof schema.pattern === "string" && schema.pattern.length <= MAX_PATTERN_CHARS) {
+      try {
+        if (!new RegExp(schema.pattern, "u").test(v)) fail(`Does not match pattern ${schema.pattern}`);
+      } catch {}
+    }
+  }
+
+  if (typeof v === "number") {
+    if (typeof schema.minimum === "number" && v < schema.minimum) fail(`Less than ${schema.minimum}`);
+    if (typeof schema.maximum === "number" && v > schema.maximum) fail(`Greater than ${schema.maximum}`);
+    if (typeof schema.exclusiveMinimum === "number" && v <= schema.exclusiveMinimum) {
+      fail(`Not greater than ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === "number" && v >= schema.exclusiveMaximum) {
+      fail(`Not less than ${schema.exclusiveMaximum}`);
+    }
+    if (typeof schema.multipleOf === "number" && schema.multipleOf > 0) {
+      const q = v / schema.multipleOf;
+      if (Math.abs(q - Math.round(q)) > 1e-9) fail(`Not a multiple of ${schema.multipleOf}`);
+    }
+  }
+
+  if (Array.isArray(v)) {
+    if (typeof schema.minItems === "number" && v.length < schema.minItems) fail(`Fewer than ${schema.minItems} items`);
+    if (typeof schema.maxItems === "number" && v.length > schema.maxItems) fail(`More than ${schema.maxItems} items`);
+    const prefix: JsonSchema[] = Array.isArray(schema.prefixItems) ? schema.prefixItems : [];
+    v.forEach((item, i) => {
+      const itemSchema = i < prefix.length ? prefix[i] : schema.items;
+      if (itemSchema !== undefined) check(itemSchema, item, root, pointer(path, i), errors, depth + 1);
+    });
+    if (schema.uniqueItems === true && v.some((a, i) => v.slice(i + 1).some((b) => deepEqual(a, b)))) {
+      fail("Items are not unique");
+    }
+  }
+
+  if (typeOf(v) === "object") {
+    const obj = v as Record<string, unknown>;
+    const props: Record<string, JsonSchema> = schema.properties && typeof schema.properties === "object" ? schema.properties : {};
+    for (const key of Array.isArray(schema.required) ? schema.required : []) {
+      if (!(key in obj)) errors.push({ path: pointer(path, key), message: "Required property is missing" });
+    }
+    for (const [key, val] of Object.entries(obj)) {
+      if (key in props) check(props[key], val, root, pointer(path, key), errors, depth + 1);
+      else if (schema.additionalProperties === false) {
+        errors.push({ path: pointer(path, key), message: "Property is not allowed" });
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+        check(schema.additionalProperties, val, root, pointer(path, key), errors, depth + 1);
+      }
+    }
+    const count = Object.keys(obj).length;
+    if (typeof schema.minProperties === "number" && count < schema.minProperties) {
+      fail(`Fewer than ${schema.minProperties} properties`);
+    }
+    if (typeof schema.maxProperties === "number" && count > schema.maxProperties) {
+      fail(`More than ${schema.maxProperties} properties`);
+    }
+  }
+
+  // 组合关键字：分支内的错误不直接报告
+  const passes = (s: JsonSchema) => {
+    const sub: SchemaError[] = [];
+    check(s, v, root, path, sub, depth + 1);
+    return sub.length === 0;
+  };
+  if (Array.isArray(schema.allOf)) for (const s of schema.allOf) check(s, v, root, path, errors, depth + 1);
+  if (Array.isArray(schema.anyOf) && !schema.anyOf.some(passes)) fail("Does not match any of anyOf");
+  if (Array.isArray(schema.oneOf)) {
+    const n = schema.oneOf.filter(passes).length;
+    if (n !== 1) fail(`Matches ${n} of oneOf, expected exactly 1`);
+  }
+  if (schema.not !== undefined && passes(schema.not)) fail("Must not match the schema in not");
+}
+
+/** 提取 JSON 并校验 */
+export function checkOutput(text: string, format: StructuredFormat): { data: unknown; errors: SchemaError[] } {
+  const found = extractJson(text);
+  if (!found) return { data: null, errors: [{ path: "", message: "Output is not valid JSON" }] };
+  return { data: found.value, errors: validateSchema(format.schema, found.value) };
+}
+
+/** 修复重试：把不合格的回复和错误发回给模型 */
+export function repairMessages(messages: ChatMessage[], text: string, errors: SchemaError[]): ChatMessage[] {
+  const list = errors.map((e) => `- ${e.path || "(root)"}: ${e.message}`).join("\n");
+  return [
+    ...messages,
+    { role: "assistant", content: text || "(empty)" },
+    {
+      role: "user",
+      content: `Your reply does not match the required JSON Schema:\n${list}\nReply again with only the corrected JSON object.`,
+    },
+  ];
+}
+
+/**
+ * 校验一次回复；不通过时调用 regenerate（带修复提示的消息）再校验一次。
+ * 返回结果与最终采用的文本。
+ */
+export async function resolveStructured(
+  format: StructuredFormat,
+  messages: ChatMessage[],
+  text: string,
+  regenerate: (messages: ChatMessage[]) => Promise<string>
+): Promise<{ result: StructuredResult; text: string }> {
+  const first = checkOutput(text, format);
+  if (!first.errors.length) {
+    return { result: { name: format.name, valid: true, data: first.data, repaired: false }, text };
+  }
+  const fixed = await regenerate(repairMessages(messages, text, first.errors));
+  const second = checkOutput(fixed, format);
+  const result: StructuredResult = {
+    name: format.name,
+    valid: !second.errors.length,
+    data: second.data,
+    repaired: true,
+    ...(second.errors.length ? { errors: second.errors } : {}),
+  };
+  return { result, text: fixed };
+}
@@ -0,0 +1,364 @@
+/**
+ * Worker 内实现的函数工具 + 多步 agent 循环
+ * - 注册表：calculator / fetch_url（仅白名单域名）/ kv_lookup（TOOL_KV）
+ * - AGENT_TOOLS 选择启用的工具（逗号分隔或 "all"），不设时不挂函数工具
+ * - 循环：模型返回 function_call → Worker 执行 → 结果作为 function_call_output 再请求，
+ *   最多 AGENT_MAX_STEPS 轮；最后一轮不再挂工具，迫使模型给出回答
+ * - 每次调用与结果都经 StreamSink.tool 输出结构化事件
+ */
+
+import { type StreamSink, type TokenUsage, addUsage } from "./providers";
+import type { Env } from "./types";
+
+const DEFAULT_MAX_STEPS = 4;
+const MAX_STEPS_LIMIT = 10;
+const MAX_OUTPUT_CHARS = 8000;
+const EVENT_OUTPUT_CHARS = 2000;
+const FETCH_TIMEOUT_MS = 10000;
+const FETCH_MAX_REDIRECTS = 3;
+
+/** 发给模型的工具声明（JSON Schema 参数） */
+export interface ToolSpec {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface Tool extends ToolSpec {
+  /** 可用性检查（如依赖的绑定/配置是否存在） */
+  available(env: Env): boolean;
+  run(args: any, env: Env, signal: AbortSignal): Promise<string>;
+}
+
+/** 模型发起的一次函数调用 */
+export interface FunctionCall {
+  call_id: string;
+  name: string;
+  /** 模型给出的 JSON 字符串 */
+  arguments: string;
+}
+
+/** 流中的工具事件 */
+export type ToolEvent =
+  | { type: "call"; step: number; call_id: string; name: string; arguments: unknown }
+  | {
+      type: "result";
+      step: number;
+      call_id: string;
+      name: string;
+      ok: boolean;
+      output: string;
+      duration_ms: number;
+    };
+
+/** 一次请求可用的工具集 */
+export interface Toolbox {
+  env: Env;
+  tools: Tool[];
+  maxSteps: number;
+}
+
+/* ---------------- calculator ---------------- */
+
+const MATH_FUNCS: Record<string, (...a: number[]) => number> = {
+  abs: Math.abs,
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log10,
+  log2: Math.log2,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  round: Math.round,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+};
+const MATH_CONSTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+/** 递归下降求值（不用 eval）：+ - * / % ^、括号、一元负号、MATH_FUNCS、pi/e */
+export function evaluate(expr: string): number {
+  const tokens = expr.match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|\.\d+|[a-z_]\w*|\*\*|[-+*/%^(),]|\S/gi) ?? [];
+  let i = 0;
+  const peek = () => tokens[i];
+  const take = (t?: string) => {
+    const tok = tokens[i++];
+    if (t !== undefined && tok !== t) throw new Error(`Expected '${t}' but got '${tok ?? "end"}'`);
+    return tok;
+  };
+
+  const primary = (): number => {
+    const tok = take();
+    if (tok === undefined) throw new Error("Unexpected end of expression");
+    if (tok === "(") {
+      const v = sum();
+      take(")");
+      return v;
+    }
+    if (/^[\d.]/.test(tok)) return Number(tok);
+    const name = tok.toLowerCase();
+    if (name in MATH_CONSTS) return MATH_CONSTS[name];
+    if (name in MATH_FUNCS) {
+      take("(");
+      const args = [sum()];
+      while (peek() === ",") {
+        take(",");
+        args.push(sum());
+      }
+      take(")");
+      return MATH_FUNCS[name](...args);
+    }
+    throw new Error(`Unexpected token '${tok}'`);
+  };
+  const unary = (): number => {
+    if (peek() === "-") {
+      take();
+      return -unary();
+    }
+    if (peek() === "+") {
+      take();
+      return unary();
+    }
+    return power();
+  };
+  // 右结合；-2^2 = -(2^2)
+  const power = (): number => {
+    const base = primary();
+    if (peek() === "^" || peek() === "**") {
+      take();
+      return Math.pow(base, unary());
+    }
+    return base;
+  };
+  const product = (): number => {
+    let v = unary();
+    while (peek() === "*" || peek() === "/" || peek() === "%") {
+      const op = take();
+      const r = unary();
+      v = op === "*" ? v * r : op === "/" ? v / r : v % r;
+    }
+    return v;
+  };
+  const sum = (): number => {
+    let v = product();
+    while (peek() === "+" || peek() === "-") {
+      const op = take();
+      const r = product();
+      v = op === "+" ? v + r : v - r;
+    }
+    return v;
+  };
+
+  const v = sum();
+  if (i < tokens.length) throw new Error(`Unexpected token '${tokens[i]}'`);
+  return v;
+}
+
+const calculator: Tool = {
+  name: "calculator",
+  description:
+    "Evaluate an arithmetic expression exactly. Supports + - * / % ^, parentheses, pi, e and functions like sqrt, abs, round, floor, ceil, ln, log, exp, sin, cos, tan, min, max, pow.",
+  parameters: {
+    type: "object",
+    properties: { expression: { type: "string", description: "e.g. (1.07^10 - 1) * 2500" } },
+    required: ["expression"],
+    additionalProperties: false,
+  },
+  available: () => true,
+  async run(args) {
+    const expr = String(args?.expression ?? "");
+    if (!expr.trim() || expr.length > 500) throw new Error("'expression' must be 1-500 characters");
+    const v = evaluate(expr);
+    if (!Number.isFinite(v)) throw new Error("Result is not a finite number");
+    return String(v);
+  },
+};
+
+/* ---------------- fetch_url ---------------- */
+
+function fetchAllowlist(env: Env): string[] {
+  return (env.TOOL_FETCH_ALLOWLIST || "")
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/** "example.com" 只匹配自身；"*.example.com" 匹配其子域 */
+function hostAllowed(env: Env, host: string): boolean {
+  host = host.toLowerCase();
+  return fetchAllowlist(env).some((rule) =>
+    rule.startsWith("*.") ? host.endsWith(rule.slice(1)) : host === rule
+  );
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript)[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+const fetchUrl: Tool = {
+  name: "fetch_url",
+  description: "Fetch a web page or text/JSON document over HTTP(S) and return its text content. Only allowlisted hosts can be fetched.",
+  parameters: {
+    type: "object",
+    properties: { url: { type: "string", description: "Absolute http(s) URL" } },
+    required: ["url"],
+    additionalProperties: false,
+  },
+  available: (env) => fetchAllowlist(env).length > 0,
+  async run(args, env, signal) {
+    let url: URL;
+    try {
+      url = new URL(String(args?.url ?? ""));
+    } catch {
+      throw new Error("'url' must be an absolute URL");
+    }
+    const fetchSignal = AbortSignal.any([signal, AbortSignal.timeout(FETCH_TIMEOUT_MS)]);
+
+    // 手动跟随重定向，每一跳都检查白名单
+    for (let hop = 0; ; hop++) {
+      if (url.protocol !== "https:" && url.protocol !== "http:") throw new Error("Only http(s) URLs are allowed");
+      if (!hostAllowed(env, url.hostname)) throw new Error(`Host not allowed: ${url.hostname}`);
+
+      const r = await fetch(url.toString(), {
+        redirect: "manual",
+        headers: { Accept: "text/html, text/plain, application/json;q=0.9, */*;q=0.1" },
+        signal: fetchSignal,
+      });
+      const location = r.headers.get("location");
+      if (r.status >= 300 && r.status < 400 && location) {
+        if (hop >= FETCH_MAX_REDIRECTS) throw new Error("Too many redirects");
+        url = new URL(location, url);
+        continue;
+      }
+      if (!r.ok) throw new Error(`HTTP ${r.status}`);
+
+      const type = r.headers.get("content-type") || "";
+      if (!/^(text\/|application\/(json|xml|xhtml))/i.test(type)) {
+        throw new Error(`Unsupported content type: ${type || "unknown"}`);
+      }
+      const body = await r.text();
+      return (/html/i.test(type) ? htmlToText(body) : body).slice(0, MAX_OUTPUT_CHARS);
+    }
+  },
+};
+
+/* ---------------- kv_lookup ---------------- */
+
+const kvLookup: Tool = {
+  name: "kv_lookup",
+  description: "Look up a value by key in the application's key-value knowledge store.",
+  parameters: {
+    type: "object",
+    properties: { key: { type: "string", description: "Exact key to look up" } },
+    required: ["key"],
+    additionalProperties: false,
+  },
+  available: (env) => !!env.TOOL_KV,
+  async run(args, env) {
+    const key = String(args?.key ?? "");
+    if (!key || key.length > 512) throw new Error("'key' must be 1-512 characters");
+    const value = await env.TOOL_KV!.get(`${env.TOOL_KV_PREFIX || ""}${key}`);
+    return value === null ? `No value for key '${key}'` : value;
+  },
+};
+
+/* ---------------- 注册表 ---------------- */
+
+export const TOOL_REGISTRY: Tool[] = [calculator, fetchUrl, kvLookup];
+
+/** 按 AGENT_TOOLS 选出本次可用的工具；没有可用工具时返回 undefined */
+export function loadToolbox(env: Env): Toolbox | undefined {
+  const conf = (env.AGENT_TOOLS || "").trim().toLowerCase();
+  if (!conf || conf === "off") return undefined;
+  const names = conf === "all" ? null : new Set(conf.split(",").map((s) => s.trim()));
+  const tools = TOOL_REGISTRY.filter((t) => (!names || names.has(t.name)) && t.available(env));
+  if (!tools.length) return undefined;
+
+  const steps = Number(env.AGENT_MAX_STEPS);
+  const maxSteps = steps > 0 ? Math.min(Math.floor(steps), MAX_STEPS_LIMIT) : DEFAULT_MAX_STEPS;
+  return { env, tools, maxSteps };
+}
+
+function parseArgs(raw: string): unknown {
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return raw;
+  }
+}
+
+/** 执行一次调用；工具抛错时把错误作为输出交还模型 */
+export async function runTool(box: Toolbox, call: FunctionCall, signal: AbortSignal) {
+  const tool = box.tools.find((t) => t.name === call.name);
+  try {
+    if (!tool) throw new Error(`Unknown tool: ${call.name}`);
+    const output = await tool.run(parseArgs(call.arguments), box.env, signal);
+    return { ok: true, output: output.slice(0, MAX_OUTPUT_CHARS) };
+  } catch (e: any) {
+    if (signal.aborted) throw e;
+    return { ok: false, output: `Error: ${e?.message ?? String(e)}` };
+  }
+}
+
+/**
+ * 多步循环，与具体 provider 的消息格式无关：
+ * - step(extra, withTools, sink)：带上之前各轮追加的 extra 请求一次，返回模型发起的函数调用
+ * - toItems(results)：把本轮调用与结果转成该 provider 的追加输入
+ * 各轮用量累加后在结束时一次性报告；中途出错（上游错误、中止、超时）时也报告已完成各轮的用量。
+ */
+export async function agentLoop<T>(
+  box: Toolbox | undefined,
+  sink: StreamSink,
+  signal: AbortSignal,
+  step: (extra: T[], withTools: boolean, sink: StreamSink) => Promise<FunctionCall[]>,
+  toItems: (results: { call: FunctionCall; output: string }[]) => T[]
+): Promise<void> {
+  let usage: TokenUsage | undefined;
+  const stepSink: StreamSink = {
+    ...sink,
+    usage: (u) => {
+      usage = addUsage(usage, u);
+    },
+  };
+
+  try {
+    const extra: T[] = [];
+    for (let n = 0; ; n++) {
+      const withTools = !!box && n < box.maxSteps;
+      const calls = await step(extra, withTools, stepSink);
+      if (!box || !withTools || !calls.length) break;
+
+      const results: { call: FunctionCall; output: string }[] = [];
+      for (const call of calls) {
+        sink.tool?.({ type: "call", step: n + 1, call_id: call.call_id, name: call.name, arguments: parseArgs(call.arguments) });
+        const started = Date.now();
+        const r = await runTool(box, call, signal);
+        sink.tool?.({
+          type: "result",
+          step: n + 1,
+          call_id: call.call_id,
+          name: call.name,
+          ok: r.ok,
+          output: r.output.slice(0, EVENT_OUTPUT_CHARS),
+          duration_ms: Date.now() - started,
+        });
+        results.push({ call, output: r.output });
+      }
+      extra.push(...toItems(results));
+    }
+  } finally {
+    if (usage) sink.usage?.(usage);
+  }
+}
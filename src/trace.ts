@@ -0,0 +1,296 @@
+/**
+ * 请求追踪、结构化日志与延迟指标
+ * - 每个请求一个 trace ID：客户端可用 x-trace-id 头传入（8–64 位字母数字 / - / _），否则生成；
+ *   响应头 x-trace-id 返回，流的 done / error 事件带 trace_id
+ * - 结构化日志：每个阶段一行 JSON（console.log，Workers Logs 可按字段检索）：
+ *   request / upstream_attempt / failover / fallback / first_token / tool / abort / debug / generation / error
+ * - 指标：每次生成（一次 generate，含 failover）一条样本，MetricsStore（Durable Object）按小时、按模型聚合，保留 7 天
+ * - GET /api/metrics?hours=24：各模型的请求数、错误率、回退率、TTFT 与总耗时（avg / p50 / p95）；启用鉴权时仅 admin key
+ */
+
+import { DurableObject } from "cloudflare:workers";
+import { json } from "./sse";
+import type { Env } from "./types";
+
+const TRACE_ID_RE = /^[\w-]{8,64}$/;
+const HOUR_MS = 3600_000;
+const RETENTION_HOURS = 7 * 24;
+const DEFAULT_HOURS = 24;
+// 延迟直方图的桶上界（ms），最后一桶为 +∞
+const LATENCY_BOUNDS = [100, 250, 500, 1000, 2000, 4000, 8000, 15000, 30000, 60000];
+
+export type TraceEvent =
+  | "request"
+  | "upstream_attempt"
+  | "failover"
+  | "fallback"
+  | "first_token"
+  | "tool"
+  | "abort"
+  | "debug"
+  | "generation"
+  | "error";
+
+/** 一次生成的指标样本 */
+export interface GenerationSample {
+  /** 最终服务的模型；全部失败时为最后尝试的模型 */
+  model: string;
+  provider: string | null;
+  upstream: string | null;
+  ok: boolean;
+  /** 失败时的错误码（describeError 的 code） */
+  error?: string;
+  /** 客户端断开 / 取消（不计入错误率） */
+  aborted: boolean;
+  /** 从第一次上游尝试到首个正文增量；没有正文时为 null */
+  ttft_ms: number | null;
+  total_ms: number;
+  /** 换过上游，或首包超时回退为非流式 */
+  fallback: boolean;
+  /** 同一上游的退避重试次数 */
+  retries: number;
+}
+
+export class Trace {
+  readonly started = Date.now();
+
+  constructor(
+    private env: Env,
+    readonly id: string,
+    readonly route: string,
+    private opts: { waitUntil?: (p: Promise<unknown>) => void; fields?: Record<string, unknown> } = {}
+  ) {}
+
+  log(event: TraceEvent, fields: Record<string, unknown> = {}, level: "info" | "warn" | "error" = "info") {
+    const line = JSON.stringify({
+      level,
+      event,
+      trace_id: this.id,
+      route: this.route,
+      elapsed_ms: Date.now() - this.started,
+      ...this.opts.fields,
+      ...fields,
+    });
+    if (level === "error") console.error(line);
+    else if (level === "warn") console.warn(line);
+    else console.log(line);
+  }
+
+  /** 一次生成结束：写日志并记入指标（未绑定 METRICS 时只写日志） */
+  generation(sample: GenerationSample) {
+    this.log("generation", { ...sample }, sample.ok || sample.aborted ? "info" : "warn");
+    const ns = this.env.METRICS;
+    if (!ns) return;
+    const p = ns
+      .get(ns.idFromName("global"))
+      .record(sample)
+      .catch(() => {});
+    this.opts.waitUntil?.(p);
+  }
+}
+
+/** 按请求建 trace：沿用客户端给的合法 x-trace-id */
+export function startTrace(request: Request, env: Env, ctx: ExecutionContext, route: string): Trace {
+  const given = request.headers.get("x-trace-id");
+  const id = given && TRACE_ID_RE.test(given) ? given : crypto.randomUUID();
+  return new Trace(env, id, route, { waitUntil: (p) => ctx.waitUntil(p) });
+}
+
+/* ---------------- 聚合 ---------------- */
+
+interface Histogram {
+  /** 每个桶的计数，长度 LATENCY_BOUNDS.length + 1 */
+  counts: number[];
+  sum: number;
+  n: number;
+  max: number;
+}
+
+/** 某小时某模型的累计 */
+interface MetricsBucket {
+  hour: string;
+  model: string;
+  requests: number;
+  errors: number;
+  aborted: number;
+  fallbacks: number;
+  retries: number;
+  error_codes: Record<string, number>;
+  ttft: Histogram;
+  total: Histogram;
+}
+
+export interface LatencySummary {
+  avg: number | null;
+  p50: number | null;
+  p95: number | null;
+  max: number | null;
+}
+
+export interface ModelMetrics {
+  model: string;
+  requests: number;
+  errors: number;
+  error_rate: number;
+  aborted: number;
+  fallbacks: number;
+  fallback_rate: number;
+  retries: number;
+  error_codes: Record<string, number>;
+  ttft_ms: LatencySummary;
+  total_ms: LatencySummary;
+}
+
+const hourOf = (t: number) => new Date(t).toISOString().slice(0, 13);
+const bucketKey = (hour: string, model: string) => `metrics:${hour}:${model}`;
+const emptyHistogram = (): Histogram => ({ counts: new Array(LATENCY_BOUNDS.length + 1).fill(0), sum: 0, n: 0, max: 0 });
+
+function observe(h: Histogram, ms: number) {
+  const i = LATENCY_BOUNDS.findIndex((b) => ms <= b);
+  h.counts[i === -1 ? LATENCY_BOUNDS.length : i]++;
+  h.sum += ms;
+  h.n++;
+  h.max = Math.max(h.max, ms);
+}
+
+function mergeHistogram(a: Histogram, b: Histogram) {
+  b.counts.forEach((c, i) => (a.counts[i] += c));
+  a.sum += b.sum;
+  a.n += b.n;
+  a.max = Math.max(a.max, b.max);
+}
+
+/** 分位数取所在桶的上界（最后一桶取最大值），不超过最大值 */
+function quantile(h: Histogram, q: number): number | null {
+  if (!h.n) return null;
+  const rank = Math.ceil(q * h.n);
+  let seen = 0;
+  for (let i = 0; i < h.counts.length; i++) {
+    seen += h.counts[i];
+    if (seen >= rank) return Math.min(LATENCY_BOUNDS[i] ?? h.max, h.max);
+  }
+  return h.max;
+}
+
+function summarize(h: Histogram): LatencySummary {
+  return {
+    avg: h.n ? Math.round(h.sum / h.n) : null,
+    p50: quantile(h, 0.5),
+    p95: quantile(h, 0.95),
+    max: h.n ? h.max : null,
+  };
+}
+
+const rate = (n: number, d: number) => (d ? Number((n / d).toFixed(4)) : 0);
+
+export class MetricsStore extends DurableObject<Env> {
+  private prunedHour = "";
+
+  async record(s: GenerationSample, now = Date.now()) {
+    const hour = hourOf(now);
+    const k = bucketKey(hour, s.model);
+    const b: MetricsBucket = (await this.ctx.storage.get<MetricsBucket>(k)) ?? {
+      hour,
+      model: s.model,
+      requests: 0,
+      errors: 0,
+      aborted: 0,
+      fallbacks: 0,
+      retries: 0,
+      error_codes: {},
+      ttft: emptyHistogram(),
+      total: emptyHistogram(),
+    };
+    b.requests++;
+    if (s.aborted) b.aborted++;
+    else if (!s.ok) {
+      b.errors++;
+      const code = s.error || "unknown";
+      b.error_codes[code] = (b.error_codes[code] ?? 0) + 1;
+    }
+    if (s.fallback) b.fallbacks++;
+    b.retries += s.retries;
+    if (s.ttft_ms !== null) observe(b.ttft, s.ttft_ms);
+    observe(b.total, s.total_ms);
+    await this.ctx.storage.put(k, b);
+
+    // 每小时清理一次过期的桶
+    if (this.prunedHour !== hour) {
+      this.prunedHour = hour;
+      const old = await this.ctx.storage.list({
+        prefix: "metrics:",
+        end: `metrics:${hourOf(now - RETENTION_HOURS * HOUR_MS)}`,
+      });
+      if (old.size) await this.ctx.storage.delete([...old.keys()]);
+    }
+  }
+
+  /** 最近 hours 小时（含当前小时）按模型汇总 */
+  async report(hours: number, now = Date.now()): Promise<ModelMetrics[]> {
+    const rows = await this.ctx.storage.list<MetricsBucket>({
+      start: `metrics:${hourOf(now - (hours - 1) * HOUR_MS)}`,
+      end: "metrics:\uffff",
+    });
+    const byModel = new Map<string, MetricsBucket>();
+    for (const b of rows.values()) {
+      const m = byModel.get(b.model);
+      if (!m) {
+        byModel.set(b.model, structuredClone(b));
+        continue;
+      }
+      m.requests += b.requests;
+      m.errors += b.errors;
+      m.aborted += b.aborted;
+      m.fallbacks += b.fallbacks;
+      m.retries += b.retries;
+      for (const [code, n] of Object.entries(b.error_codes)) m.error_codes[code] = (m.error_codes[code] ?? 0) + n;
+      mergeHistogram(m.ttft, b.ttft);
+      mergeHistogram(m.total, b.total);
+    }
+    return [...byModel.values()]
+      .map((m) => ({
+        model: m.model,
+        requests: m.requests,
+        errors: m.errors,
+        error_rate: rate(m.errors, m.requests - m.aborted),
+        aborted: m.aborted,
+        fallbacks: m.fallbacks,
+        fallback_rate: rate(m.fallbacks, m.requests),
+        retries: m.retries,
+        error_codes: m.error_codes,
+        ttft_ms: summarize(m.ttft),
+        total_ms: summarize(m.total),
+      }))
+      .sort((a, b) => b.requests - a.requests);
+  }
+}
+
+/** GET /api/metrics；权限检查在 index.ts */
+export async function handleMetrics(request: Request, env: Env, url: URL): Promise<Response> {
+  if (request.method !== "GET") return json({ error: "Method not allowed" }, 405);
+  if (!env.METRICS) return json({ error: "Metrics are not configured" }, 501);
+  const q = url.searchParams.get("hours");
+  const hours = q === null ? DEFAULT_HOURS : Number(q);
+  if (!Number.isInteger(hours) || hours < 1 || hours > RETENTION_HOURS) {
+    return json({ error: `'hours' must be an integer from 1 to ${RETENTION_HOURS}` }, 400);
+  }
+  const now = Date.now();
+  const models = await env.METRICS.get(env.METRICS.idFromName("global")).report(hours, now);
+  const requests = models.reduce((n, m) => n + m.requests, 0);
+  const errors = models.reduce((n, m) => n + m.errors, 0);
+  const aborted = models.reduce((n, m) => n + m.aborted, 0);
+  const fallbacks = models.reduce((n, m) => n + m.fallbacks, 0);
+  return json({
+    hours,
+    since: `${hourOf(now - (hours - 1) * HOUR_MS)}:00:00Z`,
+    totals: {
+      requests,
+      errors,
+      error_rate: rate(errors, requests - aborted),
+      aborted,
+      fallbacks,
+      fallback_rate: rate(fallbacks, requests),
+    },
+    models,
+  });
+}
@@ -0,0 +1,351 @@
+/**
+ * 会话导出 / 导入：Markdown、规范 JSON（llm-chat.conversation.v1）、OpenAI 微调 JSONL（{"messages":[...]}）
+ * - POST /api/export?format=markdown|json|jsonl   body 为规范 JSON（或 {messages}），导出客户端历史
+ * - POST /api/import[?format=…]                   校验后返回规范 JSON
+ * - GET  /api/conversations/:id/export、POST /api/conversations/import 见 conversations.ts
+ * 导入的 format 缺省时按 Content-Type / 内容推断；Markdown 只保证能导回本模块导出的格式
+ */
+
+import { contentText, parseMessage } from "./attachments";
+import type { Citation } from "./providers";
+import { json } from "./sse";
+import type { ChatMessage, Conversation, ContentPart } from "./types";
+
+export const TRANSCRIPT_SCHEMA = "llm-chat.conversation.v1";
+export type TranscriptFormat = "markdown" | "json" | "jsonl";
+const FORMATS: TranscriptFormat[] = ["markdown", "json", "jsonl"];
+
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+const MAX_IMPORT_MESSAGES = 500;
+const MAX_IMPORT_MESSAGE_CHARS = 100_000;
+const TITLE_CHARS = 200;
+
+export interface TranscriptMessage extends ChatMessage {
+  citations?: Citation[];
+  created_at?: number;
+}
+
+/** 规范 JSON */
+export interface Transcript {
+  schema: typeof TRANSCRIPT_SCHEMA;
+  id?: string;
+  title: string;
+  created_at?: number;
+  updated_at?: number;
+  messages: TranscriptMessage[];
+}
+
+const ROLE_LABEL: Record<ChatMessage["role"], string> = { system: "System", user: "User", assistant: "Assistant" };
+// 每条消息前的标记：正文里出现 "## User" 也不会被误切
+const MARKER_RE = /^<!-- llm-chat:(system|user|assistant) -->$/;
+const HEADING_RE = /^## (System|User|Assistant)\s*$/;
+const FENCE_RE = /^\s*(```|~~~)/;
+const SOURCE_RE = /^\d+\. \[(.*)\]\((\S+)\)$/;
+const PART_RE = /^(!?)\[([^\]]*)\]\(attachment:([\w-]+)\)$/;
+
+export function isTranscriptFormat(v: unknown): v is TranscriptFormat {
+  return FORMATS.includes(v as TranscriptFormat);
+}
+
+export function fromConversation(conv: Conversation): Transcript {
+  return {
+    schema: TRANSCRIPT_SCHEMA,
+    id: conv.id,
+    title: conv.title,
+    created_at: conv.created_at,
+    updated_at: conv.updated_at,
+    messages: conv.messages.map(({ id, parent_id, ...m }) => m),
+  };
+}
+
+/* ---------------- 导出 ---------------- */
+
+/** 没闭合的代码块补上结束围栏，避免吞掉后面的消息 */
+function closeFences(text: string): string {
+  let open: string | null = null;
+  for (const line of text.split("\n")) {
+    const m = line.match(FENCE_RE);
+    if (!m) continue;
+    if (!open) open = m[1];
+    else if (m[1] === open) open = null;
+  }
+  return open ? `${text}\n${open}` : text;
+}
+
+function partsMarkdown(parts: ContentPart[]): string {
+  return parts
+    .map((p) => {
+      if (p.type === "input_text") return p.text;
+      if (p.type === "input_image") {
+        return p.attachment_id ? `![image](attachment:${p.attachment_id})` : `![image](${p.image_url})`;
+      }
+      return `[${p.filename || "file"}](attachment:${p.attachment_id})`;
+    })
+    .join("\n\n");
+}
+
+export function toMarkdown(t: Transcript): string {
+  const out = [`# ${t.title || "Conversation"}`, ""];
+  for (const m of t.messages) {
+    out.push(`<!-- llm-chat:${m.role} -->`, `## ${ROLE_LABEL[m.role]}`, "");
+    out.push(closeFences(typeof m.content === "string" ? m.content : partsMarkdown(m.content)), "");
+    if (m.citations?.length) {
+      out.push("**Sources**", "");
+      m.citations.forEach((c, i) => out.push(`${i + 1}. [${(c.title || c.url).replace(/[[\]]/g, "")}](${c.url})`));
+      out.push("");
+    }
+  }
+  return out.join("\n");
+}
+
+/** 微调 JSONL：一行一个会话；附件退化为文本占位，需要至少一条 assistant 回复 */
+export function toJsonl(t: Transcript): string | null {
+  if (!t.messages.some((m) => m.role === "assistant")) return null;
+  const messages = t.messages.map((m) => ({ role: m.role, content: contentText(m.content) }));
+  return JSON.stringify({ messages }) + "\n";
+}
+
+function filename(t: Transcript, ext: string) {
+  const slug = (t.title || "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${slug || "conversation"}.${ext}`;
+}
+
+export function exportResponse(t: Transcript, format: TranscriptFormat): Response {
+  let body: string;
+  let type: string;
+  let ext: string;
+  switch (format) {
+    case "markdown":
+      [body, type, ext] = [toMarkdown(t), "text/markdown; charset=utf-8", "md"];
+      break;
+    case "jsonl": {
+      const line = toJsonl(t);
+      if (!line) return json({ error: "Fine-tuning export needs at least one assistant message" }, 400);
+      [body, type, ext] = [line, "application/jsonl; charset=utf-8", "jsonl"];
+      break;
+    }
+    default:
+      [body, type, ext] = [JSON.stringify(t, null, 2), "application/json; charset=utf-8", "json"];
+  }
+  return new Response(body, {
+    headers: {
+      "content-type": type,
+      "content-disposition": `attachment; filename="${filename(t, ext)}"`,
+      "Access-Control-Allow-Origin": "*",
+    },
+  });
+}
+
+/* ---------------- 导入 ---------------- */
+
+function parseCitations(v: unknown): Citation[] | undefined | null {
+  if (v === undefined) return undefined;
+  if (!Array.isArray(v)) return null;
+  const out: Citation[] = [];
+  for (const c of v) {
+    if (typeof c?.url !== "string" || !/^https?:\/\//.test(c.url)) return null;
+    out.push({ url: c.url, ...(typeof c.title === "string" ? { title: c.title } : {}) });
+  }
+  return out;
+}
+
+/** 校验消息列表；返回错误信息或规范化后的消息 */
+function validateMessages(raw: unknown): TranscriptMessage[] | string {
+  if (!Array.isArray(raw) || !raw.length) return "'messages' must be a non-empty array";
+  if (raw.length > MAX_IMPORT_MESSAGES) return `At most ${MAX_IMPORT_MESSAGES} messages can be imported`;
+  const out: TranscriptMessage[] = [];
+  for (let i = 0; i < raw.length; i++) {
+    const m = parseMessage(raw[i], MAX_IMPORT_MESSAGE_CHARS);
+    if (!m) return `messages[${i}] is invalid`;
+    const citations = parseCitations(raw[i].citations);
+    if (citations === null) return `messages[${i}].citations is invalid`;
+    out.push({
+      ...m,
+      ...(citations?.length && m.role === "assistant" ? { citations } : {}),
+      ...(Number.isFinite(raw[i].created_at) ? { created_at: raw[i].created_at } : {}),
+    });
+  }
+  return out;
+}
+
+function transcript(title: unknown, messages: unknown, extra: Partial<Transcript> = {}): Transcript | string {
+  const valid = validateMessages(messages);
+  if (typeof valid === "string") return valid;
+  if (title !== undefined && typeof title !== "string") return "'title' must be a string";
+  return { schema: TRANSCRIPT_SCHEMA, title: (title || "").slice(0, TITLE_CHARS), ...extra, messages: valid };
+}
+
+function parseJson(text: string): Transcript | string {
+  let j: any;
+  try {
+    j = JSON.parse(text);
+  } catch {
+    return "Invalid JSON";
+  }
+  if (!j || typeof j !== "object" || Array.isArray(j)) return "Expected a JSON object";
+  if (j.schema !== undefined && j.schema !== TRANSCRIPT_SCHEMA) return `Unsupported schema (expected ${TRANSCRIPT_SCHEMA})`;
+  const extra: Partial<Transcript> = {};
+  if (Number.isFinite(j.created_at)) extra.created_at = j.created_at;
+  return transcript(j.title, j.messages, extra);
+}
+
+function parseJsonl(text: string): Transcript | string {
+  const lines = text.split("\n").filter((l) => l.trim());
+  if (lines.length !== 1) return "JSONL import expects exactly one conversation (one line)";
+  let j: any;
+  try {
+    j = JSON.parse(lines[0]);
+  } catch {
+    return "Invalid JSONL line";
+  }
+  // 微调数据里的 weight 等字段忽略
+  const messages = Array.isArray(j?.messages)
+    ? j.messages.map((m: any) => ({ role: m?.role, content: m?.content }))
+    : j?.messages;
+  return transcript(undefined, messages);
+}
+
+/** Markdown 里的附件链接还原为内容片段（只对 user 消息） */
+function markdownContent(role: ChatMessage["role"], text: string): ChatMessage["content"] {
+  if (role !== "user" || !/\]\(attachment:/.test(text)) return text;
+  const parts: ContentPart[] = [];
+  for (const block of text.split(/\n{2,}/)) {
+    const m = block.trim().match(PART_RE);
+    if (!m) {
+      const last = parts[parts.length - 1];
+      if (last?.type === "input_text") last.text += `\n\n${block}`;
+      else parts.push({ type: "input_text", text: block });
+    } else if (m[1]) {
+      parts.push({ type: "input_image", attachment_id: m[3] });
+    } else {
+      parts.push({ type: "input_file", attachment_id: m[3], filename: m[2] });
+    }
+  }
+  return parts;
+}
+
+function parseMarkdown(text: string): Transcript | string {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  const useMarkers = lines.some((l) => MARKER_RE.test(l));
+  let title = "";
+  const raw: { role: ChatMessage["role"]; lines: string[] }[] = [];
+  let fence: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!fence) {
+      const marker = useMarkers ? line.match(MARKER_RE) : null;
+      const heading = line.match(HEADING_RE);
+      if (marker || (!useMarkers && heading)) {
+        const role = (marker ? marker[1] : heading![1].toLowerCase()) as ChatMessage["role"];
+        raw.push({ role, lines: [] });
+        // 标记后紧跟的标题不算正文
+        if (marker && HEADING_RE.test(lines[i + 1] ?? "")) i++;
+        continue;
+      }
+      if (!raw.length) {
+        if (!title && line.startsWith("# ")) title = line.slice(2).trim();
+        continue;
+      }
+    }
+    const f = line.match(FENCE_RE);
+    if (f) fence = !fence ? f[1] : f[1] === fence ? null : fence;
+    raw[raw.length - 1].lines.push(line);
+  }
+  if (!raw.length) return "No messages found (expected '## User' / '## Assistant' sections)";
+
+  const messages = raw.map(({ role, lines: body }) => {
+    // 末尾的 **Sources** 列表还原为引用
+    let end = body.length;
+    while (end > 0 && !body[end - 1].trim()) end--;
+    let start = end;
+    while (start > 0 && SOURCE_RE.test(body[start - 1])) start--;
+    const citations: Citation[] = [];
+    let k = start - 1;
+    while (k >= 0 && !body[k].trim()) k--;
+    if (role === "assistant" && start < end && body[k] === "**Sources**") {
+      for (const l of body.slice(start, end)) {
+        const [, t, url] = l.match(SOURCE_RE)!;
+        citations.push(t && t !== url ? { url, title: t } : { url });
+      }
+      end = k;
+    }
+    const content = body.slice(0, end).join("\n").trim();
+    return { role, content: markdownContent(role, content), ...(citations.length ? { citations } : {}) };
+  });
+  return transcript(title, messages);
+}
+
+function isJson(text: string) {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** 按 format（缺省时推断）解析导入内容；返回错误信息或规范 JSON */
+export function parseTranscript(text: string, format: TranscriptFormat | null): Transcript | string {
+  const trimmed = text.trim();
+  if (!trimmed) return "Empty import";
+  // 单行 JSONL 本身也是合法 JSON，按 JSON 解析结果相同
+  if (!format) format = !trimmed.startsWith("{") ? "markdown" : isJson(trimmed) ? "json" : "jsonl";
+  switch (format) {
+    case "markdown":
+      return parseMarkdown(text);
+    case "jsonl":
+      return parseJsonl(text);
+    default:
+      return parseJson(text);
+  }
+}
+
+/** 导入请求的 format：?format= > Content-Type > 推断（null） */
+export function importFormat(request: Request, url: URL): TranscriptFormat | null | Response {
+  const q = url.searchParams.get("format");
+  if (q) return isTranscriptFormat(q) ? q : json({ error: `'format' must be one of ${FORMATS.join(", ")}` }, 400);
+  const ct = (request.headers.get("content-type") || "").toLowerCase();
+  if (ct.includes("markdown")) return "markdown";
+  if (ct.includes("jsonl") || ct.includes("ndjson")) return "jsonl";
+  if (ct.includes("application/json")) return "json";
+  return null;
+}
+
+/** 读取并解析导入请求体；错误时返回 Response */
+export async function readImport(request: Request, url: URL): Promise<Transcript | Response> {
+  if (request.method !== "POST") return json({ error: "Method not allowed" }, 405);
+  const format = importFormat(request, url);
+  if (format instanceof Response) return format;
+  if (Number(request.headers.get("content-length")) > MAX_IMPORT_BYTES) return json({ error: "Import too large" }, 413);
+  const text = await request.text();
+  if (text.length > MAX_IMPORT_BYTES) return json({ error: "Import too large" }, 413);
+  const t = parseTranscript(text, format);
+  return typeof t === "string" ? json({ error: t }, 400) : t;
+}
+
+/** 导出请求的 format；缺省 markdown */
+export function exportFormat(url: URL): TranscriptFormat | Response {
+  const f = url.searchParams.get("format") || "markdown";
+  return isTranscriptFormat(f) ? f : json({ error: `'format' must be one of ${FORMATS.join(", ")}` }, 400);
+}
+
+/** 处理 /api/export 与 /api/import；路径不匹配时返回 null */
+export async function handleTranscripts(request: Request, url: URL): Promise<Response | null> {
+  if (url.pathname === "/api/import") {
+    const t = await readImport(request, url);
+    return t instanceof Response ? t : json(t);
+  }
+  if (url.pathname !== "/api/export") return null;
+  if (request.method !== "POST") return json({ error: "Method not allowed" }, 405);
+  const format = exportFormat(url);
+  if (format instanceof Response) return format;
+  const body: any = await request.json().catch(() => null);
+  const t = transcript(body?.title, body?.messages);
+  if (typeof t === "string") return json({ error: t }, 400);
+  return exportResponse(t, format);
+}
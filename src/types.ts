@@ -2,10 +2,18 @@
  * Type definitions for the LLM chat application.
  */
 
+import type { BatchJob, BatchMessage } from "./batches";
+import type { ConversationStore } from "./conversations";
+import type { Citation } from "./providers";
+import type { RateLimiter } from "./ratelimit";
+import type { StreamBuffer } from "./resume";
+import type { MetricsStore } from "./trace";
+import type { UsageLedger } from "./usage";
+
 export interface Env {
   /**
    * Binding for the Workers AI API.
-   * 可选：当前代码未使用，可不绑定。
+   * 可选：仅 provider=workers-ai 时使用，未绑定时该 provider 不可用。
    */
   AI?: Ai;
 
@@ -32,12 +40,284 @@ export interface Env {
    * Name: OPENAI_API_BASE
    */
   OPENAI_API_BASE?: string;
+
+  /**
+   * （可选）OpenAI-Beta 头，默认 "responses-2024-12-17"
+   */
+  OPENAI_BETA?: string;
+
+  /**
+   * （可选）默认采样参数；请求 query 可覆盖
+   */
+  OPENAI_MAX_TOKENS?: string;
+  OPENAI_SEED?: string;
+  OPENAI_TEMPERATURE?: string;
+  OPENAI_TOP_P?: string;
+
+  /**
+   * （可选）"on" 时为支持的模型挂托管 web search 工具
+   */
+  OPENAI_NATIVE_TOOLS?: string;
+
+  /**
+   * （可选）覆盖默认 system prompt
+   */
+  SYSTEM_PROMPT?: string;
+
+  /**
+   * （可选）默认上游 provider：openai-responses（默认）/ openai-chat / workers-ai
+   * 单次请求可用 ?provider= 或 body.provider 覆盖
+   */
+  LLM_PROVIDER?: string;
+
+  /**
+   * （可选）provider=workers-ai 时使用的模型
+   * e.g. "@cf/meta/llama-3.3-70b-instruct-fp8-fast"
+   */
+  WORKERS_AI_MODEL?: string;
+
+  /**
+   * （可选）多上游 failover 列表（JSON 数组，建议放 Secrets），按顺序尝试：
+   * [{"name":"primary","provider":"openai-responses","api_base":"...","api_key_env":"OPENAI_API_KEY_2","model":"gpt-4o"}]
+   * 未设置时只使用 OPENAI_* / WORKERS_AI_* 组成的单上游
+   */
+  UPSTREAMS?: string;
+
+  /**
+   * （可选）熔断：连续失败次数阈值（默认 3）与冷却时长 ms（默认 30000）
+   */
+  BREAKER_FAILURES?: string;
+  BREAKER_COOLDOWN_MS?: string;
+
+  /**
+   * （可选）同一上游遇到限流 / 5xx / 超时时的重试次数（默认 2，上限 5；0 关闭），指数退避，遵守 Retry-After
+   */
+  UPSTREAM_MAX_RETRIES?: string;
+
+  /**
+   * （可选）上游录制 / 回放 / 模拟（见 replay.ts）："live"（默认）/ "record" / "replay" / "mock"
+   * UPSTREAM_FIXTURES：record / replay 存 fixture 的 KV
+   * UPSTREAM_REPLAY_TIMING：回放节奏 "original"（默认）/ "instant" / 延迟倍率（如 "0.1"）
+   */
+  UPSTREAM_MODE?: string;
+  UPSTREAM_FIXTURES?: KVNamespace;
+  UPSTREAM_REPLAY_TIMING?: string;
+
+  /**
+   * （可选）启用的函数工具（见 tools.ts）：逗号分隔，如 "calculator,fetch_url,kv_lookup"，或 "all"
+   * AGENT_MAX_STEPS：工具调用最多几轮（默认 4，上限 10）
+   */
+  AGENT_TOOLS?: string;
+  AGENT_MAX_STEPS?: string;
+
+  /**
+   * （可选）fetch_url 工具允许访问的域名，逗号分隔；"*.example.com" 匹配子域
+   * 不设时 fetch_url 不可用
+   */
+  TOOL_FETCH_ALLOWLIST?: string;
+
+  /**
+   * （可选）kv_lookup 工具查询的 KV 与 key 前缀；未绑定时 kv_lookup 不可用
+   */
+  TOOL_KV?: KVNamespace;
+  TOOL_KV_PREFIX?: string;
+
+  /**
+   * （可选）会话持久化 Durable Object（/api/conversations/*）
+   * 未绑定时会话接口返回 501
+   */
+  CONVERSATIONS?: DurableObjectNamespace<ConversationStore>;
+
+  /**
+   * （可选）上下文预算：
+   * - CONTEXT_BUDGET_TOKENS：固定预算；不设时按模型窗口减去输出上限估算
+   * - CONTEXT_STRATEGY：summarize（默认，摘要被裁掉的轮次）/ drop
+   * - CONTEXT_KEEP_RECENT：始终保留的最近消息条数（默认 4）
+   */
+  CONTEXT_BUDGET_TOKENS?: string;
+  CONTEXT_STRATEGY?: string;
+  CONTEXT_KEEP_RECENT?: string;
+
+  /**
+   * （可选）API key 存储（KV）。绑定后 /api/* 与 /v1/* 都需要 Bearer key
+   * 记录格式见 auth.ts 的 ApiKeyRecord
+   */
+  API_KEYS?: KVNamespace;
+
+  /**
+   * （可选，secret）未绑定 API_KEYS 时 /api/admin/* 与 /api/metrics 所需的 Bearer token；
+   * 两者都没有时管理接口一律 403
+   */
+  ADMIN_TOKEN?: string;
+
+  /**
+   * （可选）按 key 限流的 Durable Object；未绑定时不限流
+   */
+  RATE_LIMITER?: DurableObjectNamespace<RateLimiter>;
+
+  /**
+   * （可选）key 记录未设置时的默认配额：每分钟/每天请求数、每天 token 数
+   */
+  RATE_LIMIT_RPM?: string;
+  RATE_LIMIT_RPD?: string;
+  RATE_LIMIT_TPD?: string;
+
+  /**
+   * （可选）用量/费用统计 Durable Object（/api/usage）；未绑定时不记账
+   */
+  USAGE?: DurableObjectNamespace<UsageLedger>;
+
+  /**
+   * （可选）流式回复缓冲 Durable Object（见 resume.ts）；绑定后可用 Last-Event-ID 断线续传、/api/chat/:id/cancel 取消
+   */
+  STREAMS?: DurableObjectNamespace<StreamBuffer>;
+
+  /**
+   * （可选）延迟 / 错误指标 Durable Object（/api/metrics，见 trace.ts）；未绑定时只写日志
+   */
+  METRICS?: DurableObjectNamespace<MetricsStore>;
+
+  /**
+   * （可选）覆盖/补充价格表（JSON，USD / 1M tokens，按模型名前缀匹配）
+   * e.g. {"gpt-4o":{"input":2.5,"cached_input":1.25,"output":10}}
+   */
+  MODEL_PRICES?: string;
+
+  /**
+   * （可选）附件存储（R2，/api/attachments）；未绑定时不能上传图片/文件
+   * ATTACHMENT_MAX_BYTES：单个附件大小上限（默认 10 MiB）
+   */
+  ATTACHMENTS?: R2Bucket;
+  ATTACHMENT_MAX_BYTES?: string;
+
+  /**
+   * （可选）内容守卫（见 guard.ts）：
+   * - GUARD_PII：要识别的 PII，逗号分隔 email,phone,id,card 或 "all"
+   * - GUARD_PII_ACTION：block / redact（默认）/ warn
+   * - GUARD_OUTPUT："on" 时对模型输出同样过滤
+   * - GUARD_MODERATION："on" 时调用 OpenAI /moderations 检查用户输入
+   * - GUARD_MODERATION_ACTION：block（默认）/ warn
+   */
+  GUARD_PII?: string;
+  GUARD_PII_ACTION?: string;
+  GUARD_OUTPUT?: string;
+  GUARD_MODERATION?: string;
+  GUARD_MODERATION_ACTION?: string;
+
+  /**
+   * （可选）模型能力表覆盖（KV，见 models.ts）：
+   * - key "overrides"：{"<模型名前缀>": {"context_window", "max_output_tokens", "sampling", "reasoning_efforts", "tools", "vision", "structured_output"}}
+   * - MODELS_REFRESH=on：/api/ping 时把上游 /models 里的能力字段写入 key "discovered"
+   */
+  MODELS?: KVNamespace;
+  MODELS_REFRESH?: string;
+
+  /**
+   * （可选）知识库检索（见 knowledge.ts）：
+   * - KNOWLEDGE_INDEX：Vectorize 索引（维度与向量化模型一致，cosine）；KNOWLEDGE：文档清单（KV），两者都绑定才启用
+   * - KNOWLEDGE_STORE："memory" 时用 isolate 内存代替（开发 / 测试用，不持久）
+   * - KNOWLEDGE_EMBEDDING_MODEL：默认 @cf/baai/bge-base-en-v1.5（768 维）；非 @cf/ 模型走 OpenAI /embeddings
+   * - KNOWLEDGE_TOP_K：每次检索的片段数（默认 4，最多 20）；KNOWLEDGE_MIN_SCORE：低于该相似度的片段丢弃
+   */
+  KNOWLEDGE_INDEX?: Vectorize;
+  KNOWLEDGE?: KVNamespace;
+  KNOWLEDGE_STORE?: string;
+  KNOWLEDGE_EMBEDDING_MODEL?: string;
+  KNOWLEDGE_TOP_K?: string;
+  KNOWLEDGE_MIN_SCORE?: string;
+
+  /**
+   * （可选）批量任务（/api/batches，见 batches.ts）：BATCHES（Durable Object）与 BATCH_QUEUE（Queue，生产者 + 消费者）都绑定才启用
+   * - BATCH_CONCURRENCY：一次投递内并发生成的条数（默认 4，上限 16）
+   * - BATCH_MAX_ATTEMPTS：可重试失败的最多尝试次数（默认 3）；队列的 max_retries 应不小于它
+   * - BATCH_MAX_ITEMS：单个任务最多行数（默认 1000）
+   * - BATCH_ITEM_TIMEOUT_MS：单条超时（默认 120000）
+   */
+  BATCHES?: DurableObjectNamespace<BatchJob>;
+  BATCH_QUEUE?: Queue<BatchMessage>;
+  BATCH_CONCURRENCY?: string;
+  BATCH_MAX_ATTEMPTS?: string;
+  BATCH_MAX_ITEMS?: string;
+  BATCH_ITEM_TIMEOUT_MS?: string;
+
+  /**
+   * （可选）多模型对比的记录与投票（KV，见 compare.ts）；未绑定时 /api/compare 照常可用，但不能投票
+   */
+  VOTES?: KVNamespace;
+
+  /**
+   * （可选）命名预设（KV，/api/admin/presets）；对话请求用 ?preset=<name> 选择
+   */
+  PRESETS?: KVNamespace;
+
+  /**
+   * （可选）响应缓存（KV）：只缓存确定性请求（指定 seed 或 temperature=0），见 cache.ts
+   * RESPONSE_CACHE_TTL：缓存秒数（默认 3600，最小 60）
+   */
+  RESPONSE_CACHE?: KVNamespace;
+  RESPONSE_CACHE_TTL?: string;
+
+  /**
+   * （可选）允许的 CORS 来源，逗号分隔；不设时为 "*"
+   * e.g. "https://chat.example.com,https://admin.example.com"
+   */
+  CORS_ORIGINS?: string;
+
+  /**
+   * （可选）调试开关："on" 时把未知事件 / 前 5 条 RAW data 行写进日志（v2 流另有 debug 事件）
+   */
+  DEBUG_EVENTS?: string;
+  DEBUG_DUMP?: string;
 }
 
+/**
+ * 消息内容片段（多模态）
+ * - input_image / input_file 用 attachment_id 引用 /api/attachments 上传的文件；
+ *   发给上游前由 attachments.ts 解析为 image_url / file_data（data URL）
+ * - input_image 也可直接给 https 的 image_url
+ */
+export type ContentPart =
+  | { type: "input_text"; text: string }
+  | {
+      type: "input_image";
+      attachment_id?: string;
+      image_url?: string;
+      detail?: "low" | "high" | "auto";
+    }
+  | { type: "input_file"; attachment_id?: string; filename?: string; file_data?: string };
+
 /**
  * Represents a chat message.
+ * content 为片段数组时仅限 user 消息
  */
 export interface ChatMessage {
   role: "system" | "user" | "assistant";
-  content: string;
+  content: string | ContentPart[];
+}
+
+/**
+ * 服务端保存的会话消息
+ */
+export interface StoredMessage extends ChatMessage {
+  /** 会话内的消息 ID（m1、m2…，按创建顺序） */
+  id: string;
+  /** 上一条消息；会话第一条为 null。同一 parent 下的多条即分支（编辑 / 重新生成） */
+  parent_id: string | null;
+  created_at: number;
+  /** assistant 回复的引用来源（联网检索时） */
+  citations?: Citation[];
+}
+
+/**
+ * 服务端保存的会话（一个会话对应一个 Durable Object）
+ */
+export interface Conversation {
+  id: string;
+  title: string;
+  created_at: number;
+  updated_at: number;
+  /** 当前分支末端的消息 ID；空会话为 null */
+  current_id: string | null;
+  /** 整棵消息树（按创建顺序）；当前分支为 current_id 沿 parent_id 回溯的路径 */
+  messages: StoredMessage[];
 }
@@ -0,0 +1,127 @@
+/**
+ * 多上游 failover
+ * - UPSTREAMS：按顺序尝试的上游列表（JSON，建议放 Secrets）
+ * - 熔断：同一上游连续失败 N 次 → 冷却期内直接跳过
+ *   熔断状态存在 isolate 内存中，不跨实例共享；冷却结束后自动半开重试
+ */
+
+import { errorKind } from "./errors";
+import {
+  type ChatProvider,
+  type ProviderId,
+  createProvider,
+  defaultModel,
+  isProviderId,
+} from "./providers";
+import type { Env } from "./types";
+
+const DEFAULT_BREAKER_FAILURES = 3;
+const DEFAULT_BREAKER_COOLDOWN_MS = 30000;
+
+/** UPSTREAMS 中的单个条目 */
+export interface UpstreamConfig {
+  /** 唯一名称，用于熔断与流内标识 */
+  name: string;
+  provider: ProviderId;
+  api_base?: string;
+  /** 直接写密钥，或用 api_key_env 指向另一个 Secret 名 */
+  api_key?: string;
+  api_key_env?: string;
+  model?: string;
+}
+
+export interface Upstream {
+  name: string;
+  model: string;
+  provider: ChatProvider;
+}
+
+/**
+ * 解析 env.UPSTREAMS；未配置时退回单上游（env 的 OPENAI_* / WORKERS_AI_*）。
+ * 指定了 provider 时只保留该 provider 的条目。
+ */
+export function loadUpstreams(env: Env, providerId: ProviderId, explicit: boolean): Upstream[] {
+  let configs = parseUpstreams(env.UPSTREAMS);
+  if (explicit) configs = configs.filter((c) => c.provider === providerId);
+  if (!configs.length) configs = [{ name: providerId, provider: providerId }];
+
+  return configs.map((c) => {
+    const apiKey = c.api_key || (c.api_key_env ? (env as any)[c.api_key_env] : undefined);
+    return {
+      name: c.name,
+      model: (c.model || defaultModel(c.provider, env)).trim(),
+      provider: createProvider(c.provider, env, { apiBase: c.api_base, apiKey }),
+    };
+  });
+}
+
+function parseUpstreams(raw?: string): UpstreamConfig[] {
+  if (!raw) return [];
+  let list: unknown;
+  try {
+    list = JSON.parse(raw);
+  } catch {
+    throw new Error("UPSTREAMS is not valid JSON");
+  }
+  if (!Array.isArray(list)) throw new Error("UPSTREAMS must be a JSON array");
+
+  return list.map((c: any, i) => {
+    if (!isProviderId(c?.provider)) throw new Error(`UPSTREAMS[${i}].provider is invalid`);
+    return { ...c, name: String(c.name || `${c.provider}#${i}`) };
+  });
+}
+
+/**
+ * 是否值得换下一个上游：限流 / 配额 / 鉴权（不同账号）/ 5xx / 超时 / 连接错误；
+ * 上下文超长、参数错误换了也一样
+ */
+export function isFailoverError(e: unknown): boolean {
+  const kind = errorKind(e);
+  return kind !== null && kind !== "context_length" && kind !== "invalid_param" && kind !== "bad_request";
+}
+
+/* ---------------- 熔断器 ---------------- */
+
+interface BreakerState {
+  failures: number;
+  openUntil: number;
+}
+
+const breakers = new Map<string, BreakerState>();
+
+function breakerConfig(env: Env) {
+  const failures = Number(env.BREAKER_FAILURES);
+  const cooldown = Number(env.BREAKER_COOLDOWN_MS);
+  return {
+    failures: failures > 0 ? failures : DEFAULT_BREAKER_FAILURES,
+    cooldownMs: cooldown > 0 ? cooldown : DEFAULT_BREAKER_COOLDOWN_MS,
+  };
+}
+
+export function isCircuitOpen(name: string, now = Date.now()): boolean {
+  const s = breakers.get(name);
+  return !!s && s.openUntil > now;
+}
+
+export function recordSuccess(name: string) {
+  breakers.delete(name);
+}
+
+export function recordFailure(env: Env, name: string, now = Date.now()) {
+  const { failures, cooldownMs } = breakerConfig(env);
+  const s = breakers.get(name) ?? { failures: 0, openUntil: 0 };
+  s.failures++;
+  // 冷却结束后的首次失败会立即再次熔断（半开）
+  if (s.failures >= failures) s.openUntil = now + cooldownMs;
+  breakers.set(name, s);
+}
+
+/** /api/debug 用：当前熔断快照 */
+export function breakerSnapshot(now = Date.now()) {
+  return [...breakers.entries()].map(([name, s]) => ({
+    name,
+    failures: s.failures,
+    open: s.openUntil > now,
+    open_ms_left: Math.max(0, s.openUntil - now),
+  }));
+}
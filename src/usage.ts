@@ -0,0 +1,218 @@
+/**
+ * 用量与费用统计
+ * - 价格表：内置常见模型（USD / 1M tokens），MODEL_PRICES（JSON）可覆盖/补充
+ * - 每次请求结束后按 key + UTC 日期累加到 UsageLedger（单个 Durable Object）
+ * - GET /api/usage?from=YYYY-MM-DD&to=YYYY-MM-DD[&key=<id>]：普通 key 只能看自己，admin 可看全部
+ */
+
+import { DurableObject } from "cloudflare:workers";
+import type { Principal } from "./auth";
+import type { TokenUsage } from "./providers";
+import { json } from "./sse";
+import type { Env } from "./types";
+
+const DAY_MS = 86_400_000;
+const DEFAULT_RANGE_DAYS = 7;
+const MAX_RANGE_DAYS = 92;
+const ANONYMOUS = "anonymous";
+
+/** USD / 1M tokens；cached_input 缺省按 input 计 */
+export interface ModelPrice {
+  input: number;
+  cached_input?: number;
+  output: number;
+}
+
+// 前缀匹配，越具体的放越前
+const DEFAULT_PRICES: [RegExp, ModelPrice][] = [
+  [/^gpt-4\.1-nano/, { input: 0.1, cached_input: 0.025, output: 0.4 }],
+  [/^gpt-4\.1-mini/, { input: 0.4, cached_input: 0.1, output: 1.6 }],
+  [/^gpt-4\.1/, { input: 2, cached_input: 0.5, output: 8 }],
+  [/^gpt-4o-mini/, { input: 0.15, cached_input: 0.075, output: 0.6 }],
+  [/^gpt-4o/, { input: 2.5, cached_input: 1.25, output: 10 }],
+  [/^gpt-5-nano/, { input: 0.05, cached_input: 0.005, output: 0.4 }],
+  [/^gpt-5-mini/, { input: 0.25, cached_input: 0.025, output: 2 }],
+  [/^gpt-5/, { input: 1.25, cached_input: 0.125, output: 10 }],
+  [/^o4-mini/, { input: 1.1, cached_input: 0.275, output: 4.4 }],
+  [/^o3/, { input: 2, cached_input: 0.5, output: 8 }],
+  [/^@cf\/meta\/llama-3\.3-70b/, { input: 0.29, output: 2.25 }],
+];
+
+/** 一次请求的用量 + 费用（价格未知时 cost_usd 为 null） */
+export interface UsageRecord extends TokenUsage {
+  model: string;
+  cost_usd: number | null;
+}
+
+/** 某个 key 某一天的累计 */
+export interface UsageTotals {
+  day: string;
+  key: string;
+  name: string;
+  requests: number;
+  input_tokens: number;
+  output_tokens: number;
+  cached_tokens: number;
+  reasoning_tokens: number;
+  cost_usd: number;
+  /** 价格未知、未计入 cost_usd 的请求数 */
+  unpriced_requests: number;
+  models: Record<string, { requests: number; input_tokens: number; output_tokens: number; cost_usd: number }>;
+}
+
+let parsedPrices: { raw: string; prices: Record<string, ModelPrice> } | undefined;
+
+function configuredPrices(env: Env): Record<string, ModelPrice> {
+  const raw = env.MODEL_PRICES || "";
+  if (parsedPrices?.raw === raw) return parsedPrices.prices;
+  let prices: Record<string, ModelPrice> = {};
+  try {
+    const parsed = raw ? JSON.parse(raw) : {};
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) prices = parsed;
+  } catch {
+    // 配置错误时只用内置价格
+  }
+  parsedPrices = { raw, prices };
+  return prices;
+}
+
+/** MODEL_PRICES 中最长的前缀匹配优先，其次内置表 */
+export function priceFor(env: Env, model: string): ModelPrice | null {
+  const conf = configuredPrices(env);
+  const key = Object.keys(conf)
+    .filter((k) => model.startsWith(k))
+    .sort((a, b) => b.length - a.length)[0];
+  if (key) return conf[key];
+  for (const [re, price] of DEFAULT_PRICES) if (re.test(model)) return price;
+  return null;
+}
+
+export function costOf(price: ModelPrice, u: TokenUsage): number {
+  const cached = Math.min(u.cached_tokens ?? 0, u.input_tokens);
+  const usd =
+    (u.input_tokens - cached) * price.input +
+    cached * (price.cached_input ?? price.input) +
+    u.output_tokens * price.output;
+  return usd / 1e6;
+}
+
+export function priceUsage(env: Env, model: string | null, usage: TokenUsage): UsageRecord {
+  const name = model || "unknown";
+  const price = priceFor(env, name);
+  return { ...usage, model: name, cost_usd: price ? costOf(price, usage) : null };
+}
+
+/** 多次上游请求（如 n > 1）合并为一条；model 取第一条 */
+export function mergeUsage(records: UsageRecord[]): UsageRecord | undefined {
+  if (!records.length) return undefined;
+  const sum = (f: (r: UsageRecord) => number | undefined) => records.reduce((n, r) => n + (f(r) ?? 0), 0);
+  const cached = sum((r) => r.cached_tokens);
+  const reasoning = sum((r) => r.reasoning_tokens);
+  return {
+    model: records[0].model,
+    input_tokens: sum((r) => r.input_tokens),
+    output_tokens: sum((r) => r.output_tokens),
+    ...(cached ? { cached_tokens: cached } : {}),
+    ...(reasoning ? { reasoning_tokens: reasoning } : {}),
+    cost_usd: records.some((r) => r.cost_usd === null) ? null : sum((r) => r.cost_usd ?? 0),
+  };
+}
+
+const dayOf = (ts: number) => new Date(ts).toISOString().slice(0, 10);
+const usageKey = (day: string, key: string) => `usage:${day}:${key}`;
+
+export class UsageLedger extends DurableObject<Env> {
+  async record(key: string, name: string, rec: UsageRecord, now = Date.now()) {
+    const day = dayOf(now);
+    const k = usageKey(day, key);
+    const t: UsageTotals = (await this.ctx.storage.get<UsageTotals>(k)) ?? {
+      day,
+      key,
+      name,
+      requests: 0,
+      input_tokens: 0,
+      output_tokens: 0,
+      cached_tokens: 0,
+      reasoning_tokens: 0,
+      cost_usd: 0,
+      unpriced_requests: 0,
+      models: {},
+    };
+    t.name = name;
+    t.requests++;
+    t.input_tokens += rec.input_tokens;
+    t.output_tokens += rec.output_tokens;
+    t.cached_tokens += rec.cached_tokens ?? 0;
+    t.reasoning_tokens += rec.reasoning_tokens ?? 0;
+    if (rec.cost_usd === null) t.unpriced_requests++;
+    else t.cost_usd += rec.cost_usd;
+
+    const m = (t.models[rec.model] ??= { requests: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0 });
+    m.requests++;
+    m.input_tokens += rec.input_tokens;
+    m.output_tokens += rec.output_tokens;
+    m.cost_usd += rec.cost_usd ?? 0;
+
+    await this.ctx.storage.put(k, t);
+  }
+
+  /** [from, to] 闭区间内的日记录；key 为空时返回全部 key */
+  async report(from: string, to: string, key?: string): Promise<UsageTotals[]> {
+    const rows = await this.ctx.storage.list<UsageTotals>({
+      start: `usage:${from}`,
+      end: `usage:${to}:\uffff`,
+    });
+    return [...rows.values()].filter((r) => !key || r.key === key);
+  }
+}
+
+/** 请求结束后记账；未绑定 USAGE 时忽略 */
+export async function recordUsage(env: Env, principal: Principal | null, rec: UsageRecord) {
+  if (!env.USAGE) return;
+  const ledger = env.USAGE.get(env.USAGE.idFromName("ledger"));
+  await ledger.record(principal?.id ?? ANONYMOUS, principal?.name ?? ANONYMOUS, rec);
+}
+
+function parseDay(v: string | null): string | null {
+  if (!v || !/^\d{4}-\d{2}-\d{2}$/.test(v)) return null;
+  return Number.isNaN(Date.parse(v)) ? null : v;
+}
+
+/** GET /api/usage */
+export async function handleUsage(request: Request, env: Env, url: URL, principal: Principal | null) {
+  if (request.method !== "GET") return json({ error: "Method not allowed" }, 405);
+  if (!env.USAGE) return json({ error: "Usage accounting is not configured" }, 501);
+
+  const now = Date.now();
+  const qFrom = url.searchParams.get("from");
+  const qTo = url.searchParams.get("to");
+  // 默认最近 7 天（含今天）
+  const to = qTo === null ? dayOf(now) : parseDay(qTo);
+  const from =
+    qFrom === null
+      ? to && dayOf(Date.parse(to) - (DEFAULT_RANGE_DAYS - 1) * DAY_MS)
+      : parseDay(qFrom);
+  if (!from || !to || from > to) return json({ error: "'from' and 'to' must be YYYY-MM-DD with from <= to" }, 400);
+  if ((Date.parse(to) - Date.parse(from)) / DAY_MS >= MAX_RANGE_DAYS) {
+    return json({ error: `Range must not exceed ${MAX_RANGE_DAYS} days` }, 400);
+  }
+
+  // 未启用鉴权时 principal 为 null，视同 admin
+  const admin = !principal || !!principal.admin;
+  const requestedKey = url.searchParams.get("key");
+  if (requestedKey && !admin && requestedKey !== principal!.id) {
+    return json({ error: "Only admin keys can read other keys' usage" }, 403);
+  }
+  const key = admin ? requestedKey || undefined : principal!.id;
+
+  const ledger = env.USAGE.get(env.USAGE.idFromName("ledger"));
+  const days = await ledger.report(from, to, key);
+
+  const totals = { requests: 0, input_tokens: 0, output_tokens: 0, cached_tokens: 0, reasoning_tokens: 0, cost_usd: 0 };
+  for (const d of days) {
+    for (const f of Object.keys(totals) as (keyof typeof totals)[]) totals[f] += d[f];
+  }
+  totals.cost_usd = Number(totals.cost_usd.toFixed(6));
+
+  return json({ from, to, key: key ?? null, totals, days });
+}
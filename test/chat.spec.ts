@@ -0,0 +1,176 @@
+import { env } from "cloudflare:test";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { prepareChat, streamChat } from "../src/chat";
+import type { Env } from "../src/types";
+
+// 两个上游：主用走 Responses，备用走 Chat Completions；mock 指令用 model= 只作用于其中一个
+const UPSTREAMS = JSON.stringify([
+  { name: "primary", provider: "openai-responses", api_base: "https://primary.test/v1", model: "gpt-4o" },
+  { name: "backup", provider: "openai-chat", api_base: "https://backup.test/v1", model: "gpt-4o-mini" },
+]);
+
+interface StreamEvent {
+  event: string;
+  data: any;
+}
+
+function testEnv(vars: Partial<Env> = {}): Env {
+  return {
+    ...env,
+    UPSTREAMS,
+    AGENT_TOOLS: "calculator",
+    // 熔断状态在 isolate 内跨用例共享，测试里不让它打开
+    BREAKER_FAILURES: "1000",
+    ...vars,
+  };
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<string> {
+  const reader = stream.getReader();
+  const td = new TextDecoder();
+  let out = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return out;
+    out += td.decode(value, { stream: true });
+  }
+}
+
+function parseFrames(raw: string): StreamEvent[] {
+  return raw
+    .split("\n\n")
+    .filter(Boolean)
+    .map((frame) => {
+      const data = frame.match(/^data: (.*)$/m)?.[1] ?? "null";
+      return { event: frame.match(/^event: (.*)$/m)?.[1] ?? "", data: data === "[DONE]" ? data : JSON.parse(data) };
+    });
+}
+
+/** 跑一次对话流，按秒推进假时钟直到结束（最多 2 分钟） */
+async function chat(
+  prompt: string,
+  opts: { vars?: Partial<Env>; body?: Record<string, unknown>; format?: "legacy" | "v2" } = {}
+): Promise<StreamEvent[]> {
+  const format = opts.format ?? "v2";
+  const e = testEnv(opts.vars);
+  const url = new URL(`https://worker.test/api/chat?format=${format}`);
+  const prepared = prepareChat(url, e, opts.body ?? {}, [{ role: "user", content: prompt }]);
+  if (prepared instanceof Response) throw new Error(await prepared.text());
+
+  let finished = false;
+  const reading = readAll(streamChat(e, prepared.upstreams, prepared.req, { format })).finally(() => {
+    finished = true;
+  });
+  for (let i = 0; i < 120 && !finished; i++) await vi.advanceTimersByTimeAsync(1000);
+  return parseFrames(await reading);
+}
+
+const byEvent = (events: StreamEvent[], name: string) => events.filter((e) => e.event === name).map((e) => e.data);
+const textOf = (events: StreamEvent[]) => byEvent(events, "text").map((d) => d.delta).join("");
+const doneOf = (events: StreamEvent[]) => byEvent(events, "done")[0];
+const attempts = (events: StreamEvent[]) =>
+  doneOf(events).upstream.attempts.map((a: any) => `${a.name}:${a.outcome}`);
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("streamChat with UPSTREAM_MODE=mock", () => {
+  it("streams a Responses reply with usage", async () => {
+    const events = await chat("hello there");
+    expect(textOf(events)).toBe("Mock reply: hello there");
+    expect(byEvent(events, "usage")[0]).toMatchObject({ output_tokens: 4 });
+    expect(byEvent(events, "error")).toEqual([]);
+    expect(doneOf(events)).toMatchObject({ finish_reason: "stop", upstream: { name: "primary" } });
+    expect(events[events.length - 1].event).toBe("done");
+  });
+
+  it("streams a Chat Completions reply", async () => {
+    const events = await chat("hi", { body: { provider: "openai-chat" } });
+    expect(textOf(events)).toBe("Mock reply: hi");
+    expect(doneOf(events).upstream).toMatchObject({ name: "backup", provider: "openai-chat" });
+  });
+
+  it("writes the legacy chunk format", async () => {
+    const events = await chat("old client", { format: "legacy" });
+    const content = events
+      .filter((e) => e.data !== "[DONE]")
+      .map((e) => e.data.choices?.[0]?.delta?.content ?? "")
+      .join("");
+    expect(content).toBe("Mock reply: old client");
+    expect(events[events.length - 1].data).toBe("[DONE]");
+  });
+
+  it.each(["openai-responses", "openai-chat"])("runs the function tool loop (%s)", async (provider) => {
+    const events = await chat('what is 6*7 [mock: call=calculator args={"expression":"6*7"}]', { body: { provider } });
+    const tools = byEvent(events, "tool");
+    expect(tools.map((t) => t.type)).toEqual(["call", "result"]);
+    expect(tools[1]).toMatchObject({ name: "calculator", ok: true, output: "42" });
+    expect(textOf(events)).toBe("Tool result: 42");
+  });
+
+  it("drops unsupported tools and retries the request", async () => {
+    const events = await chat("no tools here [mock: reject=tools]");
+    expect(byEvent(events, "error")).toEqual([]);
+    expect(textOf(events)).toBe("Mock reply: no tools here");
+    expect(attempts(events)).toEqual(["primary:ok"]);
+  });
+
+  it("reports non-retryable upstream errors without failing over", async () => {
+    const events = await chat("bad request [mock: status=400]");
+    expect(byEvent(events, "error")[0]).toMatchObject({ code: "bad_request", retryable: false, status: 400 });
+    expect(textOf(events)).toBe("");
+  });
+
+  it("retries the same upstream after a rate limit", async () => {
+    const events = await chat("retry me [mock: status=429 retry_after=1 times=1 model=gpt-4o]");
+    expect(attempts(events)).toEqual(["primary:retried", "primary:ok"]);
+    expect(textOf(events)).toBe("Mock reply: retry me");
+  });
+
+  it("fails over to the next upstream on an auth error", async () => {
+    const events = await chat("fail over [mock: status=401 model=gpt-4o]");
+    expect(attempts(events)).toEqual(["primary:failed", "backup:ok"]);
+    expect(textOf(events)).toBe("Mock reply: fail over");
+  });
+
+  it("fails over when the connection drops before the first token", async () => {
+    const events = await chat("early drop [mock: cut=1 model=gpt-4o]");
+    expect(attempts(events)).toEqual(["primary:failed", "backup:ok"]);
+    expect(textOf(events)).toBe("Mock reply: early drop");
+  });
+
+  it("does not fail over once text has been streamed", async () => {
+    const events = await chat("one two three four [mock: cut=3 model=gpt-4o]");
+    expect(textOf(events)).toBe("Mock reply:");
+    expect(byEvent(events, "error")[0]).toMatchObject({ code: "server", retryable: true });
+    expect(byEvent(events, "error")[0].message).toContain("Mock upstream connection reset");
+    expect(attempts(events)).toEqual(["primary:failed"]);
+  });
+
+  it("fails over when the first packet does not arrive in 12s", async () => {
+    const events = await chat("slow start [mock: stall=0 model=gpt-4o]");
+    expect(attempts(events)).toEqual(["primary:failed", "backup:ok"]);
+    expect(doneOf(events).upstream.attempts[0].error).toContain("first packet timeout");
+    expect(textOf(events)).toBe("Mock reply: slow start");
+  });
+
+  it("falls back to a non-streaming request on the last upstream and sends heartbeats", async () => {
+    const events = await chat("stuck [mock: stall=0]");
+    expect(attempts(events)).toEqual(["primary:failed", "backup:ok"]);
+    expect(byEvent(events, "status").some((s) => s.kind === "heartbeat")).toBe(true);
+    expect(textOf(events)).toBe("Mock reply: stuck");
+    expect(byEvent(events, "error")).toEqual([]);
+  });
+
+  it("ends with a timeout error after 45s", async () => {
+    const events = await chat("a b c d e f g h i j [mock: delay=5000]");
+    expect(textOf(events).startsWith("Mock reply:")).toBe(true);
+    expect(textOf(events)).not.toContain("j");
+    expect(byEvent(events, "error")[0]).toMatchObject({ code: "timeout", retryable: true });
+  });
+});
@@ -0,0 +1,197 @@
+import { SELF, env, fetchMock } from "cloudflare:test";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { type UpstreamFixture, fixtureKey, upstreamFetch } from "../src/replay";
+import type { Env } from "../src/types";
+
+const URL_RESPONSES = "https://live.test/v1/responses";
+
+function post(body: unknown): RequestInit {
+  return { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) };
+}
+
+const withMode = (vars: Partial<Env>): Env => ({ ...env, ...vars });
+
+async function putFixture(body: unknown, fixture: Omit<UpstreamFixture, "request" | "recorded_at">) {
+  const key = await fixtureKey("POST", URL_RESPONSES, JSON.stringify(body));
+  await env.UPSTREAM_FIXTURES!.put(
+    `fixture:${key}`,
+    JSON.stringify({ request: { method: "POST", url: URL_RESPONSES }, recorded_at: 0, ...fixture })
+  );
+}
+
+beforeAll(() => {
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+});
+
+afterEach(() => {
+  fetchMock.assertNoPendingInterceptors();
+  vi.useRealTimers();
+});
+
+describe("UPSTREAM_MODE=mock", () => {
+  it("synthesizes a Responses event stream", async () => {
+    const r = await upstreamFetch(env, URL_RESPONSES, post({ model: "gpt-4o", stream: true, input: [{ role: "user", content: "hi" }] }));
+    expect(r.status).toBe(200);
+    expect(r.headers.get("content-type")).toBe("text/event-stream");
+    const text = await r.text();
+    expect(text).toContain('"delta":"Mock"');
+    expect(text).toContain("event: response.completed");
+  });
+
+  it("returns scripted HTTP errors", async () => {
+    const body = { model: "gpt-4o", stream: true, input: [{ role: "user", content: "[mock: status=503 retry_after=2]" }] };
+    const r = await upstreamFetch(env, URL_RESPONSES, post(body));
+    expect(r.status).toBe(503);
+    expect(r.headers.get("retry-after")).toBe("2");
+    expect(await r.json()).toMatchObject({ error: { code: "server_error" } });
+  });
+
+  it("answers moderation and embedding requests", async () => {
+    const mod = await upstreamFetch(env, "https://live.test/v1/moderations", post({ input: "[mock: flag=violence]" }));
+    expect(await mod.json()).toEqual({ results: [{ flagged: true, categories: { violence: true } }] });
+
+    const emb = await upstreamFetch(env, "https://live.test/v1/embeddings", post({ input: ["a", "a"], dimensions: 8 }));
+    const { data } = await emb.json<any>();
+    expect(data[0].embedding).toHaveLength(8);
+    expect(data[0].embedding).toEqual(data[1].embedding);
+  });
+
+  it("does not count moderation requests against times=", async () => {
+    const prompt = "[mock: status=503 times=1]";
+    await upstreamFetch(env, "https://live.test/v1/moderations", post({ input: prompt }));
+    const body = { model: "gpt-4o", stream: true, input: [{ role: "user", content: prompt }] };
+    expect((await upstreamFetch(env, URL_RESPONSES, post(body))).status).toBe(503);
+    expect((await upstreamFetch(env, URL_RESPONSES, post(body))).status).toBe(200);
+  });
+
+  it("rejects an unknown mode", async () => {
+    await expect(upstreamFetch(withMode({ UPSTREAM_MODE: "offline" }), URL_RESPONSES, post({}))).rejects.toThrow(
+      /UPSTREAM_MODE must be one of/
+    );
+  });
+});
+
+describe("UPSTREAM_MODE=record / replay", () => {
+  it("records the live response and replays it offline", async () => {
+    const body = { model: "gpt-4o", stream: true, input: [{ role: "user", content: "record me" }] };
+    const sse = 'data: {"type":"response.output_text.delta","delta":"hi"}\n\ndata: [DONE]\n\n';
+    fetchMock
+      .get("https://live.test")
+      .intercept({ path: "/v1/responses", method: "POST" })
+      .reply(200, sse, { headers: { "content-type": "text/event-stream" } });
+
+    const recorded = await upstreamFetch(withMode({ UPSTREAM_MODE: "record" }), URL_RESPONSES, post(body));
+    expect(await recorded.text()).toBe(sse);
+
+    // 录制在另一路读完后写入
+    const key = await fixtureKey("POST", URL_RESPONSES, JSON.stringify(body));
+    const fixture = await vi.waitFor(async () => {
+      const f = await env.UPSTREAM_FIXTURES!.get<UpstreamFixture>(`fixture:${key}`, "json");
+      if (!f) throw new Error("not recorded yet");
+      return f;
+    });
+    expect(fixture).toMatchObject({ status: 200, request: { model: "gpt-4o" }, headers: { "content-type": "text/event-stream" } });
+
+    // 没有新的拦截器、也不允许联网：只能来自 fixture
+    const replayed = await upstreamFetch(withMode({ UPSTREAM_MODE: "replay", UPSTREAM_REPLAY_TIMING: "instant" }), URL_RESPONSES, post(body));
+    expect(replayed.status).toBe(200);
+    expect(await replayed.text()).toBe(sse);
+  });
+
+  it("returns 404 with the fixture key when nothing was recorded", async () => {
+    const body = { model: "gpt-4o", input: "never recorded" };
+    const r = await upstreamFetch(withMode({ UPSTREAM_MODE: "replay" }), URL_RESPONSES, post(body));
+    expect(r.status).toBe(404);
+    const key = await fixtureKey("POST", URL_RESPONSES, JSON.stringify(body));
+    expect((await r.json<any>()).error.message).toContain(key);
+  });
+
+  it("scales the recorded delays", async () => {
+    const body = { input: "timed" };
+    await putFixture(body, { status: 200, headers: {}, chunks: [{ delay_ms: 100, data: "late" }] });
+    vi.useFakeTimers();
+    const r = await upstreamFetch(withMode({ UPSTREAM_MODE: "replay", UPSTREAM_REPLAY_TIMING: "0.5" }), URL_RESPONSES, post(body));
+    let text: string | undefined;
+    r.text().then((t) => (text = t));
+    await vi.advanceTimersByTimeAsync(40);
+    expect(text).toBeUndefined();
+    await vi.advanceTimersByTimeAsync(20);
+    expect(text).toBe("late");
+  });
+
+  it("replays injected connection errors", async () => {
+    const body = { input: "drops" };
+    await putFixture(body, {
+      status: 200,
+      headers: {},
+      chunks: [
+        { delay_ms: 0, data: "data: one\n\n" },
+        { delay_ms: 0, error: "connection reset" },
+      ],
+    });
+    const r = await upstreamFetch(withMode({ UPSTREAM_MODE: "replay" }), URL_RESPONSES, post(body));
+    await expect(r.text()).rejects.toThrow("connection reset");
+  });
+
+  it("stalls until the request is aborted", async () => {
+    const body = { input: "stalls" };
+    await putFixture(body, {
+      status: 200,
+      headers: {},
+      chunks: [
+        { delay_ms: 0, data: "first" },
+        { delay_ms: 0, stall: true },
+      ],
+    });
+    const ctl = new AbortController();
+    const r = await upstreamFetch(withMode({ UPSTREAM_MODE: "replay" }), URL_RESPONSES, { ...post(body), signal: ctl.signal });
+    const reader = r.body!.getReader();
+    expect(new TextDecoder().decode((await reader.read()).value)).toBe("first");
+    const pending = reader.read();
+    ctl.abort("gave up");
+    await expect(pending).rejects.toBe("gave up");
+  });
+});
+
+describe("/api/admin/fixtures", () => {
+  const key = "a".repeat(64);
+  const fixture = {
+    request: { method: "POST", url: URL_RESPONSES },
+    status: 200,
+    headers: { "content-type": "text/event-stream" },
+    chunks: [
+      { delay_ms: 0, data: "data: [DONE]\n\n" },
+      { delay_ms: 500, stall: true },
+    ],
+  };
+  const admin = (path: string, init?: RequestInit) =>
+    SELF.fetch(`https://worker.test/api/admin/fixtures${path}`, {
+      ...init,
+      headers: { Authorization: `Bearer ${env.ADMIN_TOKEN}` },
+    });
+
+  it("requires the admin token", async () => {
+    const url = "https://worker.test/api/admin/fixtures";
+    expect((await SELF.fetch(url)).status).toBe(403);
+    expect((await SELF.fetch(url, { headers: { Authorization: "Bearer wrong" } })).status).toBe(403);
+  });
+
+  it("validates uploads", async () => {
+    const bad = await admin(`/${key}`, { method: "PUT", body: JSON.stringify({ ...fixture, chunks: [{ delay_ms: 0 }] }) });
+    expect(bad.status).toBe(400);
+    expect((await admin("/not-a-key")).status).toBe(400);
+  });
+
+  it("stores, lists, reads and deletes fixtures", async () => {
+    const put = await admin(`/${key}`, { method: "PUT", body: JSON.stringify(fixture) });
+    expect(put.status).toBe(201);
+
+    const list = await (await admin("")).json<any>();
+    expect(list.data).toContainEqual(expect.objectContaining({ key, status: 200, chunks: 2 }));
+    expect(await (await admin(`/${key}`)).json()).toMatchObject({ chunks: fixture.chunks });
+
+    expect((await admin(`/${key}`, { method: "DELETE" })).status).toBe(200);
+    expect((await admin(`/${key}`)).status).toBe(404);
+  });
+});
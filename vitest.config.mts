@@ -0,0 +1,16 @@
+import { defineWorkersConfig } from "@cloudflare/vitest-pool-workers/config";
+
+// 测试不联网：上游走 UPSTREAM_MODE=mock（见 src/replay.ts），录制 / 回放用内存 KV
+export default defineWorkersConfig({
+  test: {
+    poolOptions: {
+      workers: {
+        wrangler: { configPath: "./wrangler.jsonc" },
+        miniflare: {
+          bindings: { UPSTREAM_MODE: "mock", OPENAI_API_KEY: "test-key", ADMIN_TOKEN: "test-admin" },
+          kvNamespaces: ["UPSTREAM_FIXTURES"],
+        },
+      },
+    },
+  },
+});
@@ -1,8 +1,14 @@
 /* eslint-disable */
-// Generated by Wrangler by running `wrangler types` (hash: 80249d21cfe83a36e0716221efea2fbf)
+// Generated by Wrangler by running `wrangler types` (hash: 04881cd26642e26edf59022c0834acf9)
 // Runtime types generated with workerd@1.20250617.0 2025-04-01 global_fetch_strictly_public,nodejs_compat
 declare namespace Cloudflare {
 	interface Env {
+		CONVERSATIONS: DurableObjectNamespace<import("./src/index").ConversationStore>;
+		RATE_LIMITER: DurableObjectNamespace<import("./src/index").RateLimiter>;
+		USAGE: DurableObjectNamespace<import("./src/index").UsageLedger>;
+		STREAMS: DurableObjectNamespace<import("./src/index").StreamBuffer>;
+		BATCHES: DurableObjectNamespace<import("./src/index").BatchJob>;
+		METRICS: DurableObjectNamespace<import("./src/index").MetricsStore>;
 		AI: Ai;
 		ASSETS: Fetcher;
 	}